@@ -4,7 +4,7 @@
 
 mod state;
 
-use linera_roulette::{Operation, RouletteAbi, Player, Bet, SpinResult, Winner, GameState, get_color, Message, InstantiationArgument};
+use linera_roulette::{Operation, RouletteAbi, Player, Bet, SpinResult, Winner, GameState, get_color, Message, InstantiationArgument, RoomLease, MAX_LEASE_TTL_MS, BetSelection, validate_bet_batch, is_valid_initial_balance, MIN_INITIAL_BALANCE, MAX_INITIAL_BALANCE};
 use linera_sdk::{
     linera_base_types::{WithContractAbi, ChainId},
     views::{RootView, View},
@@ -77,6 +77,16 @@ impl Contract for RouletteContract {
                                 .with_tracking()
                                 .send_to(host_chain);
                         }
+                        Operation::PlaceBets { bets, .. } => {
+                            let player_name = self.state.my_player.get()
+                                .as_ref()
+                                .map(|p| p.name.clone())
+                                .unwrap_or_default();
+                            self.runtime
+                                .prepare_message(Message::PlaceBetsRequest { bets, player_name })
+                                .with_tracking()
+                                .send_to(host_chain);
+                        }
                         Operation::SpinWheel => {
                             self.runtime
                                 .prepare_message(Message::SpinWheelRequest { player_chain_id: chain_id })
@@ -92,6 +102,7 @@ impl Contract for RouletteContract {
 
         match operation {
             Operation::RegisterPlayer { player_id, name, initial_balance } => {
+                if !is_valid_initial_balance(initial_balance) { return; }
                 if let Ok(Some(_)) = self.state.players.get(&player_id).await {
                     return;
                 }
@@ -107,9 +118,12 @@ impl Contract for RouletteContract {
                     Ok(Some(p)) => p,
                     _ => return,
                 };
+                if !bet_type.is_valid_selection(&numbers) { return; }
                 if player.balance < amount { return; }
                 let mut game = self.state.game.get().clone();
                 if game.is_spinning { return; }
+                let selection = BetSelection { bet_type, numbers: numbers.clone(), amount };
+                if self.state.limits.get().check(&game.bets_of(&player_id), &[selection]).is_err() { return; }
 
                 player.balance -= amount;
                 let _ = self.state.players.insert(&player_id, player.clone());
@@ -121,17 +135,24 @@ impl Contract for RouletteContract {
                     numbers,
                     amount,
                 };
-                game.current_bets.push(bet.clone());
+                let now_ms = self.runtime.system_time().micros() / 1000;
+                game.open_auto_window(self.state.round_settings.get(), now_ms);
+                game.add_bets(&[bet.clone()], now_ms);
                 self.state.game.set(game);
 
                 let timestamp = self.runtime.system_time().micros().to_string();
                 self.runtime.emit("roulette_events".into(), &linera_roulette::RouletteEvent::BetPlaced { bet, timestamp });
             }
 
+            Operation::PlaceBets { player_id, bets } => {
+                let rejection = self.place_bets_internal(&player_id, None, bets).await.err();
+                self.record_layout_outcome(&player_id, rejection);
+            }
+
             Operation::StartRound => {
                 let now_ms = self.runtime.system_time().micros() / 1000;
                 let mut game = self.state.game.get().clone();
-                game.betting_end_time = Some(now_ms + 30_000);
+                game.betting_end_time = Some(now_ms + self.state.round_settings.get().betting_window_ms);
                 self.state.game.set(game);
             }
 
@@ -149,6 +170,64 @@ impl Contract for RouletteContract {
                 let timestamp = self.runtime.system_time().micros().to_string();
                 self.settle_bets_internal(result, timestamp).await;
             }
+
+            Operation::ClaimRoom { owner, ttl_ms } => {
+                // A zero TTL would be a lease that's expired as soon as it's set
+                if ttl_ms == 0 { return; }
+                let now_ms = self.runtime.system_time().micros() / 1000;
+                let signer = self.runtime.authenticated_signer();
+                if !RoomLease::can_claim(self.state.lease.get().as_ref(), &owner, signer.as_ref(), now_ms) { return; }
+                let expires_at = now_ms + ttl_ms.min(MAX_LEASE_TTL_MS);
+                self.state.lease.set(Some(RoomLease { owner, expires_at, signer }));
+            }
+
+            Operation::ReleaseRoom { owner } => {
+                let signer = self.runtime.authenticated_signer();
+                let held = self.state.lease.get().as_ref().map_or(false, |lease| lease.is_held_by(&owner, signer.as_ref()));
+                if held { self.state.lease.set(None); }
+            }
+
+            Operation::SetTableLimits { owner, limits } => {
+                if !self.may_set_limits(&owner) || !limits.is_valid() { return; }
+                self.state.limits.set(limits);
+            }
+
+            Operation::SetRoundSettings { owner, settings } => {
+                if !self.may_set_limits(&owner) || !settings.is_valid() { return; }
+                self.state.round_settings.set(settings);
+            }
+
+            // Anyone can call it, but only once the deadline has passed with nobody spinning
+            Operation::RefundRound => {
+                let now_ms = self.runtime.system_time().micros() / 1000;
+                let mut game = self.state.game.get().clone();
+                if !game.refund_due(now_ms) { return; }
+
+                for (player_chain_id, stake) in game.stakes() {
+                    if let Ok(Some(mut player)) = self.state.players.get(&player_chain_id).await {
+                        player.balance += stake;
+                        let new_balance = player.balance;
+                        let _ = self.state.players.insert(&player_chain_id, player);
+                        if let Ok(player_chain) = ChainId::from_str(&player_chain_id) {
+                            self.runtime
+                                .prepare_message(Message::BalanceUpdate {
+                                    new_balance,
+                                    reason: "Round refunded - the wheel was never spun".to_string(),
+                                })
+                                .with_tracking()
+                                .send_to(player_chain);
+                        }
+                    }
+                }
+
+                game.current_bets.clear();
+                game.betting_end_time = None;
+                game.first_bet_at = None;
+                self.state.game.set(game);
+
+                let timestamp = self.runtime.system_time().micros().to_string();
+                self.runtime.emit("roulette_events".into(), &linera_roulette::RouletteEvent::RoundRefunded { timestamp });
+            }
         }
     }
 
@@ -169,6 +248,20 @@ impl Contract for RouletteContract {
                         .send_to(sender_chain);
                     return;
                 }
+                if !is_valid_initial_balance(initial_balance) {
+                    self.runtime
+                        .prepare_message(Message::PlayerRegisteredConfirm {
+                            player: Player { chain_id, name, balance: 0 },
+                            success: false,
+                            error_message: Some(format!(
+                                "Initial balance must be between {} and {}",
+                                MIN_INITIAL_BALANCE, MAX_INITIAL_BALANCE
+                            )),
+                        })
+                        .with_tracking()
+                        .send_to(sender_chain);
+                    return;
+                }
 
                 let player = Player { chain_id: chain_id.clone(), name, balance: initial_balance };
                 let _ = self.state.players.insert(&chain_id, player.clone());
@@ -204,6 +297,19 @@ impl Contract for RouletteContract {
                     }
                 };
 
+                if !bet_type.is_valid_selection(&numbers) {
+                    self.runtime
+                        .prepare_message(Message::BetPlacedConfirm {
+                            bet: Bet { player_chain_id: chain_id, player_name, bet_type, numbers, amount },
+                            success: false,
+                            new_balance: player.balance,
+                            error_message: Some("Invalid bet selection".to_string()),
+                        })
+                        .with_tracking()
+                        .send_to(sender_chain);
+                    return;
+                }
+
                 if player.balance < amount {
                     self.runtime
                         .prepare_message(Message::BetPlacedConfirm {
@@ -231,12 +337,28 @@ impl Contract for RouletteContract {
                     return;
                 }
 
+                let selection = BetSelection { bet_type, numbers: numbers.clone(), amount };
+                if let Err(error) = self.state.limits.get().check(&game.bets_of(&chain_id), &[selection]) {
+                    self.runtime
+                        .prepare_message(Message::BetPlacedConfirm {
+                            bet: Bet { player_chain_id: chain_id, player_name, bet_type, numbers, amount },
+                            success: false,
+                            new_balance: player.balance,
+                            error_message: Some(error),
+                        })
+                        .with_tracking()
+                        .send_to(sender_chain);
+                    return;
+                }
+
                 player.balance -= amount;
                 let new_balance = player.balance;
                 let _ = self.state.players.insert(&chain_id, player);
 
                 let bet = Bet { player_chain_id: chain_id.clone(), player_name, bet_type, numbers, amount };
-                game.current_bets.push(bet.clone());
+                let now_ms = self.runtime.system_time().micros() / 1000;
+                game.open_auto_window(self.state.round_settings.get(), now_ms);
+                game.add_bets(&[bet.clone()], now_ms);
                 self.state.game.set(game);
 
                 let timestamp = self.runtime.system_time().micros().to_string();
@@ -251,6 +373,26 @@ impl Contract for RouletteContract {
                     .send_to(sender_chain);
             }
 
+            Message::PlaceBetsRequest { bets, player_name } => {
+                let chain_id = sender_chain.to_string();
+                let confirm = match self.place_bets_internal(&chain_id, Some(player_name), bets).await {
+                    Ok((bets, new_balance)) => {
+                        self.record_layout_outcome(&chain_id, None);
+                        Message::BetsPlacedConfirm { bets, success: true, new_balance, error_message: None }
+                    }
+                    Err(error) => {
+                        self.record_layout_outcome(&chain_id, Some(error.clone()));
+                        Message::BetsPlacedConfirm {
+                            bets: Vec::new(),
+                            success: false,
+                            new_balance: 0,
+                            error_message: Some(error),
+                        }
+                    }
+                };
+                self.runtime.prepare_message(confirm).with_tracking().send_to(sender_chain);
+            }
+
             Message::PlayerRegisteredConfirm { player, success, .. } => {
                 if success {
                     let chain_id = player.chain_id.clone();
@@ -268,6 +410,19 @@ impl Contract for RouletteContract {
                 }
             }
 
+            Message::BetsPlacedConfirm { success, new_balance, error_message, .. } => {
+                let chain_id = self.runtime.chain_id().to_string();
+                if success {
+                    if let Ok(Some(mut player)) = self.state.players.get(&chain_id).await {
+                        player.balance = new_balance;
+                        let _ = self.state.players.insert(&chain_id, player);
+                    }
+                    self.record_layout_outcome(&chain_id, None);
+                } else {
+                    self.record_layout_outcome(&chain_id, error_message.or_else(|| Some("Bets rejected".to_string())));
+                }
+            }
+
             Message::SpinResultBroadcast { result, new_balance, .. } => {
                 let mut game = self.state.game.get().clone();
                 game.last_result = Some(result);
@@ -326,6 +481,72 @@ impl RouletteContract {
         (u64::from_le_bytes(bytes) % 37) as u8
     }
 
+    // Keeps why a player's last layout was turned down (shown by the table), until one goes through
+    fn record_layout_outcome(&mut self, player: &str, rejection: Option<String>) {
+        let player = player.to_string();
+        match rejection {
+            Some(reason) => { let _ = self.state.layout_rejections.insert(&player, reason); }
+            None => { let _ = self.state.layout_rejections.remove(&player); }
+        }
+    }
+
+    // Limits and round settings belong to whoever holds a live lease on the room, and can't
+    // change under bets already on the table
+    fn may_set_limits(&mut self, owner: &str) -> bool {
+        let now_ms = self.runtime.system_time().micros() / 1000;
+        let signer = self.runtime.authenticated_signer();
+        let holds_room = self.state.lease.get()
+            .as_ref()
+            .map_or(false, |lease| lease.is_held_by(owner, signer.as_ref()) && !lease.is_expired(now_ms));
+        holds_room && self.state.game.get().current_bets.is_empty()
+    }
+
+    // Places a whole layout for a registered player or nothing. Returns the bets and the new balance.
+    async fn place_bets_internal(
+        &mut self,
+        chain_id: &str,
+        player_name: Option<String>,
+        selections: Vec<BetSelection>,
+    ) -> Result<(Vec<Bet>, u64), String> {
+        let mut player = match self.state.players.get(chain_id).await {
+            Ok(Some(p)) => p,
+            _ => return Err("Not registered".to_string()),
+        };
+        let total = validate_bet_batch(&selections, player.balance)?;
+        let mut game = self.state.game.get().clone();
+        if game.is_spinning { return Err("Wheel spinning".to_string()); }
+        self.state.limits.get().check(&game.bets_of(chain_id), &selections)?;
+
+        player.balance -= total;
+        let new_balance = player.balance;
+        let player_name = player_name.unwrap_or_else(|| player.name.clone());
+        let _ = self.state.players.insert(chain_id, player);
+
+        let bets: Vec<Bet> = selections
+            .into_iter()
+            .map(|s| Bet {
+                player_chain_id: chain_id.to_string(),
+                player_name: player_name.clone(),
+                bet_type: s.bet_type,
+                numbers: s.numbers,
+                amount: s.amount,
+            })
+            .collect();
+        let now_ms = self.runtime.system_time().micros() / 1000;
+        game.open_auto_window(self.state.round_settings.get(), now_ms);
+        game.add_bets(&bets, now_ms);
+        self.state.game.set(game);
+
+        let timestamp = self.runtime.system_time().micros().to_string();
+        for bet in &bets {
+            self.runtime.emit("roulette_events".into(), &linera_roulette::RouletteEvent::BetPlaced {
+                bet: bet.clone(),
+                timestamp: timestamp.clone(),
+            });
+        }
+        Ok((bets, new_balance))
+    }
+
     async fn settle_bets_internal(&mut self, result: u8, timestamp: String) {
         let mut game = self.state.game.get().clone();
         let color = get_color(result);
@@ -370,6 +591,7 @@ impl RouletteContract {
         game.last_result = Some(spin_result.clone());
         game.is_spinning = false;
         game.betting_end_time = None;
+        game.first_bet_at = None;
         self.state.game.set(game);
 
         for bet in &bets_to_broadcast {
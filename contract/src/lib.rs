@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: Apache-2.0
 
 use async_graphql::{Request, Response};
-use linera_sdk::linera_base_types::{ContractAbi, ServiceAbi};
+use linera_sdk::linera_base_types::{AccountOwner, ContractAbi, ServiceAbi};
 use serde::{Deserialize, Serialize};
 
 pub struct RouletteAbi;
@@ -24,6 +24,14 @@ pub struct Player {
     pub balance: u64,
 }
 
+// Starting balances the host accepts when a player registers
+pub const MIN_INITIAL_BALANCE: u64 = 100;
+pub const MAX_INITIAL_BALANCE: u64 = 10_000;
+
+pub fn is_valid_initial_balance(balance: u64) -> bool {
+    (MIN_INITIAL_BALANCE..=MAX_INITIAL_BALANCE).contains(&balance)
+}
+
 #[derive(Debug, Clone, Copy, Serialize, Deserialize, async_graphql::Enum, PartialEq, Eq)]
 pub enum BetType {
     Straight,
@@ -39,6 +47,12 @@ pub enum BetType {
     FirstColumn,
     SecondColumn,
     ThirdColumn,
+    Split,
+    Street,
+    Corner,
+    SixLine,
+    Trio,
+    Basket,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize, async_graphql::SimpleObject)]
@@ -51,6 +65,125 @@ pub struct Bet {
     pub amount: u64,
 }
 
+// One entry of a PlaceBets layout; the player comes from the operation or message
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize)]
+pub struct BetSelection {
+    pub bet_type: BetType,
+    pub numbers: Vec<u8>,
+    pub amount: u64,
+}
+
+// Keeps a single PlaceBets message a sensible size
+pub const MAX_BETS_PER_BATCH: usize = 100;
+
+// A layout is placed whole or not at all: every bet must be valid and the total affordable.
+// Returns the total stake.
+pub fn validate_bet_batch(bets: &[BetSelection], balance: u64) -> Result<u64, &'static str> {
+    if bets.is_empty() { return Err("No bets"); }
+    if bets.len() > MAX_BETS_PER_BATCH { return Err("Too many bets"); }
+    let mut total: u64 = 0;
+    for bet in bets {
+        if bet.amount == 0 { return Err("Invalid bet amount"); }
+        if !bet.bet_type.is_valid_selection(&bet.numbers) { return Err("Invalid bet selection"); }
+        total = total.checked_add(bet.amount).ok_or("Insufficient balance")?;
+    }
+    if total > balance { return Err("Insufficient balance"); }
+    Ok(total)
+}
+
+impl From<&Bet> for BetSelection {
+    fn from(bet: &Bet) -> Self {
+        BetSelection { bet_type: bet.bet_type, numbers: bet.numbers.clone(), amount: bet.amount }
+    }
+}
+
+// Stake range for one bet type, overriding the table-wide min_bet/max_bet
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, async_graphql::SimpleObject)]
+#[graphql(rename_fields = "camelCase")]
+pub struct BetLimit {
+    pub bet_type: BetType,
+    pub min: u64,
+    pub max: u64,
+}
+
+// Most chip denominations a room's rack can hold
+pub const MAX_CHIP_VALUES: usize = 8;
+
+// Per-room table limits, set by the host. Stakes on the same selection add up, so several
+// chips on one number count as one straight-up bet. The room's chip rack goes with them:
+// ascending denominations, none above the table maximum.
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, async_graphql::SimpleObject)]
+#[graphql(rename_fields = "camelCase")]
+pub struct TableLimits {
+    pub min_bet: u64,
+    pub max_bet: u64,
+    pub max_straight: u64,
+    pub max_round_stake: u64,
+    pub bet_limits: Vec<BetLimit>,
+    pub chip_values: Vec<u64>,
+}
+
+impl Default for TableLimits {
+    fn default() -> Self {
+        TableLimits {
+            min_bet: 1,
+            max_bet: 1000,
+            max_straight: 100,
+            max_round_stake: 2500,
+            bet_limits: Vec::new(),
+            chip_values: vec![1, 5, 10, 25, 50, 100],
+        }
+    }
+}
+
+impl TableLimits {
+    pub fn is_valid(&self) -> bool {
+        self.min_bet >= 1
+            && self.min_bet <= self.max_bet
+            && self.max_straight >= self.min_bet
+            && self.max_round_stake >= self.min_bet
+            && self.bet_limits.iter().all(|limit| limit.min >= 1 && limit.min <= limit.max)
+            && !self.chip_values.is_empty()
+            && self.chip_values.len() <= MAX_CHIP_VALUES
+            && self.chip_values.windows(2).all(|pair| pair[0] < pair[1])
+            && self.chip_values.iter().all(|&value| value >= 1 && value <= self.max_bet)
+    }
+
+    // (min, max) stake for one selection of this type
+    pub fn bet_range(&self, bet_type: BetType) -> (u64, u64) {
+        let (min, max) = self.bet_limits
+            .iter()
+            .find(|limit| limit.bet_type == bet_type)
+            .map_or((self.min_bet, self.max_bet), |limit| (limit.min, limit.max));
+        if bet_type == BetType::Straight { (min, max.min(self.max_straight)) } else { (min, max) }
+    }
+
+    // Checks a player's new bets together with what they already have on the table this round
+    pub fn check(&self, placed: &[BetSelection], new_bets: &[BetSelection]) -> Result<(), String> {
+        let mut stakes: Vec<(BetType, Vec<u8>, u64)> = Vec::new();
+        for bet in placed.iter().chain(new_bets) {
+            let mut numbers = bet.numbers.clone();
+            numbers.sort_unstable();
+            match stakes.iter_mut().find(|(bet_type, n, _)| *bet_type == bet.bet_type && *n == numbers) {
+                Some(stake) => stake.2 = stake.2.saturating_add(bet.amount),
+                None => stakes.push((bet.bet_type, numbers, bet.amount)),
+            }
+        }
+
+        for (bet_type, _, amount) in &stakes {
+            let (min, max) = self.bet_range(*bet_type);
+            if *amount < min { return Err(format!("{:?} bet below the table minimum of {}", bet_type, min)); }
+            if *amount > max { return Err(format!("{:?} bet above the table maximum of {}", bet_type, max)); }
+        }
+
+        let total = stakes.iter().fold(0u64, |sum, (_, _, amount)| sum.saturating_add(*amount));
+        if total > self.max_round_stake {
+            return Err(format!("Round stake above the table limit of {}", self.max_round_stake));
+        }
+        Ok(())
+    }
+}
+
 #[derive(Debug, Clone, Serialize, Deserialize, async_graphql::SimpleObject)]
 #[graphql(rename_fields = "camelCase")]
 pub struct SpinResult {
@@ -83,12 +216,128 @@ pub struct GameState {
     pub history: Vec<u8>,
     #[serde(default)]
     pub betting_end_time: Option<u64>,
+    // When the first bet of the round went down (ms) - starts the refund clock for bets placed
+    // without a betting window
+    #[serde(default)]
+    pub first_bet_at: Option<u64>,
 }
 
 impl GameState {
     pub fn new() -> Self {
         Self::default()
     }
+
+    pub fn add_bets(&mut self, bets: &[Bet], now_ms: u64) {
+        if self.current_bets.is_empty() { self.first_bet_at = Some(now_ms); }
+        self.current_bets.extend(bets.iter().cloned());
+    }
+
+    // Auto-deal: the first bet of a round opens the betting window itself, so a room deals only
+    // when someone plays. The window never opens before the pause after the last result is over.
+    // Call before adding the bet.
+    pub fn open_auto_window(&mut self, settings: &RoundSettings, now_ms: u64) {
+        if !settings.auto_deal || self.is_spinning || !self.current_bets.is_empty() { return; }
+        if self.betting_end_time.map_or(false, |end| end > now_ms) { return; }
+        let last_result_ms = self.last_result.as_ref()
+            .and_then(|result| result.timestamp.parse::<u64>().ok())
+            .map_or(0, |micros| micros / 1000);
+        let opens_at = now_ms.max(last_result_ms.saturating_add(settings.round_pause_ms));
+        self.betting_end_time = Some(opens_at.saturating_add(settings.betting_window_ms));
+    }
+
+    // When bets nobody spun can be refunded: REFUND_AFTER_MS after betting closed, or after the
+    // first bet if no window was opened. None while nothing is on the table.
+    pub fn refund_deadline(&self) -> Option<u64> {
+        if self.current_bets.is_empty() { return None; }
+        self.betting_end_time.or(self.first_bet_at).map(|time| time.saturating_add(REFUND_AFTER_MS))
+    }
+
+    pub fn refund_due(&self, now_ms: u64) -> bool {
+        !self.is_spinning && self.refund_deadline().map_or(false, |deadline| now_ms >= deadline)
+    }
+
+    // Each player's total on the table, in the order they first bet
+    pub fn stakes(&self) -> Vec<(String, u64)> {
+        let mut stakes: Vec<(String, u64)> = Vec::new();
+        for bet in &self.current_bets {
+            match stakes.iter_mut().find(|(chain_id, _)| *chain_id == bet.player_chain_id) {
+                Some(stake) => stake.1 = stake.1.saturating_add(bet.amount),
+                None => stakes.push((bet.player_chain_id.clone(), bet.amount)),
+            }
+        }
+        stakes
+    }
+
+    // What one player already has on the table this round
+    pub fn bets_of(&self, chain_id: &str) -> Vec<BetSelection> {
+        self.current_bets.iter().filter(|bet| bet.player_chain_id == chain_id).map(BetSelection::from).collect()
+    }
+}
+
+// Who is hosting this room chain, and until when. Hosts renew it while they play.
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, async_graphql::SimpleObject)]
+#[graphql(rename_fields = "camelCase")]
+pub struct RoomLease {
+    pub owner: String,
+    pub expires_at: u64,
+    // Who signed the claim. Anyone can read `owner` from the lease query, so where the claim was
+    // signed, the lease only answers to that signer.
+    #[graphql(skip)]
+    pub signer: Option<AccountOwner>,
+}
+
+// Upper bound on a single claim, so a crashed host can't hold a room for long
+pub const MAX_LEASE_TTL_MS: u64 = 5 * 60_000;
+
+impl RoomLease {
+    pub fn is_expired(&self, now_ms: u64) -> bool {
+        now_ms >= self.expires_at
+    }
+
+    // The owner, signing as they did when they claimed. A claim without a signer leaves the owner
+    // name as the only check (the lease is then advisory - see ARCHITECTURE.md).
+    pub fn is_held_by(&self, owner: &str, signer: Option<&AccountOwner>) -> bool {
+        self.owner == owner && (self.signer.is_none() || self.signer.as_ref() == signer)
+    }
+
+    // Free rooms and expired leases can be claimed by anyone; a live lease only by its holder (renewal)
+    pub fn can_claim(current: Option<&RoomLease>, owner: &str, signer: Option<&AccountOwner>, now_ms: u64) -> bool {
+        match current {
+            None => true,
+            Some(lease) => lease.is_held_by(owner, signer) || lease.is_expired(now_ms),
+        }
+    }
+}
+
+// How long bets nobody spun wait before anyone can have them refunded (see GameState::refund_due)
+pub const REFUND_AFTER_MS: u64 = 120_000;
+
+// Bounds on a room's betting window and on the rest between rounds (ms)
+pub const MIN_BETTING_WINDOW_MS: u64 = 5_000;
+pub const MAX_BETTING_WINDOW_MS: u64 = 120_000;
+pub const MAX_ROUND_PAUSE_MS: u64 = 60_000;
+
+// How a room paces its rounds, set by the host: how long StartRound keeps betting open, how long
+// the table rests once a result is shown, and whether a round's first bet opens its window (auto-deal).
+#[derive(Debug, Clone, PartialEq, Eq, Serialize, Deserialize, async_graphql::SimpleObject)]
+#[graphql(rename_fields = "camelCase")]
+pub struct RoundSettings {
+    pub betting_window_ms: u64,
+    pub round_pause_ms: u64,
+    pub auto_deal: bool,
+}
+
+impl Default for RoundSettings {
+    fn default() -> Self {
+        RoundSettings { betting_window_ms: 30_000, round_pause_ms: 5_000, auto_deal: false }
+    }
+}
+
+impl RoundSettings {
+    pub fn is_valid(&self) -> bool {
+        (MIN_BETTING_WINDOW_MS..=MAX_BETTING_WINDOW_MS).contains(&self.betting_window_ms)
+            && self.round_pause_ms <= MAX_ROUND_PAUSE_MS
+    }
 }
 
 #[derive(Debug, Clone, Default, Serialize, Deserialize)]
@@ -100,9 +349,15 @@ pub struct InstantiationArgument {
 pub enum Operation {
     RegisterPlayer { player_id: String, name: String, initial_balance: u64 },
     PlaceBet { player_id: String, bet_type: BetType, numbers: Vec<u8>, amount: u64 },
+    PlaceBets { player_id: String, bets: Vec<BetSelection> },
     StartRound,
     SpinWheel,
     SettleBets { result: u8 },
+    ClaimRoom { owner: String, ttl_ms: u64 },
+    ReleaseRoom { owner: String },
+    SetTableLimits { owner: String, limits: TableLimits },
+    SetRoundSettings { owner: String, settings: RoundSettings },
+    RefundRound,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -111,6 +366,7 @@ pub enum RouletteEvent {
     BetPlaced { bet: Bet, timestamp: String },
     WheelSpun { result: SpinResult, timestamp: String },
     BetsSettled { timestamp: String },
+    RoundRefunded { timestamp: String },
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -119,6 +375,8 @@ pub enum Message {
     PlayerRegisteredConfirm { player: Player, success: bool, error_message: Option<String> },
     PlaceBetRequest { bet_type: BetType, numbers: Vec<u8>, amount: u64, player_name: String },
     BetPlacedConfirm { bet: Bet, success: bool, new_balance: u64, error_message: Option<String> },
+    PlaceBetsRequest { bets: Vec<BetSelection>, player_name: String },
+    BetsPlacedConfirm { bets: Vec<Bet>, success: bool, new_balance: u64, error_message: Option<String> },
     SpinResultBroadcast { result: SpinResult, player_payout: u64, new_balance: u64, won: bool },
     BalanceUpdate { new_balance: u64, reason: String },
     SpinWheelRequest { player_chain_id: String },
@@ -133,12 +391,22 @@ impl BetType {
             BetType::Low | BetType::High => 1,
             BetType::FirstDozen | BetType::SecondDozen | BetType::ThirdDozen => 2,
             BetType::FirstColumn | BetType::SecondColumn | BetType::ThirdColumn => 2,
+            BetType::Split => 17,
+            BetType::Street | BetType::Trio => 11,
+            BetType::Corner | BetType::Basket => 8,
+            BetType::SixLine => 5,
         }
     }
 
     pub fn is_winner(&self, number: u8, bet_numbers: &[u8]) -> bool {
         match self {
-            BetType::Straight => bet_numbers.contains(&number),
+            BetType::Straight
+            | BetType::Split
+            | BetType::Street
+            | BetType::Corner
+            | BetType::SixLine
+            | BetType::Trio
+            | BetType::Basket => bet_numbers.contains(&number),
             BetType::Red => is_red(number),
             BetType::Black => is_black(number),
             BetType::Even => number != 0 && number % 2 == 0,
@@ -153,6 +421,40 @@ impl BetType {
             BetType::ThirdColumn => number != 0 && number % 3 == 0,
         }
     }
+
+    // Inside bets must cover a real group of neighbouring cells on the layout; outside bets ignore numbers
+    pub fn is_valid_selection(&self, numbers: &[u8]) -> bool {
+        let mut sorted = numbers.to_vec();
+        sorted.sort_unstable();
+        sorted.dedup();
+        if sorted.len() != numbers.len() { return false; }
+
+        match self {
+            BetType::Straight => sorted.len() == 1 && sorted[0] <= 36,
+            BetType::Split => match sorted[..] {
+                [0, b] => (1..=3).contains(&b),
+                [a, b] => a >= 1 && b <= 36 && (b == a + 3 || (b == a + 1 && a % 3 != 0)),
+                _ => false,
+            },
+            BetType::Street => match sorted[..] {
+                [a, b, c] => a % 3 == 1 && b == a + 1 && c == a + 2 && c <= 36,
+                _ => false,
+            },
+            BetType::Corner => match sorted[..] {
+                [a, b, c, d] => a >= 1 && a % 3 != 0 && b == a + 1 && c == a + 3 && d == a + 4 && d <= 36,
+                _ => false,
+            },
+            BetType::SixLine => {
+                sorted.len() == 6
+                    && sorted[0] % 3 == 1
+                    && sorted[5] <= 36
+                    && sorted.iter().enumerate().all(|(i, &n)| n == sorted[0] + i as u8)
+            }
+            BetType::Trio => sorted[..] == [0, 1, 2] || sorted[..] == [0, 2, 3],
+            BetType::Basket => sorted[..] == [0, 1, 2, 3],
+            _ => true,
+        }
+    }
 }
 
 pub fn is_red(number: u8) -> bool {
@@ -530,7 +832,7 @@ mod tests {
         }
     }
 
-    // ==================== GAME STATE TESTS (2 tests) ====================
+    // ==================== GAME STATE TESTS (3 tests) ====================
 
     #[test]
     fn test_game_state_default() {
@@ -547,4 +849,375 @@ mod tests {
         let arg = InstantiationArgument::default();
         assert!(arg.host_chain_id.is_none());
     }
+
+    #[test]
+    fn test_initial_balance_bounds() {
+        assert!(is_valid_initial_balance(MIN_INITIAL_BALANCE));
+        assert!(is_valid_initial_balance(MAX_INITIAL_BALANCE));
+        assert!(!is_valid_initial_balance(MIN_INITIAL_BALANCE - 1));
+        assert!(!is_valid_initial_balance(MAX_INITIAL_BALANCE + 1));
+        assert!(!is_valid_initial_balance(0));
+    }
+
+    // ==================== INSIDE BET TESTS (10 tests) ====================
+
+    #[test]
+    fn test_inside_bet_payouts() {
+        assert_eq!(BetType::Split.payout_multiplier(), 17);
+        assert_eq!(BetType::Street.payout_multiplier(), 11);
+        assert_eq!(BetType::Corner.payout_multiplier(), 8);
+        assert_eq!(BetType::SixLine.payout_multiplier(), 5);
+        assert_eq!(BetType::Trio.payout_multiplier(), 11);
+        assert_eq!(BetType::Basket.payout_multiplier(), 8);
+    }
+
+    #[test]
+    fn test_inside_bets_win_on_covered_numbers() {
+        assert!(BetType::Split.is_winner(17, &[17, 20]));
+        assert!(BetType::Street.is_winner(14, &[13, 14, 15]));
+        assert!(BetType::Corner.is_winner(5, &[1, 2, 4, 5]));
+        assert!(BetType::SixLine.is_winner(36, &[31, 32, 33, 34, 35, 36]));
+        assert!(BetType::Trio.is_winner(0, &[0, 1, 2]));
+        assert!(BetType::Basket.is_winner(3, &[0, 1, 2, 3]));
+        assert!(!BetType::Split.is_winner(18, &[17, 20]));
+        assert!(!BetType::Corner.is_winner(3, &[1, 2, 4, 5]));
+    }
+
+    #[test]
+    fn test_valid_splits() {
+        assert!(BetType::Split.is_valid_selection(&[17, 20]));
+        assert!(BetType::Split.is_valid_selection(&[20, 17]));
+        assert!(BetType::Split.is_valid_selection(&[1, 2]));
+        assert!(BetType::Split.is_valid_selection(&[0, 3]));
+        assert!(BetType::Split.is_valid_selection(&[33, 36]));
+    }
+
+    #[test]
+    fn test_invalid_splits() {
+        assert!(!BetType::Split.is_valid_selection(&[3, 4]));
+        assert!(!BetType::Split.is_valid_selection(&[1, 5]));
+        assert!(!BetType::Split.is_valid_selection(&[0, 4]));
+        assert!(!BetType::Split.is_valid_selection(&[36, 39]));
+        assert!(!BetType::Split.is_valid_selection(&[17, 17]));
+        assert!(!BetType::Split.is_valid_selection(&[17]));
+    }
+
+    #[test]
+    fn test_streets() {
+        assert!(BetType::Street.is_valid_selection(&[1, 2, 3]));
+        assert!(BetType::Street.is_valid_selection(&[34, 35, 36]));
+        assert!(!BetType::Street.is_valid_selection(&[2, 3, 4]));
+        assert!(!BetType::Street.is_valid_selection(&[0, 1, 2]));
+    }
+
+    #[test]
+    fn test_corners() {
+        assert!(BetType::Corner.is_valid_selection(&[1, 2, 4, 5]));
+        assert!(BetType::Corner.is_valid_selection(&[32, 33, 35, 36]));
+        assert!(!BetType::Corner.is_valid_selection(&[3, 4, 6, 7]));
+        assert!(!BetType::Corner.is_valid_selection(&[0, 1, 3, 4]));
+    }
+
+    #[test]
+    fn test_six_lines() {
+        assert!(BetType::SixLine.is_valid_selection(&[1, 2, 3, 4, 5, 6]));
+        assert!(BetType::SixLine.is_valid_selection(&[31, 32, 33, 34, 35, 36]));
+        assert!(!BetType::SixLine.is_valid_selection(&[2, 3, 4, 5, 6, 7]));
+        assert!(!BetType::SixLine.is_valid_selection(&[34, 35, 36, 37, 38, 39]));
+    }
+
+    #[test]
+    fn test_trios_and_basket() {
+        assert!(BetType::Trio.is_valid_selection(&[0, 1, 2]));
+        assert!(BetType::Trio.is_valid_selection(&[2, 3, 0]));
+        assert!(!BetType::Trio.is_valid_selection(&[0, 1, 3]));
+        assert!(BetType::Basket.is_valid_selection(&[0, 1, 2, 3]));
+        assert!(!BetType::Basket.is_valid_selection(&[0, 1, 2]));
+    }
+
+    #[test]
+    fn test_straight_selection() {
+        assert!(BetType::Straight.is_valid_selection(&[0]));
+        assert!(BetType::Straight.is_valid_selection(&[36]));
+        assert!(!BetType::Straight.is_valid_selection(&[37]));
+        assert!(!BetType::Straight.is_valid_selection(&[]));
+    }
+
+    #[test]
+    fn test_outside_bets_ignore_numbers() {
+        assert!(BetType::Red.is_valid_selection(&[]));
+        assert!(BetType::FirstDozen.is_valid_selection(&[]));
+    }
+
+    // ==================== BET BATCH TESTS (6 tests) ====================
+
+    fn selection(bet_type: BetType, numbers: &[u8], amount: u64) -> BetSelection {
+        BetSelection { bet_type, numbers: numbers.to_vec(), amount }
+    }
+
+    #[test]
+    fn test_batch_total() {
+        let bets = vec![
+            selection(BetType::Straight, &[17], 10),
+            selection(BetType::Split, &[17, 20], 20),
+            selection(BetType::Red, &[], 50),
+        ];
+        assert_eq!(validate_bet_batch(&bets, 100), Ok(80));
+    }
+
+    #[test]
+    fn test_batch_exact_balance() {
+        let bets = vec![selection(BetType::Red, &[], 60), selection(BetType::Black, &[], 40)];
+        assert_eq!(validate_bet_batch(&bets, 100), Ok(100));
+    }
+
+    #[test]
+    fn test_batch_over_balance_rejected_whole() {
+        let bets = vec![selection(BetType::Red, &[], 60), selection(BetType::Black, &[], 41)];
+        assert_eq!(validate_bet_batch(&bets, 100), Err("Insufficient balance"));
+    }
+
+    #[test]
+    fn test_batch_invalid_entry_rejected_whole() {
+        let bets = vec![selection(BetType::Red, &[], 10), selection(BetType::Split, &[3, 4], 10)];
+        assert_eq!(validate_bet_batch(&bets, 100), Err("Invalid bet selection"));
+    }
+
+    #[test]
+    fn test_batch_empty_and_zero_amount() {
+        assert_eq!(validate_bet_batch(&[], 100), Err("No bets"));
+        assert_eq!(validate_bet_batch(&[selection(BetType::Red, &[], 0)], 100), Err("Invalid bet amount"));
+    }
+
+    #[test]
+    fn test_batch_size_limit() {
+        let bets = vec![selection(BetType::Red, &[], 1); MAX_BETS_PER_BATCH + 1];
+        assert_eq!(validate_bet_batch(&bets, u64::MAX), Err("Too many bets"));
+    }
+
+    // ==================== TABLE LIMIT TESTS (8 tests) ====================
+
+    #[test]
+    fn test_default_limits_are_valid() {
+        assert!(TableLimits::default().is_valid());
+    }
+
+    #[test]
+    fn test_invalid_limits() {
+        let limits = TableLimits { min_bet: 50, max_bet: 10, ..TableLimits::default() };
+        assert!(!limits.is_valid());
+        let limits = TableLimits {
+            bet_limits: vec![BetLimit { bet_type: BetType::Red, min: 0, max: 10 }],
+            ..TableLimits::default()
+        };
+        assert!(!limits.is_valid());
+    }
+
+    #[test]
+    fn test_invalid_chip_values() {
+        let rack = |chip_values: Vec<u64>| TableLimits { chip_values, ..TableLimits::default() };
+        assert!(rack(vec![5]).is_valid());
+        assert!(!rack(vec![]).is_valid());
+        assert!(!rack(vec![0, 5]).is_valid());
+        assert!(!rack(vec![10, 5]).is_valid());
+        assert!(!rack(vec![5, 5]).is_valid());
+        assert!(!rack(vec![1, 5000]).is_valid());
+        assert!(!rack((1..=9).collect()).is_valid());
+    }
+
+    #[test]
+    fn test_straight_capped_by_max_straight() {
+        let limits = TableLimits::default();
+        assert_eq!(limits.bet_range(BetType::Straight), (1, 100));
+        assert_eq!(limits.bet_range(BetType::Red), (1, 1000));
+        assert!(limits.check(&[], &[selection(BetType::Straight, &[17], 100)]).is_ok());
+        assert!(limits.check(&[], &[selection(BetType::Straight, &[17], 101)]).is_err());
+    }
+
+    #[test]
+    fn test_stakes_on_same_selection_add_up() {
+        let limits = TableLimits::default();
+        let placed = vec![selection(BetType::Straight, &[17], 60)];
+        assert!(limits.check(&placed, &[selection(BetType::Straight, &[18], 60)]).is_ok());
+        assert!(limits.check(&placed, &[selection(BetType::Straight, &[17], 60)]).is_err());
+        assert!(limits.check(&[], &[selection(BetType::Split, &[17, 20], 600), selection(BetType::Split, &[20, 17], 600)]).is_err());
+    }
+
+    #[test]
+    fn test_bet_type_override() {
+        let limits = TableLimits {
+            bet_limits: vec![BetLimit { bet_type: BetType::Red, min: 10, max: 2000 }],
+            ..TableLimits::default()
+        };
+        assert_eq!(limits.bet_range(BetType::Red), (10, 2000));
+        assert_eq!(
+            limits.check(&[], &[selection(BetType::Red, &[], 5)]),
+            Err("Red bet below the table minimum of 10".to_string())
+        );
+        assert!(limits.check(&[], &[selection(BetType::Red, &[], 1500)]).is_ok());
+    }
+
+    #[test]
+    fn test_round_stake_limit() {
+        let limits = TableLimits::default();
+        let placed = vec![selection(BetType::Red, &[], 1000), selection(BetType::Black, &[], 1000)];
+        assert!(limits.check(&placed, &[selection(BetType::Even, &[], 500)]).is_ok());
+        assert_eq!(
+            limits.check(&placed, &[selection(BetType::Even, &[], 501)]),
+            Err("Round stake above the table limit of 2500".to_string())
+        );
+    }
+
+    #[test]
+    fn test_bet_to_selection() {
+        let bet = Bet {
+            player_chain_id: "chain".to_string(),
+            player_name: "P".to_string(),
+            bet_type: BetType::Split,
+            numbers: vec![17, 20],
+            amount: 25,
+        };
+        assert_eq!(BetSelection::from(&bet), selection(BetType::Split, &[17, 20], 25));
+    }
+
+    // ==================== REFUND TESTS (3 tests) ====================
+
+    fn bet_of(player: &str, amount: u64) -> Bet {
+        Bet {
+            player_chain_id: player.to_string(),
+            player_name: player.to_string(),
+            bet_type: BetType::Red,
+            numbers: vec![],
+            amount,
+        }
+    }
+
+    #[test]
+    fn test_first_bet_starts_refund_clock() {
+        let mut game = GameState::new();
+        assert_eq!(game.refund_deadline(), None);
+        game.add_bets(&[bet_of("a", 10)], 1_000);
+        game.add_bets(&[bet_of("b", 5)], 9_000);
+        assert_eq!(game.first_bet_at, Some(1_000));
+        assert_eq!(game.refund_deadline(), Some(1_000 + REFUND_AFTER_MS));
+        assert!(!game.refund_due(REFUND_AFTER_MS));
+        assert!(game.refund_due(1_000 + REFUND_AFTER_MS));
+    }
+
+    #[test]
+    fn test_refund_clock_runs_from_betting_close() {
+        let mut game = GameState::new();
+        game.add_bets(&[bet_of("a", 10)], 1_000);
+        game.betting_end_time = Some(30_000);
+        assert_eq!(game.refund_deadline(), Some(30_000 + REFUND_AFTER_MS));
+        game.is_spinning = true;
+        assert!(!game.refund_due(u64::MAX));
+    }
+
+    #[test]
+    fn test_stakes_per_player() {
+        let mut game = GameState::new();
+        game.add_bets(&[bet_of("a", 10), bet_of("b", 5), bet_of("a", 15)], 0);
+        assert_eq!(game.stakes(), vec![("a".to_string(), 25), ("b".to_string(), 5)]);
+    }
+
+    // ==================== ROUND SETTINGS TESTS (3 tests) ====================
+
+    #[test]
+    fn test_default_round_settings_are_valid() {
+        assert!(RoundSettings::default().is_valid());
+    }
+
+    #[test]
+    fn test_round_settings_bounds() {
+        let window = |betting_window_ms: u64| RoundSettings { betting_window_ms, ..RoundSettings::default() };
+        assert!(window(MIN_BETTING_WINDOW_MS).is_valid());
+        assert!(window(MAX_BETTING_WINDOW_MS).is_valid());
+        assert!(!window(MIN_BETTING_WINDOW_MS - 1).is_valid());
+        assert!(!window(MAX_BETTING_WINDOW_MS + 1).is_valid());
+        let pause = |round_pause_ms: u64| RoundSettings { round_pause_ms, ..RoundSettings::default() };
+        assert!(pause(0).is_valid());
+        assert!(!pause(MAX_ROUND_PAUSE_MS + 1).is_valid());
+    }
+
+    #[test]
+    fn test_first_bet_opens_auto_deal_window() {
+        let settings = RoundSettings { betting_window_ms: 20_000, round_pause_ms: 5_000, auto_deal: true };
+        let mut game = GameState::new();
+        game.last_result = Some(SpinResult {
+            number: 7,
+            color: "red".to_string(),
+            timestamp: (100_000u64 * 1000).to_string(),
+            winners: vec![],
+        });
+
+        game.open_auto_window(&RoundSettings { auto_deal: false, ..settings.clone() }, 200_000);
+        assert_eq!(game.betting_end_time, None);
+
+        // During the pause the window opens from the pause's end
+        game.open_auto_window(&settings, 102_000);
+        assert_eq!(game.betting_end_time, Some(105_000 + 20_000));
+
+        // Later bets join the open window
+        game.add_bets(&[bet_of("a", 10)], 102_000);
+        game.open_auto_window(&settings, 110_000);
+        assert_eq!(game.betting_end_time, Some(125_000));
+
+        // A window that closed with nothing on it is replaced
+        let mut idle = GameState { betting_end_time: Some(50_000), ..GameState::new() };
+        idle.open_auto_window(&settings, 60_000);
+        assert_eq!(idle.betting_end_time, Some(80_000));
+    }
+
+    // ==================== LEASE TESTS (6 tests) ====================
+
+    fn lease(owner: &str, expires_at: u64) -> RoomLease {
+        RoomLease { owner: owner.to_string(), expires_at, signer: None }
+    }
+
+    #[test]
+    fn test_free_room_can_be_claimed() {
+        assert!(RoomLease::can_claim(None, "alice", None, 1_000));
+    }
+
+    #[test]
+    fn test_live_lease_blocks_other_owners() {
+        let current = lease("alice", 60_000);
+        assert!(!RoomLease::can_claim(Some(&current), "bob", None, 1_000));
+        assert!(!RoomLease::can_claim(Some(&current), "bob", None, 59_999));
+    }
+
+    #[test]
+    fn test_owner_can_renew_live_lease() {
+        let current = lease("alice", 60_000);
+        assert!(RoomLease::can_claim(Some(&current), "alice", None, 30_000));
+    }
+
+    #[test]
+    fn test_expired_lease_can_be_taken_over() {
+        let current = lease("alice", 60_000);
+        assert!(RoomLease::can_claim(Some(&current), "bob", None, 60_000));
+        assert!(RoomLease::can_claim(Some(&current), "bob", None, 120_000));
+    }
+
+    #[test]
+    fn test_lease_expiry_boundary() {
+        let current = lease("alice", 60_000);
+        assert!(!current.is_expired(59_999));
+        assert!(current.is_expired(60_000));
+    }
+
+    #[test]
+    fn test_signed_lease_answers_only_to_its_signer() {
+        let host = || AccountOwner::Address20([1; 20]);
+        let other = || AccountOwner::Address20([2; 20]);
+        let current = RoomLease { signer: Some(host()), ..lease("alice", 60_000) };
+        assert!(current.is_held_by("alice", Some(&host())));
+        assert!(!current.is_held_by("alice", Some(&other())));
+        assert!(!current.is_held_by("alice", None));
+        assert!(!RoomLease::can_claim(Some(&current), "alice", Some(&other()), 30_000));
+        assert!(RoomLease::can_claim(Some(&current), "alice", Some(&other()), 60_000));
+        // Unsigned leases go by the owner name alone
+        assert!(lease("alice", 60_000).is_held_by("alice", Some(&other())));
+    }
 }
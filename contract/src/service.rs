@@ -4,10 +4,10 @@
 
 mod state;
 
-use std::sync::Arc;
-use async_graphql::{EmptySubscription, Object, Request, Response, Schema};
+use std::{collections::HashMap, sync::Arc};
+use async_graphql::{EmptySubscription, Error, InputObject, Object, Request, Response, Result, Schema};
 use linera_sdk::{linera_base_types::WithServiceAbi, views::View, Service, ServiceRuntime};
-use linera_roulette::{RouletteAbi, GameState, Player};
+use linera_roulette::{RouletteAbi, BetLimit, BetSelection, GameState, Player, RoomLease, RoundSettings, TableLimits};
 use self::state::RouletteState;
 
 linera_sdk::service!(RouletteService);
@@ -39,6 +39,10 @@ impl Service for RouletteService {
                 my_player: self.state.my_player.get().clone(),
                 is_host: *self.state.is_host.get(),
                 host_chain_id: self.state.host_chain_id.get().clone(),
+                lease: self.state.lease.get().clone(),
+                limits: self.state.limits.get().clone(),
+                round_settings: self.state.round_settings.get().clone(),
+                layout_rejections: self.get_layout_rejections().await,
             },
             MutationRoot { runtime: self.runtime.clone() },
             EmptySubscription,
@@ -57,6 +61,15 @@ impl RouletteService {
         }).await.unwrap();
         players
     }
+
+    async fn get_layout_rejections(&self) -> HashMap<String, String> {
+        let mut rejections = HashMap::new();
+        self.state.layout_rejections.for_each_index_value(|player, reason| {
+            rejections.insert(player, reason.into_owned());
+            Ok(())
+        }).await.unwrap();
+        rejections
+    }
 }
 
 struct QueryRoot {
@@ -65,6 +78,10 @@ struct QueryRoot {
     my_player: Option<Player>,
     is_host: bool,
     host_chain_id: Option<String>,
+    lease: Option<RoomLease>,
+    limits: TableLimits,
+    round_settings: RoundSettings,
+    layout_rejections: HashMap<String, String>,
 }
 
 #[Object]
@@ -85,6 +102,46 @@ impl QueryRoot {
     async fn my_player(&self) -> Option<&Player> { self.my_player.as_ref() }
     async fn am_i_host(&self) -> bool { self.is_host }
     async fn host_chain_id(&self) -> Option<&String> { self.host_chain_id.as_ref() }
+    async fn lease(&self) -> Option<&RoomLease> { self.lease.as_ref() }
+    async fn table_limits(&self) -> &TableLimits { &self.limits }
+    async fn round_settings(&self) -> &RoundSettings { &self.round_settings }
+    async fn layout_rejection(&self, player_id: String) -> Option<&String> { self.layout_rejections.get(&player_id) }
+}
+
+// A PlaceBets entry as sent by the frontend; ints like the other mutation args
+#[derive(InputObject)]
+#[graphql(rename_fields = "camelCase")]
+struct BetInput {
+    bet_type: linera_roulette::BetType,
+    numbers: Vec<i32>,
+    amount: i32,
+}
+
+#[derive(InputObject)]
+#[graphql(rename_fields = "camelCase")]
+struct BetLimitInput {
+    bet_type: linera_roulette::BetType,
+    min: i32,
+    max: i32,
+}
+
+#[derive(InputObject)]
+#[graphql(rename_fields = "camelCase")]
+struct TableLimitsInput {
+    min_bet: i32,
+    max_bet: i32,
+    max_straight: i32,
+    max_round_stake: i32,
+    bet_limits: Vec<BetLimitInput>,
+    chip_values: Vec<i32>,
+}
+
+#[derive(InputObject)]
+#[graphql(rename_fields = "camelCase")]
+struct RoundSettingsInput {
+    betting_window_ms: i32,
+    round_pause_ms: i32,
+    auto_deal: bool,
 }
 
 struct MutationRoot {
@@ -93,23 +150,39 @@ struct MutationRoot {
 
 #[Object]
 impl MutationRoot {
-    async fn register_player(&self, player_id: String, name: String, initial_balance: i32) -> String {
+    async fn register_player(&self, player_id: String, name: String, initial_balance: i32) -> Result<String> {
         self.runtime.schedule_operation(&linera_roulette::Operation::RegisterPlayer {
             player_id: player_id.clone(),
             name: name.clone(),
-            initial_balance: initial_balance as u64,
+            initial_balance: to_u64(initial_balance, "initialBalance")?,
         });
-        format!("Registered {} with balance {}", name, initial_balance)
+        Ok(format!("Registered {} with balance {}", name, initial_balance))
     }
 
-    async fn place_bet(&self, player_id: String, bet_type: linera_roulette::BetType, numbers: Vec<i32>, amount: i32) -> String {
+    async fn place_bet(&self, player_id: String, bet_type: linera_roulette::BetType, numbers: Vec<i32>, amount: i32) -> Result<String> {
         self.runtime.schedule_operation(&linera_roulette::Operation::PlaceBet {
             player_id,
             bet_type,
-            numbers: numbers.into_iter().map(|n| n as u8).collect(),
-            amount: amount as u64,
+            numbers: to_numbers(numbers)?,
+            amount: to_u64(amount, "amount")?,
         });
-        format!("Bet placed: {:?} amount {}", bet_type, amount)
+        Ok(format!("Bet placed: {:?} amount {}", bet_type, amount))
+    }
+
+    async fn place_bets(&self, player_id: String, bets: Vec<BetInput>) -> Result<String> {
+        let count = bets.len();
+        let bets = bets
+            .into_iter()
+            .map(|bet| -> Result<BetSelection> {
+                Ok(BetSelection {
+                    bet_type: bet.bet_type,
+                    numbers: to_numbers(bet.numbers)?,
+                    amount: to_u64(bet.amount, "amount")?,
+                })
+            })
+            .collect::<Result<Vec<_>>>()?;
+        self.runtime.schedule_operation(&linera_roulette::Operation::PlaceBets { player_id, bets });
+        Ok(format!("Bets placed: {}", count))
     }
 
     async fn start_round(&self) -> String {
@@ -121,4 +194,97 @@ impl MutationRoot {
         self.runtime.schedule_operation(&linera_roulette::Operation::SpinWheel);
         "Spinning".to_string()
     }
+
+    async fn refund_round(&self) -> String {
+        self.runtime.schedule_operation(&linera_roulette::Operation::RefundRound);
+        "Round refunded".to_string()
+    }
+
+    async fn claim_room(&self, owner: String, ttl_ms: i32) -> Result<String> {
+        self.runtime.schedule_operation(&linera_roulette::Operation::ClaimRoom {
+            owner,
+            ttl_ms: to_u64(ttl_ms, "ttlMs")?,
+        });
+        Ok("Room claimed".to_string())
+    }
+
+    async fn release_room(&self, owner: String) -> String {
+        self.runtime.schedule_operation(&linera_roulette::Operation::ReleaseRoom { owner });
+        "Room released".to_string()
+    }
+
+    async fn set_table_limits(&self, owner: String, limits: TableLimitsInput) -> Result<String> {
+        let limits = TableLimits {
+            min_bet: to_u64(limits.min_bet, "minBet")?,
+            max_bet: to_u64(limits.max_bet, "maxBet")?,
+            max_straight: to_u64(limits.max_straight, "maxStraight")?,
+            max_round_stake: to_u64(limits.max_round_stake, "maxRoundStake")?,
+            bet_limits: limits
+                .bet_limits
+                .into_iter()
+                .map(|limit| -> Result<BetLimit> {
+                    Ok(BetLimit { bet_type: limit.bet_type, min: to_u64(limit.min, "min")?, max: to_u64(limit.max, "max")? })
+                })
+                .collect::<Result<Vec<_>>>()?,
+            chip_values: limits
+                .chip_values
+                .into_iter()
+                .map(|value| to_u64(value, "chipValues"))
+                .collect::<Result<Vec<_>>>()?,
+        };
+        self.runtime.schedule_operation(&linera_roulette::Operation::SetTableLimits { owner, limits });
+        Ok("Table limits set".to_string())
+    }
+
+    async fn set_round_settings(&self, owner: String, settings: RoundSettingsInput) -> Result<String> {
+        let settings = RoundSettings {
+            betting_window_ms: to_u64(settings.betting_window_ms, "bettingWindowMs")?,
+            round_pause_ms: to_u64(settings.round_pause_ms, "roundPauseMs")?,
+            auto_deal: settings.auto_deal,
+        };
+        self.runtime.schedule_operation(&linera_roulette::Operation::SetRoundSettings { owner, settings });
+        Ok("Round settings set".to_string())
+    }
+}
+
+// GraphQL Int is signed: a value that doesn't fit is an error, never a wrapped amount
+fn to_u64(value: i32, field: &str) -> Result<u64> {
+    u64::try_from(value).map_err(|_| Error::new(format!("{} can't be negative", field)))
+}
+
+fn to_numbers(numbers: Vec<i32>) -> Result<Vec<u8>> {
+    numbers
+        .into_iter()
+        .map(|n| u8::try_from(n).map_err(|_| Error::new(format!("Number {} is not on the wheel", n))))
+        .collect()
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    // The frontend's documents and mock node are checked against contract/schema.graphql
+    // (frontend/src/graphql/schema.test.ts). This keeps the file in step with the service: when
+    // the API changes it is rewritten and the test fails until the new file is committed.
+    #[test]
+    fn schema_file_matches_service() {
+        let query = QueryRoot {
+            game: GameState::default(),
+            players: Vec::new(),
+            my_player: None,
+            is_host: false,
+            host_chain_id: None,
+            lease: None,
+            limits: TableLimits::default(),
+            round_settings: RoundSettings::default(),
+            layout_rejections: HashMap::new(),
+        };
+        let mutation = MutationRoot { runtime: Arc::new(ServiceRuntime::<RouletteService>::new()) };
+        let sdl = Schema::build(query, mutation, EmptySubscription).finish().sdl();
+
+        let path = concat!(env!("CARGO_MANIFEST_DIR"), "/schema.graphql");
+        if std::fs::read_to_string(path).ok().as_deref() == Some(sdl.as_str()) { return; }
+        std::fs::write(path, &sdl).expect("Failed to write schema.graphql");
+        panic!("schema.graphql was out of date and has been rewritten - commit it with the service change");
+    }
 }
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: Apache-2.0
 
 use linera_sdk::views::{linera_views, MapView, RegisterView, RootView, SetView, ViewStorageContext};
-use linera_roulette::{GameState, Player};
+use linera_roulette::{GameState, Player, RoomLease, RoundSettings, TableLimits};
 
 #[derive(RootView)]
 #[view(context = ViewStorageContext)]
@@ -12,4 +12,9 @@ pub struct RouletteState {
     pub host_chain_id: RegisterView<Option<String>>,
     pub my_player: RegisterView<Option<Player>>,
     pub player_chains: SetView<String>,
+    pub lease: RegisterView<Option<RoomLease>>,
+    pub limits: RegisterView<TableLimits>,
+    pub round_settings: RegisterView<RoundSettings>,
+    // Why each player's last layout was turned down, until their next one goes through
+    pub layout_rejections: MapView<String, String>,
 }
@@ -1,6 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import type { BetSelection } from './graphql/types';
+import type { SavedLayout } from './lib/savedLayouts';
+import { CHIP_ACTIONS } from './lib/keyBindings';
+import { customChipFits, loadCustomChip, saveCustomChip } from './lib/chips';
+import { MAX_INITIAL_BALANCE, MIN_INITIAL_BALANCE, isValidInitialBalance } from './lib/rules';
 import { useLinera } from './hooks/useLinera';
 import { useGame } from './hooks/useGame';
+import { useAutoplay } from './hooks/useAutoplay';
+import { useSavedLayouts } from './hooks/useSavedLayouts';
+import { useKeyBindings } from './hooks/useKeyBindings';
+import { useHotkeys } from './hooks/useHotkeys';
+import { dropTargetKey, useChipDrag } from './hooks/useChipDrag';
+import { useLobby } from './hooks/useLobby';
 import { useSounds } from './hooks/useSounds';
 import { WalletConnect } from './components/WalletConnect';
 import { PlayerInfo } from './components/PlayerInfo';
@@ -9,6 +20,15 @@ import { BettingTable } from './components/BettingTable';
 import { GameHistory } from './components/GameHistory';
 import { ResultPopup } from './components/ResultPopup';
 import { PokerChip } from './components/PokerChip';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TableLimitsEditor } from './components/TableLimitsEditor';
+import { RoundSettingsEditor } from './components/RoundSettingsEditor';
+import { AutoplayPanel } from './components/AutoplayPanel';
+import { SimulatorPanel } from './components/SimulatorPanel';
+import { LayoutTray } from './components/LayoutTray';
+import { ShortcutsOverlay } from './components/ShortcutsOverlay';
+import { DraggedChips } from './components/ChipStack';
+import { CustomChipEditor } from './components/CustomChipEditor';
 import ModeSelection from './components/ModeSelection';
 
 function App() {
@@ -31,8 +51,9 @@ function App() {
     isLoading,
     error,
     registerPlayer,
-    placeBet,
+    placeBets,
     spinWheel,
+    placeBetsAndSpin,
     isWheelSpinning,
     pendingResult,
     showResultPopup,
@@ -42,43 +63,115 @@ function App() {
     roundPhase,
     bettingTimeLeft,
     startRound,
+    tableLimits,
+    setTableLimits,
+    roundSettings,
+    setRoundSettings,
+    spunForHost,
+    refundDue,
+    refundRound,
   } = useGame();
+  const autoplay = useAutoplay({
+    balance: currentPlayer?.balance ?? 0,
+    isWheelSpinning,
+    showResultPopup,
+    pendingResult,
+    placeBetsAndSpin,
+    dismissResultPopup,
+  });
+  const savedLayouts = useSavedLayouts(playerId);
   const { startSpinSound, stopSpinSound, playBallLand, playWin, playLose } = useSounds();
+  const lobby = useLobby(isConnected && gameMode === 'selecting');
 
   const [showRegisterModal, setShowRegisterModal] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [tableLayout, setTableLayout] = useState<BetSelection[]>([]);
+  const [layoutPick, setLayoutPick] = useState<{ chips: SavedLayout['bets'] } | null>(null);
+  const [chipDrop, setChipDrop] = useState<{ key: string; amount: number } | null>(null);
   const [playerName, setPlayerName] = useState('');
   const [initialBalance, setInitialBalance] = useState(1000);
   const [selectedChip, setSelectedChip] = useState(10);
+  const [customChip, setCustomChip] = useState(loadCustomChip);
   const { playChipSelect } = useSounds();
 
-  const chipValues = [1, 5, 10, 25, 50, 100];
+  // The room's rack, plus the player's custom chip where it fits
+  const customChipPlays = customChipFits(customChip, tableLimits.chipValues, tableLimits.maxBet);
+  const chipValues = useMemo(
+    () => (customChipPlays ? [...tableLimits.chipValues, customChip!] : tableLimits.chipValues),
+    [tableLimits.chipValues, customChip, customChipPlays]
+  );
+
+  // A new room (or a cleared custom chip) can take the selected chip away: fall back to the
+  // smallest one that covers the table minimum
+  useEffect(() => {
+    if (!chipValues.includes(selectedChip)) {
+      setSelectedChip(chipValues.find(value => value >= tableLimits.minBet) ?? chipValues[chipValues.length - 1]);
+    }
+  }, [chipValues, selectedChip, tableLimits.minBet]);
+
+  const changeCustomChip = (value: number | null) => {
+    setCustomChip(value);
+    saveCustomChip(value);
+  };
+  const rackDrag = useChipDrag((drag, target) => {
+    const key = dropTargetKey(target);
+    if (key) setChipDrop({ key, amount: drag.amount });
+  });
 
   const handleChipSelect = (value: number) => {
     setSelectedChip(value);
     playChipSelect();
   };
 
+  const keyBindings = useKeyBindings();
+  // Shortcuts are off while a dialog is open
+  const activeBindings =
+    showShortcuts || showSettings || showSimulator || showRegisterModal ? null : keyBindings.bindings;
+
+  const spinOrStartRound = () => {
+    if (isLoading || isWheelSpinning) return;
+    if (gameMode === 'solo' && gameState.currentBets.length > 0 && autoplay.status !== 'running') spinWheel();
+    else if (gameMode === 'host' && (roundPhase === 'waiting' || roundPhase === 'resultShown')) startRound();
+  };
+
+  useHotkeys(activeBindings, {
+    ...Object.fromEntries(
+      CHIP_ACTIONS.map((action, i) => [
+        action,
+        () => {
+          if (currentPlayer && chipValues[i] <= currentPlayer.balance) handleChipSelect(chipValues[i]);
+        },
+      ])
+    ),
+    spin: spinOrStartRound,
+    help: () => setShowShortcuts(true),
+  });
+
   const handleRegister = async () => {
     if (!playerName.trim()) {
       alert('Please enter a player name');
       return;
     }
+    if (!isValidInitialBalance(initialBalance)) {
+      alert(`Initial balance must be between ${MIN_INITIAL_BALANCE} and ${MAX_INITIAL_BALANCE}`);
+      return;
+    }
 
     await registerPlayer(playerName, initialBalance);
     setShowRegisterModal(false);
     setPlayerName('');
   };
 
-  const handlePlaceBet = async (betType: string, numbers: number[], amount: number) => {
-    await placeBet(betType, numbers, amount);
-  };
-
-  // Start spin sound when wheel begins spinning
+  // Start spin sound when wheel begins spinning; a round called off before its result stops it
   useEffect(() => {
     if (isWheelSpinning) {
       startSpinSound();
+    } else {
+      stopSpinSound();
     }
-  }, [isWheelSpinning, startSpinSound]);
+  }, [isWheelSpinning, startSpinSound, stopSpinSound]);
 
   const handleWheelAnimationComplete = () => {
     stopSpinSound();
@@ -134,7 +227,30 @@ function App() {
           >
             LINERA ROULETTE
           </h1>
-          <WalletConnect />
+          <div className="flex items-center gap-3">
+            <WalletConnect />
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="bg-slate-700/80 hover:bg-slate-600 px-2.5 py-1.5 rounded-lg text-white text-sm transition-colors"
+              title="Keyboard shortcuts"
+            >
+              ⌨
+            </button>
+            <button
+              onClick={() => setShowSimulator(true)}
+              className="bg-slate-700/80 hover:bg-slate-600 px-2.5 py-1.5 rounded-lg text-white text-sm transition-colors"
+              title="Strategy simulator"
+            >
+              📈
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="bg-slate-700/80 hover:bg-slate-600 px-2.5 py-1.5 rounded-lg text-white text-sm transition-colors"
+              title="Network settings"
+            >
+              ⚙
+            </button>
+          </div>
         </div>
 
         {!isConnected ? (
@@ -146,6 +262,9 @@ function App() {
           <ModeSelection
             poolLoading={poolLoading}
             availableChains={chainPool.filter(c => !c.inUse).length}
+            lobbyRooms={lobby.rooms}
+            lobbyRefreshing={lobby.isRefreshing}
+            playerId={playerId}
             onSelectSolo={handleSelectSolo}
             onSelectHost={handleSelectHost}
             onSelectJoin={handleSelectJoin}
@@ -178,6 +297,16 @@ function App() {
                 <div className="mt-2 font-mono text-xs text-amber-300/70 truncate">
                   {hostedChainId}
                 </div>
+                <TableLimitsEditor
+                  limits={tableLimits}
+                  locked={gameState.currentBets.length > 0}
+                  onSave={setTableLimits}
+                />
+                <RoundSettingsEditor
+                  settings={roundSettings}
+                  locked={gameState.currentBets.length > 0}
+                  onSave={setRoundSettings}
+                />
               </div>
             )}
 
@@ -274,17 +403,35 @@ function App() {
                 <div className="flex gap-4">
                   {/* Vertical Chip Stack - Left Side */}
                   <div className="flex flex-col items-center shrink-0">
+                    <LayoutTray
+                      layouts={savedLayouts.layouts}
+                      selectedChip={selectedChip}
+                      tableLayout={tableLayout}
+                      disabled={isWheelSpinning}
+                      onApply={(layout) => setLayoutPick({ chips: layout.bets })}
+                      onSave={savedLayouts.save}
+                      onRemove={savedLayouts.remove}
+                      onImport={savedLayouts.importLayouts}
+                    />
                     <div className="flex flex-col gap-2">
                       {chipValues.map((value) => (
                         <PokerChip
                           key={value}
                           value={value}
+                          rack={tableLimits.chipValues}
                           isSelected={selectedChip === value}
                           disabled={value > currentPlayer.balance}
                           onClick={() => handleChipSelect(value)}
+                          onPointerDown={(e) => rackDrag.startDrag(e, value)}
                         />
                       ))}
                     </div>
+                    <CustomChipEditor
+                      value={customChip}
+                      fits={customChipPlays}
+                      maxBet={tableLimits.maxBet}
+                      onChange={changeCustomChip}
+                    />
                     {/* Selected chip display */}
                     <div className="mt-3 text-center">
                       <div
@@ -307,10 +454,17 @@ function App() {
                     {/* Betting Table */}
                     <div className="lg:col-span-8">
                       <BettingTable
-                        onPlaceBet={handlePlaceBet}
+                        onPlaceBets={placeBets}
                         isSpinning={isWheelSpinning}
                         playerBalance={currentPlayer.balance}
                         selectedChip={selectedChip}
+                        tableLimits={tableLimits}
+                        placedBets={gameState.currentBets.filter(bet => bet.playerChainId === playerId)}
+                        onRebetAndSpin={gameMode === 'solo' ? placeBetsAndSpin : undefined}
+                        onLayoutChange={setTableLayout}
+                        layoutPick={layoutPick}
+                        keyBindings={activeBindings}
+                        chipDrop={chipDrop}
                       />
                     </div>
 
@@ -385,23 +539,34 @@ function App() {
 
                     {/* SPIN/START ROUND Button */}
                     {gameMode === 'solo' ? (
-                      // Solo mode - direct spin, no timer
-                      <button
-                        onClick={spinWheel}
-                        disabled={isLoading || isWheelSpinning || gameState.currentBets.length === 0}
-                        className={`w-full py-5 rounded-xl font-black text-xl tracking-wide uppercase transition-all duration-300 ${
-                          isWheelSpinning
-                            ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                            : gameState.currentBets.length === 0
-                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                            : 'bg-gradient-to-r from-amber-600 via-yellow-500 to-amber-600 text-white hover:from-amber-500 hover:via-yellow-400 hover:to-amber-500 shadow-lg shadow-amber-500/30 hover:shadow-amber-400/50 transform hover:scale-[1.02] active:scale-[0.98]'
-                        }`}
-                      >
-                        {isWheelSpinning ? 'SPINNING...' : gameState.currentBets.length === 0 ? 'PLACE BETS FIRST' : 'SPIN THE WHEEL'}
-                      </button>
+                      // Solo mode - direct spin, no timer (or autoplay)
+                      <>
+                        <button
+                          onClick={() => spinWheel()}
+                          disabled={isLoading || isWheelSpinning || gameState.currentBets.length === 0 || autoplay.status === 'running'}
+                          className={`w-full py-5 rounded-xl font-black text-xl tracking-wide uppercase transition-all duration-300 ${
+                            isWheelSpinning
+                              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                              : gameState.currentBets.length === 0
+                              ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                              : 'bg-gradient-to-r from-amber-600 via-yellow-500 to-amber-600 text-white hover:from-amber-500 hover:via-yellow-400 hover:to-amber-500 shadow-lg shadow-amber-500/30 hover:shadow-amber-400/50 transform hover:scale-[1.02] active:scale-[0.98]'
+                          }`}
+                        >
+                          {isWheelSpinning ? 'SPINNING...' : gameState.currentBets.length === 0 ? 'PLACE BETS FIRST' : 'SPIN THE WHEEL'}
+                        </button>
+                        <AutoplayPanel
+                          status={autoplay.status}
+                          reason={autoplay.reason}
+                          session={autoplay.session}
+                          canStart={!isWheelSpinning && !showResultPopup && gameState.currentBets.length === 0}
+                          onStart={autoplay.start}
+                          onResume={autoplay.resume}
+                          onStop={autoplay.stop}
+                        />
+                      </>
                     ) : gameMode === 'host' ? (
                       // Host mode - timer-based rounds
-                      roundPhase === 'waiting' ? (
+                      roundPhase === 'waiting' || roundPhase === 'resultShown' ? (
                         <button
                           onClick={startRound}
                           disabled={isLoading}
@@ -415,12 +580,12 @@ function App() {
                         </div>
                       ) : (
                         <div className="w-full py-5 rounded-xl font-black text-xl tracking-wide uppercase text-center bg-gray-700 text-gray-400">
-                          SPINNING...
+                          {roundPhase === 'noMoreBets' ? 'NO MORE BETS' : 'SPINNING...'}
                         </div>
                       )
                     ) : (
                       // Joined player - cannot control spin
-                      roundPhase === 'waiting' ? (
+                      roundPhase === 'waiting' || roundPhase === 'resultShown' ? (
                         <div className="w-full py-5 rounded-xl font-bold text-lg text-center bg-slate-700/50 text-slate-400 border border-slate-600/30">
                           Waiting for host to start round...
                         </div>
@@ -430,10 +595,27 @@ function App() {
                         </div>
                       ) : (
                         <div className="w-full py-5 rounded-xl font-black text-xl tracking-wide uppercase text-center bg-gray-700 text-gray-400">
-                          SPINNING...
+                          {roundPhase === 'noMoreBets' ? 'NO MORE BETS' : 'SPINNING...'}
                         </div>
                       )
                     )}
+
+                    {gameMode === 'join' && spunForHost && (
+                      <div className="w-full py-2 rounded-lg text-sm font-semibold text-center bg-slate-700/50 text-amber-200 border border-amber-500/30">
+                        The host didn't spin - you spun for the table
+                      </div>
+                    )}
+
+                    {/* Nobody spun the round (host gone) - anyone at the table can return the stakes */}
+                    {gameMode !== 'solo' && refundDue && (
+                      <button
+                        onClick={refundRound}
+                        disabled={isLoading}
+                        className="w-full py-2 rounded-lg text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-amber-200 border border-amber-500/30 transition-colors disabled:opacity-50"
+                      >
+                        Round never spun - refund all bets
+                      </button>
+                    )}
                   </div>
                   </div>
                 </div>
@@ -484,8 +666,8 @@ function App() {
                     value={initialBalance}
                     onChange={(e) => setInitialBalance(parseInt(e.target.value))}
                     className="w-full bg-gray-700 text-white p-3 rounded"
-                    min="100"
-                    max="10000"
+                    min={MIN_INITIAL_BALANCE}
+                    max={MAX_INITIAL_BALANCE}
                   />
                 </div>
                 <div className="flex gap-4">
@@ -507,6 +689,18 @@ function App() {
           </div>
         )}
 
+        {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+        {showSimulator && <SimulatorPanel tableLayout={tableLayout} onClose={() => setShowSimulator(false)} />}
+        <DraggedChips drag={rackDrag.drag} rack={tableLimits.chipValues} />
+        {showShortcuts && (
+          <ShortcutsOverlay
+            bindings={keyBindings.bindings}
+            onBind={keyBindings.bind}
+            onReset={keyBindings.reset}
+            onClose={() => setShowShortcuts(false)}
+          />
+        )}
+
         {/* Result Popup - Shows after wheel animation completes */}
         {showResultPopup && pendingResult && playerId && (
           <ResultPopup
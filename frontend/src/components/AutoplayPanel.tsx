@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { AutoplayStatus } from '../hooks/useAutoplay';
+import { DEFAULT_AUTOPLAY_CONFIG, isValidConfig, type AutoplayConfig, type AutoplaySession } from '../lib/strategies';
+import { StrategyForm } from './StrategyForm';
+
+interface AutoplayPanelProps {
+  status: AutoplayStatus;
+  reason: string | null;
+  session: AutoplaySession | null;
+  // False while the player has their own bets on the table or the wheel is turning
+  canStart: boolean;
+  onStart: (config: AutoplayConfig) => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+export function AutoplayPanel({ status, reason, session, canStart, onStart, onResume, onStop }: AutoplayPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [config, setConfig] = useState(DEFAULT_AUTOPLAY_CONFIG);
+
+  const running = status === 'running';
+  const valid = isValidConfig(config);
+
+  return (
+    <div
+      className="bg-black/40 backdrop-blur-sm p-3 rounded-lg shadow-lg"
+      style={{ border: '1px solid rgba(212, 175, 55, 0.15)' }}
+    >
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setOpen(!open)}
+          className="text-sm font-semibold text-amber-300/90 hover:text-amber-300"
+        >
+          Autoplay {open ? '▴' : '▾'}
+        </button>
+        {session && status !== 'idle' && (
+          <span className="ml-auto text-xs text-white/80" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+            {session.spins} spins ·{' '}
+            <span className={session.net >= 0 ? 'text-emerald-300' : 'text-red-300'}>
+              {session.net >= 0 ? '+' : '-'}${Math.abs(session.net)}
+            </span>
+          </span>
+        )}
+      </div>
+
+      {reason && <div className={`mt-1 text-xs ${status === 'paused' ? 'text-amber-300' : 'text-white/60'}`}>{reason}</div>}
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <StrategyForm config={config} disabled={running} onChange={setConfig} />
+
+          <div className="flex gap-2">
+            {running ? (
+              <button
+                onClick={onStop}
+                className="flex-1 py-2 bg-red-600 hover:bg-red-500 text-white text-xs font-semibold rounded transition-colors"
+              >
+                Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => onStart(config)}
+                  disabled={!valid || !canStart}
+                  className="flex-1 py-2 bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Start
+                </button>
+                {status === 'paused' && (
+                  <button
+                    onClick={onResume}
+                    disabled={!canStart}
+                    className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 text-white text-xs font-semibold rounded transition-colors disabled:opacity-50"
+                  >
+                    Resume
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+          {!canStart && !running && <div className="text-[10px] text-white/50">Clear or spin the bets on the table first</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,54 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSounds } from '../hooks/useSounds';
+import { useHotkeys } from '../hooks/useHotkeys';
+import { dropTargetKey, useChipDrag } from '../hooks/useChipDrag';
+import type { BetSelection, BetType, TableLimits } from '../graphql/types';
+import { isRed, layoutResult, payoutMultiplier } from '../lib/rules';
+import { betRange, betTypeName, checkLimits } from '../lib/tableLimits';
+import type { AnnouncedChip } from '../lib/announcedBets';
+import type { KeyBindings } from '../lib/keyBindings';
+import { moveCursor, type CursorDirection } from '../lib/tableCursor';
+import {
+  EMPTY_SLIP,
+  addToSlip,
+  clearSlip,
+  closeRound,
+  confirmSlip,
+  doubleSlip,
+  moveInSlip,
+  rebetSlip,
+  redoSlip,
+  removeFromSlip,
+  slipTotal,
+  undoSlip,
+  type BetSlip,
+  type SlipAddition,
+  type SlipLayout,
+} from '../lib/betSlip';
+import { Racetrack } from './Racetrack';
+import { ChipStack, DraggedChips } from './ChipStack';
 
 interface BettingTableProps {
-  onPlaceBet: (betType: string, numbers: number[], amount: number) => void;
+  tableLimits: TableLimits;
+  // This player's bets already on the table this round (they count towards the limits)
+  placedBets: BetSelection[];
+  // Submits the whole layout at once; resolves true when the chain placed all of it
+  onPlaceBets: (bets: BetSelection[]) => Promise<boolean>;
   isSpinning: boolean;
   playerBalance: number;
   selectedChip: number;
+  // Solo only: place the previous round's layout and spin straight away
+  onRebetAndSpin?: (bets: BetSelection[]) => void;
+  // The layout on the table: the slip being built, else this round's or last round's bets
+  onLayoutChange?: (bets: BetSelection[]) => void;
+  // A saved layout picked from the tray, added to the slip at the selected chip size
+  layoutPick?: { chips: AnnouncedChip[] } | null;
+  // Table shortcuts (cursor, place/remove, confirm, rebet); null while something else has the keyboard
+  keyBindings?: KeyBindings | null;
+  // A chip dragged from the rack and dropped on a cell
+  chipDrop?: { key: string; amount: number } | null;
 }
 
-const isRed = (num: number) =>
-  [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36].includes(num);
-
 const getNumberColorClass = (num: number): string => {
   if (num === 0) return 'number-green text-white';
   return isRed(num)
@@ -25,88 +63,340 @@ const getNumberShadow = (num: number): string => {
     : 'inset 0 1px 0 rgba(255,255,255,0.1), 0 2px 4px rgba(0,0,0,0.3)';
 };
 
+const INSIDE_BET_TYPES: Record<string, { betType: BetType; label: string }> = {
+  split: { betType: 'SPLIT', label: 'Split' },
+  street: { betType: 'STREET', label: 'Street' },
+  corner: { betType: 'CORNER', label: 'Corner' },
+  sixline: { betType: 'SIX_LINE', label: 'Six Line' },
+  trio: { betType: 'TRIO', label: 'Trio' },
+  basket: { betType: 'BASKET', label: 'Basket' },
+};
+
+const insidePayout = (kind: string) => `${payoutMultiplier(INSIDE_BET_TYPES[kind].betType)}:1`;
+
+// Grid geometry in px: w-[76px] h-14 cells with gap-2
+const CELL_W = 76;
+const CELL_H = 56;
+const GAP = 8;
+const HOTSPOT = 16;
+const GRID_HEIGHT = 3 * CELL_H + 2 * GAP;
+
+interface InsideSpot {
+  kind: string;
+  numbers: number[];
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Click targets over the borders and intersections of the number grid. Grid column c holds
+// the street 3c+1..3c+3, with 3c+3 in the top row.
+function buildInsideSpots(): InsideSpot[] {
+  const spots: InsideSpot[] = [];
+  const borderX = (c: number) => c * (CELL_W + GAP) + CELL_W + GAP / 2 - HOTSPOT / 2;
+  const borderY = (r: number) => r * (CELL_H + GAP) + CELL_H + GAP / 2 - HOTSPOT / 2;
+  const cellX = (c: number) => c * (CELL_W + GAP) + (CELL_W - 40) / 2;
+  const cellY = (r: number) => r * (CELL_H + GAP) + (CELL_H - 32) / 2;
+  const bottomY = GRID_HEIGHT - HOTSPOT / 2;
+
+  for (let c = 0; c < 12; c++) {
+    for (let r = 0; r < 3; r++) {
+      const n = 3 * c + 3 - r;
+      if (c < 11) {
+        spots.push({ kind: 'split', numbers: [n, n + 3], left: borderX(c), top: cellY(r), width: HOTSPOT, height: 32 });
+      }
+      if (r < 2) {
+        spots.push({ kind: 'split', numbers: [n - 1, n], left: cellX(c), top: borderY(r), width: 40, height: HOTSPOT });
+      }
+      if (c < 11 && r < 2) {
+        spots.push({ kind: 'corner', numbers: [n - 1, n, n + 2, n + 3], left: borderX(c), top: borderY(r), width: HOTSPOT, height: HOTSPOT });
+      }
+    }
+    spots.push({ kind: 'street', numbers: [3 * c + 1, 3 * c + 2, 3 * c + 3], left: cellX(c), top: bottomY, width: 40, height: HOTSPOT });
+    if (c < 11) {
+      spots.push({
+        kind: 'sixline',
+        numbers: [1, 2, 3, 4, 5, 6].map(i => 3 * c + i),
+        left: borderX(c),
+        top: bottomY,
+        width: HOTSPOT,
+        height: HOTSPOT,
+      });
+    }
+  }
+  return spots;
+}
+
+const INSIDE_SPOTS = buildInsideSpots();
+
+// Bets that touch zero, shown beside the zero cell
+const ZERO_BETS = [
+  { kind: 'split', numbers: [0, 1] },
+  { kind: 'split', numbers: [0, 2] },
+  { kind: 'split', numbers: [0, 3] },
+  { kind: 'trio', numbers: [0, 1, 2] },
+  { kind: 'trio', numbers: [0, 2, 3] },
+  { kind: 'basket', numbers: [0, 1, 2, 3] },
+];
+
+const OUTSIDE_BET_TYPES: Record<string, BetType> = {
+  red: 'RED',
+  black: 'BLACK',
+  even: 'EVEN',
+  odd: 'ODD',
+  low: 'LOW',
+  high: 'HIGH',
+  dozen1: 'FIRST_DOZEN',
+  dozen2: 'SECOND_DOZEN',
+  dozen3: 'THIRD_DOZEN',
+  col1: 'FIRST_COLUMN',
+  col2: 'SECOND_COLUMN',
+  col3: 'THIRD_COLUMN',
+};
+
+const insideBetKey = (kind: string, numbers: number[]) => `${kind}-${numbers.join('-')}`;
+
+// Chain bet for a slip key (straight-17, split-17-20, red, ...)
+function tableBetFor(key: string, amount: number): BetSelection | null {
+  const [kind, ...numbers] = key.split('-');
+  if (kind === 'straight') return { betType: 'STRAIGHT', numbers: [parseInt(numbers[0])], amount };
+  if (kind in INSIDE_BET_TYPES) return { betType: INSIDE_BET_TYPES[kind].betType, numbers: numbers.map(Number), amount };
+  if (kind in OUTSIDE_BET_TYPES) return { betType: OUTSIDE_BET_TYPES[kind], numbers: [], amount };
+  return null;
+}
+
+const tableBets = (layout: SlipLayout) =>
+  Array.from(layout, ([key, bet]) => tableBetFor(key, bet.amount)).filter((bet): bet is BetSelection => bet !== null);
+
+// Slip entry for a cell's key, labelled the way a click on the cell labels it
+function slipBetAt(key: string): { key: string; display: string } {
+  const [kind, ...numbers] = key.split('-');
+  if (kind === 'straight') return { key, display: numbers[0] };
+  if (kind in INSIDE_BET_TYPES) return { key, display: `${INSIDE_BET_TYPES[kind].label} ${numbers.join('/')}` };
+  return { key, display: key };
+}
+
+// Grid key for a racetrack or saved-layout chip, so it lands on the same cell a click would
+function chipBetKey({ betType, numbers }: AnnouncedChip): { key: string; display: string } {
+  if (betType === 'STRAIGHT') return { key: `straight-${numbers[0]}`, display: `${numbers[0]}` };
+  const outside = Object.keys(OUTSIDE_BET_TYPES).find(k => OUTSIDE_BET_TYPES[k] === betType);
+  if (outside) return { key: outside, display: outside };
+  const kind = Object.keys(INSIDE_BET_TYPES).find(k => INSIDE_BET_TYPES[k].betType === betType) ?? betType;
+  const sorted = [...numbers].sort((a, b) => a - b);
+  return { key: insideBetKey(kind, sorted), display: `${INSIDE_BET_TYPES[kind]?.label ?? kind} ${sorted.join('/')}` };
+}
+
 export function BettingTable({
-  onPlaceBet,
+  onPlaceBets,
+  tableLimits,
+  placedBets,
   isSpinning,
   playerBalance,
   selectedChip,
+  onRebetAndSpin,
+  onLayoutChange,
+  layoutPick,
+  keyBindings = null,
+  chipDrop,
 }: BettingTableProps) {
-  const [bets, setBets] = useState<Map<string, { amount: number; display: string }>>(
-    new Map()
-  );
+  const [slip, setSlip] = useState(EMPTY_SLIP);
+  const bets = slip.layout;
+  const [submitting, setSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<{ ok: boolean; text: string } | null>(null);
+  // Number under the pointer, for the "if it hits" preview
+  const [previewNumber, setPreviewNumber] = useState<number | null>(null);
+  // Slip key under the keyboard cursor
+  const [cursor, setCursor] = useState<string | null>(null);
   const { playBetPlace } = useSounds();
 
-  const handleNumberClick = (num: number) => {
-    if (isSpinning || selectedChip > playerBalance) return;
+  useEffect(() => {
+    if (!confirmation) return;
+    const timer = setTimeout(() => setConfirmation(null), 4000);
+    return () => clearTimeout(timer);
+  }, [confirmation]);
+
+  // Whatever was confirmed before the wheel spins becomes the rebet layout
+  useEffect(() => {
+    if (isSpinning) setSlip(current => closeRound(current));
+  }, [isSpinning]);
 
-    playBetPlace();
-    const betKey = `straight-${num}`;
-    const existing = bets.get(betKey);
-    const newAmount = (existing?.amount || 0) + selectedChip;
+  useEffect(() => {
+    const layout = [slip.layout, slip.confirmed, slip.lastRound].find(l => l && l.size > 0);
+    onLayoutChange?.(layout ? tableBets(layout) : []);
+  }, [slip, onLayoutChange]);
 
-    const newBets = new Map(bets);
-    newBets.set(betKey, { amount: newAmount, display: `${num}` });
-    setBets(newBets);
+  // Takes the next slip unless it breaks a table maximum (minimums only matter on confirm) or raises
+  // the stake past the balance; every change to the layout, undo and redo included, comes through here
+  const applySlip = (next: BetSlip) => {
+    if (next === slip) return false;
+    const nextTotal = slipTotal(next.layout);
+    const problem =
+      nextTotal > playerBalance && nextTotal > slipTotal(slip.layout)
+        ? 'Insufficient balance'
+        : checkLimits(tableLimits, placedBets, tableBets(next.layout), { ignoreMinimum: true });
+    if (problem) {
+      setConfirmation({ ok: false, text: problem });
+      return false;
+    }
+    setSlip(next);
+    return true;
   };
 
-  const handleOutsideBet = (betType: string, display: string) => {
-    if (isSpinning || selectedChip > playerBalance) return;
+  const addBets = (additions: SlipAddition[]) => {
+    if (isSpinning || submitting) return;
+    if (applySlip(addToSlip(slip, additions, playerBalance))) playBetPlace();
+  };
 
-    playBetPlace();
-    const betKey = betType;
-    const existing = bets.get(betKey);
-    const newAmount = (existing?.amount || 0) + selectedChip;
+  const handleNumberClick = (num: number) => {
+    addBets([{ key: `straight-${num}`, display: `${num}`, amount: selectedChip }]);
+  };
 
-    const newBets = new Map(bets);
-    newBets.set(betKey, { amount: newAmount, display });
-    setBets(newBets);
+  const handleOutsideBet = (betKey: string, display: string) => {
+    addBets([{ key: betKey, display, amount: selectedChip }]);
   };
 
-  const confirmBets = () => {
-    bets.forEach((bet, key) => {
-      const parts = key.split('-');
-      const betType = parts[0];
-
-      if (betType === 'straight') {
-        onPlaceBet('STRAIGHT', [parseInt(parts[1])], bet.amount);
-      } else if (betType === 'red') {
-        onPlaceBet('RED', [], bet.amount);
-      } else if (betType === 'black') {
-        onPlaceBet('BLACK', [], bet.amount);
-      } else if (betType === 'even') {
-        onPlaceBet('EVEN', [], bet.amount);
-      } else if (betType === 'odd') {
-        onPlaceBet('ODD', [], bet.amount);
-      } else if (betType === 'low') {
-        onPlaceBet('LOW', [], bet.amount);
-      } else if (betType === 'high') {
-        onPlaceBet('HIGH', [], bet.amount);
-      } else if (betType === 'dozen1') {
-        onPlaceBet('FIRST_DOZEN', [], bet.amount);
-      } else if (betType === 'dozen2') {
-        onPlaceBet('SECOND_DOZEN', [], bet.amount);
-      } else if (betType === 'dozen3') {
-        onPlaceBet('THIRD_DOZEN', [], bet.amount);
-      } else if (betType === 'col1') {
-        onPlaceBet('FIRST_COLUMN', [], bet.amount);
-      } else if (betType === 'col2') {
-        onPlaceBet('SECOND_COLUMN', [], bet.amount);
-      } else if (betType === 'col3') {
-        onPlaceBet('THIRD_COLUMN', [], bet.amount);
-      }
-    });
+  const handleInsideBet = (kind: string, numbers: number[]) => {
+    handleOutsideBet(insideBetKey(kind, numbers), `${INSIDE_BET_TYPES[kind].label} ${numbers.join('/')}`);
+  };
 
-    setBets(new Map());
+  const handleAnnouncedBet = (chips: AnnouncedChip[]) => {
+    addBets(chips.map(chip => ({ ...chipBetKey(chip), amount: chip.units * selectedChip })));
+  };
+
+  // A pick or drop is taken once, against the slip, balance and limits of the render it arrives in;
+  // the effects rerun with those but skip an event they have already taken
+  const takenPick = useRef<BettingTableProps['layoutPick']>(null);
+  const takenDrop = useRef<BettingTableProps['chipDrop']>(null);
+
+  useEffect(() => {
+    if (!layoutPick || takenPick.current === layoutPick) return;
+    takenPick.current = layoutPick;
+    handleAnnouncedBet(layoutPick.chips);
+  }, [layoutPick, handleAnnouncedBet]);
+
+  useEffect(() => {
+    if (!chipDrop || takenDrop.current === chipDrop) return;
+    takenDrop.current = chipDrop;
+    addBets([{ ...slipBetAt(chipDrop.key), amount: chipDrop.amount }]);
+  }, [chipDrop, addBets]);
+
+  // The slip is locked while the layout is in flight and only cleared once the chain has it,
+  // so a rejected layout stays on the table to adjust
+  const confirmBets = async () => {
+    if (submitting || bets.size === 0 || totalBetAmount > playerBalance || layoutProblem) return;
+    const sent = bets;
+    const count = sent.size;
+    const total = totalBetAmount;
+    setSubmitting(true);
+    try {
+      const placed = await onPlaceBets(tableBets(sent));
+      if (placed) setSlip(current => confirmSlip(current, sent));
+      setConfirmation(
+        placed
+          ? { ok: true, text: `${count} ${count === 1 ? 'bet' : 'bets'} placed · $${total}` }
+          : { ok: false, text: 'Layout not placed - nothing was staked' }
+      );
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const clearBets = () => {
-    setBets(new Map());
+    setSlip(clearSlip(slip));
   };
 
-  const totalBetAmount = Array.from(bets.values()).reduce(
-    (sum, bet) => sum + bet.amount,
-    0
-  );
+  const rebetAndSpin = () => {
+    const next = rebetSlip(slip, playerBalance);
+    if (!onRebetAndSpin || locked || bets.size > 0 || next === slip) return;
+    const problem = checkLimits(tableLimits, placedBets, tableBets(next.layout));
+    if (problem) {
+      setConfirmation({ ok: false, text: problem });
+      return;
+    }
+    onRebetAndSpin(tableBets(next.layout));
+    setSlip(confirmSlip(next));
+  };
+
+  const totalBetAmount = slipTotal(bets);
+  const layoutProblem = bets.size > 0 ? checkLimits(tableLimits, placedBets, tableBets(bets)) : null;
+  const limitOverrides = tableLimits.betLimits
+    .map(limit => `${betTypeName(limit.betType)} $${limit.min}-$${limit.max}`)
+    .join(' · ');
+  const lastRoundTotal = slip.lastRound ? slipTotal(slip.lastRound) : 0;
+  // What this round pays if the hovered number hits: bets already on the table plus the slip
+  const previewBets = [...placedBets, ...tableBets(bets)];
+  const preview = previewNumber !== null && previewBets.length > 0 ? layoutResult(previewBets, previewNumber) : null;
+  const canRebet = !isSpinning && lastRoundTotal > 0 && lastRoundTotal <= playerBalance;
+  const locked = isSpinning || submitting;
+
+  const moveTo = (direction: CursorDirection) => {
+    const next = moveCursor(cursor, direction);
+    setCursor(next);
+    setPreviewNumber(next.startsWith('straight-') ? parseInt(next.slice('straight-'.length)) : null);
+  };
+
+  const placeAtCursor = () => {
+    if (cursor) addBets([{ ...slipBetAt(cursor), amount: selectedChip }]);
+  };
+
+  useHotkeys(keyBindings, {
+    up: () => moveTo('up'),
+    down: () => moveTo('down'),
+    left: () => moveTo('left'),
+    right: () => moveTo('right'),
+    place: placeAtCursor,
+    remove: () => {
+      if (cursor && !locked) applySlip(removeFromSlip(slip, cursor, selectedChip));
+    },
+    confirm: confirmBets,
+    rebet: () => {
+      if (canRebet && !locked) applySlip(rebetSlip(slip, playerBalance));
+    },
+  });
+
+  // A stack dropped off the felt is taken off the table; dropped on another cell it moves there
+  const stackDrag = useChipDrag((drag, target) => {
+    if (!drag.from || locked) return;
+    const key = dropTargetKey(target);
+    if (key) applySlip(moveInSlip(slip, drag.from, slipBetAt(key)));
+    else if (!target?.closest('[data-betting-felt]')) applySlip(removeFromSlip(slip, drag.from, Infinity));
+  });
+
+  const renderStack = (key: string, className = 'absolute -top-2 -right-1') => {
+    const entry = bets.get(key);
+    if (!entry) return null;
+    return (
+      <ChipStack
+        amount={entry.amount}
+        rack={tableLimits.chipValues}
+        className={className}
+        onPointerDown={locked ? undefined : (e) => stackDrag.startDrag(e, entry.amount, key)}
+      />
+    );
+  };
+
+  const cursorRing = (key: string) => (cursor === key ? ' ring-2 ring-amber-300' : '');
+
+  const renderZeroBet = (kind: string, numbers: number[]) => {
+    const key = insideBetKey(kind, numbers);
+    return (
+      <button
+        key={key}
+        onClick={() => handleInsideBet(kind, numbers)}
+        data-bet-key={key}
+        disabled={isSpinning}
+        title={`${INSIDE_BET_TYPES[kind].label} · ${insidePayout(kind)}`}
+        className={`h-8 px-2 bg-gray-700 text-white rounded-lg text-xs font-semibold outside-bet disabled:opacity-50 disabled:cursor-not-allowed relative ${
+          bets.has(key) ? 'has-bet' : ''
+        }${cursorRing(key)}`}
+        style={{ border: '1px solid rgba(212, 175, 55, 0.1)' }}
+      >
+        {numbers.join('-')}
+        {renderStack(key)}
+      </button>
+    );
+  };
 
   // Create number grid (3 rows x 12 columns)
   const rows = [
@@ -120,56 +410,87 @@ export function BettingTable({
       {/* Betting Table */}
       <div
         className="betting-felt p-6 shadow-inner"
+        data-betting-felt
         style={{
           border: '1px solid rgba(212, 175, 55, 0.15)',
           borderRadius: '12px'
         }}
       >
+        {/* Table Limits */}
+        <div
+          className="flex justify-center gap-4 mb-3 text-xs text-white/70"
+          style={{ fontFamily: "'JetBrains Mono', monospace" }}
+          title={limitOverrides || undefined}
+        >
+          <span>Bet ${tableLimits.minBet}-${tableLimits.maxBet}</span>
+          <span>Straight up to ${betRange(tableLimits, 'STRAIGHT')[1]}</span>
+          <span>Round up to ${tableLimits.maxRoundStake}</span>
+          {limitOverrides && <span className="text-yellow-400/80">+{tableLimits.betLimits.length} bet type limits</span>}
+        </div>
+
         {/* Zero */}
-        <div className="flex justify-center mb-2">
+        <div className="flex justify-center items-center gap-2 mb-2">
+          {ZERO_BETS.slice(0, 3).map(({ kind, numbers }) => renderZeroBet(kind, numbers))}
           <button
             onClick={() => handleNumberClick(0)}
+            data-bet-key="straight-0"
+            onMouseEnter={() => setPreviewNumber(0)}
+            onMouseLeave={() => setPreviewNumber(null)}
             disabled={isSpinning}
             className={`w-40 h-14 number-cell ${getNumberColorClass(0)} rounded-lg font-bold text-2xl disabled:opacity-50 disabled:cursor-not-allowed ${
               bets.has('straight-0') ? 'has-bet' : ''
-            }`}
+            }${cursorRing('straight-0')}`}
             style={{ boxShadow: getNumberShadow(0) }}
           >
             0
-            {bets.has('straight-0') && (
-              <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                ${bets.get('straight-0')?.amount}
-              </span>
-            )}
+            {renderStack('straight-0')}
           </button>
+          {ZERO_BETS.slice(3).map(({ kind, numbers }) => renderZeroBet(kind, numbers))}
         </div>
 
         {/* Main Grid */}
         <div className="flex gap-2">
           {/* Numbers Grid */}
-          <div className="flex flex-col gap-2">
+          <div className="flex flex-col gap-2 relative">
             {rows.map((row, rowIndex) => (
               <div key={rowIndex} className="flex gap-2">
                 {row.map((num) => (
                   <button
                     key={num}
                     onClick={() => handleNumberClick(num)}
+                    data-bet-key={`straight-${num}`}
+                    onMouseEnter={() => setPreviewNumber(num)}
+                    onMouseLeave={() => setPreviewNumber(null)}
                     disabled={isSpinning}
                     className={`w-[76px] h-14 number-cell ${getNumberColorClass(num)} rounded-lg font-bold text-lg disabled:opacity-50 disabled:cursor-not-allowed relative ${
                       bets.has(`straight-${num}`) ? 'has-bet' : ''
-                    }`}
+                    }${cursorRing(`straight-${num}`)}`}
                     style={{ boxShadow: getNumberShadow(num) }}
                   >
                     {num}
-                    {bets.has(`straight-${num}`) && (
-                      <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                        ${bets.get(`straight-${num}`)?.amount}
-                      </span>
-                    )}
+                    {renderStack(`straight-${num}`)}
                   </button>
                 ))}
               </div>
             ))}
+
+            {/* Split, corner, street and six-line targets */}
+            {INSIDE_SPOTS.map(({ kind, numbers, left, top, width, height }) => {
+              const key = insideBetKey(kind, numbers);
+              return (
+                <button
+                  key={key}
+                  onClick={() => handleInsideBet(kind, numbers)}
+                  data-bet-key={key}
+                  disabled={isSpinning}
+                  title={`${INSIDE_BET_TYPES[kind].label} ${numbers.join('/')} · ${insidePayout(kind)}`}
+                  className="absolute z-10 rounded-full hover:bg-yellow-300/50 disabled:cursor-not-allowed flex items-center justify-center"
+                  style={{ left, top, width, height }}
+                >
+                  {renderStack(key, 'relative')}
+                </button>
+              );
+            })}
           </div>
 
           {/* Column Bets */}
@@ -180,18 +501,15 @@ export function BettingTable({
                 onClick={() =>
                   handleOutsideBet(col, `Column ${3 - idx}`)
                 }
+                data-bet-key={col}
                 disabled={isSpinning}
                 className={`w-[76px] h-14 bg-gray-700 text-white rounded-lg font-semibold text-base outside-bet disabled:opacity-50 disabled:cursor-not-allowed relative ${
                   bets.has(col) ? 'has-bet' : ''
-                }`}
+                }${cursorRing(col)}`}
                 style={{ border: '1px solid rgba(212, 175, 55, 0.1)' }}
               >
                 2:1
-                {bets.has(col) && (
-                  <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                    ${bets.get(col)?.amount}
-                  </span>
-                )}
+                {renderStack(col)}
               </button>
             ))}
           </div>
@@ -201,48 +519,39 @@ export function BettingTable({
         <div className="flex gap-2 mt-3">
           <button
             onClick={() => handleOutsideBet('dozen1', '1st Dozen (1-12)')}
+            data-bet-key="dozen1"
             disabled={isSpinning}
             className={`flex-1 h-14 bg-gray-700 text-white rounded-lg font-semibold text-lg outside-bet disabled:opacity-50 disabled:cursor-not-allowed relative ${
               bets.has('dozen1') ? 'has-bet' : ''
-            }`}
+            }${cursorRing('dozen1')}`}
             style={{ border: '1px solid rgba(212, 175, 55, 0.1)' }}
           >
             1st 12
-            {bets.has('dozen1') && (
-              <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                ${bets.get('dozen1')?.amount}
-              </span>
-            )}
+            {renderStack('dozen1')}
           </button>
           <button
             onClick={() => handleOutsideBet('dozen2', '2nd Dozen (13-24)')}
+            data-bet-key="dozen2"
             disabled={isSpinning}
             className={`flex-1 h-14 bg-gray-700 text-white rounded-lg font-semibold text-lg outside-bet disabled:opacity-50 disabled:cursor-not-allowed relative ${
               bets.has('dozen2') ? 'has-bet' : ''
-            }`}
+            }${cursorRing('dozen2')}`}
             style={{ border: '1px solid rgba(212, 175, 55, 0.1)' }}
           >
             2nd 12
-            {bets.has('dozen2') && (
-              <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                ${bets.get('dozen2')?.amount}
-              </span>
-            )}
+            {renderStack('dozen2')}
           </button>
           <button
             onClick={() => handleOutsideBet('dozen3', '3rd Dozen (25-36)')}
+            data-bet-key="dozen3"
             disabled={isSpinning}
             className={`flex-1 h-14 bg-gray-700 text-white rounded-lg font-semibold text-lg outside-bet disabled:opacity-50 disabled:cursor-not-allowed relative ${
               bets.has('dozen3') ? 'has-bet' : ''
-            }`}
+            }${cursorRing('dozen3')}`}
             style={{ border: '1px solid rgba(212, 175, 55, 0.1)' }}
           >
             3rd 12
-            {bets.has('dozen3') && (
-              <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                ${bets.get('dozen3')?.amount}
-              </span>
-            )}
+            {renderStack('dozen3')}
           </button>
         </div>
 
@@ -259,29 +568,74 @@ export function BettingTable({
             <button
               key={bet.key}
               onClick={() => handleOutsideBet(bet.key, bet.label)}
+              data-bet-key={bet.key}
               disabled={isSpinning}
               className={`h-14 ${
                 bet.bg || 'bg-gray-700'
               } text-white rounded-lg font-semibold text-base outside-bet disabled:opacity-50 disabled:cursor-not-allowed relative ${
                 bets.has(bet.key) ? 'has-bet' : ''
-              }`}
+              }${cursorRing(bet.key)}`}
             >
               {bet.label}
-              {bets.has(bet.key) && (
-                <span className="absolute -top-1 -right-1 bg-yellow-400 text-black text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center bet-indicator">
-                  ${bets.get(bet.key)?.amount}
-                </span>
-              )}
+              {renderStack(bet.key)}
             </button>
           ))}
         </div>
       </div>
 
+      <Racetrack isSpinning={isSpinning} selectedChip={selectedChip} onAnnouncedBet={handleAnnouncedBet} />
+
+      {/* Bet Slip */}
+      <div className="flex items-center gap-2">
+        {[
+          { label: 'UNDO', onClick: () => applySlip(undoSlip(slip)), disabled: slip.undo.length === 0 },
+          { label: 'REDO', onClick: () => applySlip(redoSlip(slip)), disabled: slip.redo.length === 0 },
+          {
+            label: 'DOUBLE',
+            onClick: () => applySlip(doubleSlip(slip, playerBalance)),
+            disabled: bets.size === 0 || totalBetAmount * 2 > playerBalance,
+          },
+          { label: 'REBET', onClick: () => applySlip(rebetSlip(slip, playerBalance)), disabled: !canRebet },
+          ...(onRebetAndSpin
+            ? [{ label: 'REBET & SPIN', onClick: rebetAndSpin, disabled: !canRebet || bets.size > 0 }]
+            : []),
+        ].map(({ label, onClick, disabled }) => (
+          <button
+            key={label}
+            onClick={onClick}
+            disabled={disabled || locked}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            style={{ border: '1px solid rgba(212, 175, 55, 0.1)' }}
+          >
+            {label}
+          </button>
+        ))}
+        <div
+          className="ml-auto text-right text-xs"
+          style={{ fontFamily: "'JetBrains Mono', monospace" }}
+        >
+          <div className={totalBetAmount > playerBalance || layoutProblem ? 'text-red-400' : 'text-white'}>
+            Stake ${totalBetAmount} · {bets.size} {bets.size === 1 ? 'bet' : 'bets'}
+          </div>
+          {layoutProblem && <div className="text-red-400">{layoutProblem}</div>}
+          {preview && (
+            <div className={preview.net > 0 ? 'text-emerald-300' : 'text-white/60'}>
+              {preview.returned > 0
+                ? `If ${previewNumber} hits you win $${preview.returned} (${preview.net >= 0 ? '+' : '-'}$${Math.abs(preview.net)})`
+                : `If ${previewNumber} hits you lose $${preview.staked}`}
+            </div>
+          )}
+          <div className="text-white/60">
+            {lastRoundTotal > 0 ? `Last round $${lastRoundTotal} · ` : ''}Balance after ${playerBalance - totalBetAmount}
+          </div>
+        </div>
+      </div>
+
       {/* Bet Controls */}
       <div className="flex gap-4">
         <button
           onClick={clearBets}
-          disabled={bets.size === 0 || isSpinning}
+          disabled={bets.size === 0 || isSpinning || submitting}
           className="flex-1 bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg uppercase transition-all duration-200 hover:from-red-500 hover:to-red-600 shadow-md hover:shadow-red-500/20 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none"
           style={{ fontFamily: "'Cinzel', 'Times New Roman', serif", letterSpacing: '2px' }}
         >
@@ -289,7 +643,7 @@ export function BettingTable({
         </button>
         <button
           onClick={confirmBets}
-          disabled={bets.size === 0 || isSpinning || totalBetAmount > playerBalance}
+          disabled={bets.size === 0 || isSpinning || submitting || totalBetAmount > playerBalance || !!layoutProblem}
           className="flex-1 text-white py-4 rounded-xl font-bold text-lg uppercase transition-all duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
           style={{
             fontFamily: "'Cinzel', 'Times New Roman', serif",
@@ -298,9 +652,21 @@ export function BettingTable({
             boxShadow: '0 4px 15px rgba(13, 148, 136, 0.3)'
           }}
         >
-          CONFIRM (${totalBetAmount})
+          {submitting ? 'PLACING...' : `CONFIRM ($${totalBetAmount})`}
         </button>
       </div>
+
+      <DraggedChips drag={stackDrag.drag} rack={tableLimits.chipValues} />
+
+      {confirmation && (
+        <div
+          className={`text-center text-sm font-semibold py-2 rounded-lg ${
+            confirmation.ok ? 'bg-emerald-600/20 text-emerald-300' : 'bg-red-600/20 text-red-300'
+          }`}
+        >
+          {confirmation.text}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,67 @@
+import type { PointerEvent } from 'react';
+import { createPortal } from 'react-dom';
+import type { ChipDrag } from '../hooks/useChipDrag';
+import { chipBreakdown, chipColors, chipLabel } from '../lib/chips';
+
+// Chips drawn per stack; a taller pile still shows the full amount on top
+const MAX_VISIBLE_CHIPS = 6;
+const CHIP_SIZE = 22;
+const CHIP_OFFSET = 3;
+
+interface ChipStackProps {
+  amount: number;
+  // The room's chip rack the amount is broken into
+  rack: number[];
+  // Positions the stack (absolute or relative); the chips are laid out inside it
+  className?: string;
+  // Starts dragging the stack (off the table removes it)
+  onPointerDown?: (event: PointerEvent) => void;
+}
+
+// A bet's chips broken into denominations, largest at the bottom
+export function ChipStack({ amount, rack, className = '', onPointerDown }: ChipStackProps) {
+  const chips = chipBreakdown(amount, rack).slice(0, MAX_VISIBLE_CHIPS);
+  const height = CHIP_SIZE + (chips.length - 1) * CHIP_OFFSET;
+
+  return (
+    <span
+      className={`block ${onPointerDown ? 'cursor-grab' : 'pointer-events-none'} ${className}`}
+      style={{ width: CHIP_SIZE, height, touchAction: 'none' }}
+      onPointerDown={onPointerDown}
+      title={`$${amount}`}
+    >
+      {chips.map((value, i) => {
+        const colors = chipColors(value, rack);
+        return (
+          <span
+            key={i}
+            className="absolute left-0 rounded-full flex items-center justify-center text-[9px] font-bold"
+            style={{
+              width: CHIP_SIZE,
+              height: CHIP_SIZE,
+              bottom: i * CHIP_OFFSET,
+              color: colors.text,
+              background: `radial-gradient(circle at 30% 30%, ${colors.bg}, ${colors.edge})`,
+              border: `2px dashed ${colors.edge}`,
+              boxShadow: '0 1px 2px rgba(0,0,0,0.5)',
+            }}
+          >
+            {i === chips.length - 1 && chipLabel(amount)}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+// The chips following the pointer; portalled to the body so the page's scale transform doesn't
+// offset them from the pointer
+export function DraggedChips({ drag, rack }: { drag: ChipDrag | null; rack: number[] }) {
+  if (!drag) return null;
+  return createPortal(
+    <div className="fixed z-[60] pointer-events-none -translate-x-1/2 -translate-y-1/2" style={{ left: drag.x, top: drag.y }}>
+      <ChipStack amount={drag.amount} rack={rack} className="relative scale-150" />
+    </div>,
+    document.body
+  );
+}
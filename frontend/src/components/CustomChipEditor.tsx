@@ -0,0 +1,71 @@
+import { useState } from 'react';
+
+interface CustomChipEditorProps {
+  value: number | null;
+  // The chip only joins the rack where it fits (see customChipFits)
+  fits: boolean;
+  maxBet: number;
+  onChange: (value: number | null) => void;
+}
+
+// The player's one custom chip, kept across rooms
+export function CustomChipEditor({ value, fits, maxBet, onChange }: CustomChipEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value ? String(value) : '');
+
+  const parsed = parseInt(draft);
+  const valid = Number.isInteger(parsed) && parsed >= 1;
+
+  const save = () => {
+    if (!valid) return;
+    onChange(parsed);
+    setEditing(false);
+  };
+
+  if (!editing) {
+    return (
+      <button
+        onClick={() => setEditing(true)}
+        className="mt-2 text-[10px] text-amber-200/70 hover:text-amber-200 uppercase"
+        title={value && !fits ? `$${value} doesn't fit this table (max $${maxBet}) or is already racked` : undefined}
+      >
+        {value ? `Custom $${value}${fits ? '' : ' (off)'}` : '+ Custom chip'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex flex-col items-center gap-1 w-20">
+      <input
+        type="number"
+        min="1"
+        value={draft}
+        autoFocus
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && save()}
+        className="w-full bg-slate-800 text-white text-xs p-1 rounded"
+      />
+      <div className="flex gap-1">
+        <button
+          onClick={save}
+          disabled={!valid}
+          className="px-2 py-0.5 bg-amber-600 hover:bg-amber-500 text-white text-[10px] rounded disabled:opacity-40"
+        >
+          Set
+        </button>
+        {value !== null && (
+          <button
+            onClick={() => {
+              onChange(null);
+              setDraft('');
+              setEditing(false);
+            }}
+            className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 text-white text-[10px] rounded"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
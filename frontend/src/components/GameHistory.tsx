@@ -1,10 +1,9 @@
+import { isRed } from '../lib/rules';
+
 interface GameHistoryProps {
   history: number[];
 }
 
-const isRed = (num: number) =>
-  [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36].includes(num);
-
 const getColorClass = (num: number) => {
   if (num === 0) return 'number-green';
   return isRed(num) ? 'number-red' : 'number-black';
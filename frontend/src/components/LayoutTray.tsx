@@ -0,0 +1,145 @@
+import { useRef, useState } from 'react';
+import type { BetSelection } from '../graphql/types';
+import { MAX_LAYOUT_NAME_LENGTH, exportLayouts, layoutUnits, type SavedLayout } from '../lib/savedLayouts';
+
+interface LayoutTrayProps {
+  layouts: SavedLayout[];
+  selectedChip: number;
+  // Layout on the betting table, offered for saving
+  tableLayout: BetSelection[];
+  disabled: boolean;
+  onApply: (layout: SavedLayout) => void;
+  onSave: (name: string, bets: BetSelection[]) => void;
+  onRemove: (id: string) => void;
+  // Returns how many layouts were added; throws if the file is rejected
+  onImport: (contents: string) => number;
+}
+
+// Quick-pick favourites above the chip stack, with saving and sharing behind the ⋯ menu
+export function LayoutTray({ layouts, selectedChip, tableLayout, disabled, onApply, onSave, onRemove, onImport }: LayoutTrayProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (tableLayout.length === 0) return;
+    onSave(newName, tableLayout);
+    setNewName('');
+    setStatus({ text: 'Layout saved', isError: false });
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportLayouts(layouts)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'roulette-layouts.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = onImport(await file.text());
+      setStatus({ text: `Imported ${count} ${count === 1 ? 'layout' : 'layouts'}`, isError: false });
+    } catch (err) {
+      setStatus({ text: err instanceof Error ? err.message : 'Import failed', isError: true });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="relative flex flex-col items-center gap-1 mb-3 w-20">
+      {layouts.map(layout => (
+        <button
+          key={layout.id}
+          onClick={() => onApply(layout)}
+          disabled={disabled}
+          title={`${layout.name}: ${layout.bets.length} bets, $${layoutUnits(layout) * selectedChip} with $${selectedChip} chips`}
+          className="w-full px-1.5 py-1 bg-slate-700/80 hover:bg-slate-600 text-white text-[10px] font-semibold rounded truncate transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {layout.name}
+        </button>
+      ))}
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full px-1.5 py-1 text-amber-200/70 hover:text-amber-200 text-[10px] uppercase"
+        title="Saved layouts"
+      >
+        {layouts.length === 0 ? '+ Layouts' : '⋯'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-72 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-40 p-3 text-xs text-white">
+          <div className="text-slate-400 uppercase tracking-wider text-[10px] mb-2">Saved layouts</div>
+          <div className="flex flex-col gap-1 mb-3 max-h-48 overflow-y-auto">
+            {layouts.length === 0 && <div className="text-slate-500">Save the layout on the table to reuse it</div>}
+            {layouts.map(layout => (
+              <div key={layout.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-800">
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold truncate">{layout.name}</div>
+                  <div className="text-slate-500">
+                    {layout.bets.length} {layout.bets.length === 1 ? 'bet' : 'bets'} · {layoutUnits(layout)} chips
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRemove(layout.id)}
+                  className="text-slate-500 hover:text-red-400 px-1"
+                  title="Delete layout"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Name for the table layout"
+              maxLength={MAX_LAYOUT_NAME_LENGTH}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800 border border-slate-600 rounded text-white outline-none focus:border-amber-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={tableLayout.length === 0}
+              className="bg-amber-600 hover:bg-amber-500 px-3 py-1.5 rounded font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={layouts.length === 0}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded transition-colors"
+            >
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </div>
+
+          {status && <div className={`mt-2 ${status.isError ? 'text-red-400' : 'text-emerald-400'}`}>{status.text}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import { useState } from 'react';
+import { RoomLobby } from './RoomLobby';
+import type { LobbyRoom } from '../hooks/useLobby';
 
 interface ModeSelectionProps {
   poolLoading: boolean;
   availableChains: number;
+  lobbyRooms: LobbyRoom[];
+  lobbyRefreshing: boolean;
+  playerId: string;
   onSelectSolo: () => void;
   onSelectHost: () => Promise<void>;
   onSelectJoin: (chainId: string) => void;
@@ -11,6 +16,9 @@ interface ModeSelectionProps {
 export default function ModeSelection({
   poolLoading,
   availableChains,
+  lobbyRooms,
+  lobbyRefreshing,
+  playerId,
   onSelectSolo,
   onSelectHost,
   onSelectJoin
@@ -257,12 +265,15 @@ export default function ModeSelection({
         </div>
       </div>
 
+      {/* Live room list - one click to join */}
+      <RoomLobby rooms={lobbyRooms} playerId={playerId} isRefreshing={lobbyRefreshing} onJoin={onSelectJoin} />
+
       {/* Hint text */}
       <p
         className="mt-8 text-sm text-center max-w-md"
         style={{ color: '#d4af37', opacity: 0.7 }}
       >
-        Host a game to get a room code, then share it with friends so they can join!
+        Host a game to get a room code, then share it with friends - or pick a room above to join!
       </p>
     </div>
   );
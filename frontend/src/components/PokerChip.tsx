@@ -1,33 +1,30 @@
+import type { PointerEvent } from 'react';
+import { chipColors, chipLabel } from '../lib/chips';
+
 // Poker chip component with realistic styling
 export function PokerChip({
   value,
+  rack,
   isSelected,
   disabled,
-  onClick
+  onClick,
+  onPointerDown,
 }: {
   value: number;
+  // The room's rack, which sets the chip's colour (chips outside it are custom)
+  rack: number[];
   isSelected: boolean;
   disabled: boolean;
   onClick: () => void;
+  // Starts dragging the chip onto the table
+  onPointerDown?: (event: PointerEvent) => void;
 }) {
-  // Chip colors based on value
-  const getChipColors = (val: number) => {
-    switch(val) {
-      case 1: return { bg: '#e8e8e8', edge: '#c0c0c0', text: '#333' };
-      case 5: return { bg: '#e63946', edge: '#c1121f', text: '#fff' };
-      case 10: return { bg: '#2563eb', edge: '#1d4ed8', text: '#fff' };
-      case 25: return { bg: '#16a34a', edge: '#15803d', text: '#fff' };
-      case 50: return { bg: '#7c3aed', edge: '#6d28d9', text: '#fff' };
-      case 100: return { bg: '#1f2937', edge: '#111827', text: '#fff' };
-      default: return { bg: '#e8e8e8', edge: '#c0c0c0', text: '#333' };
-    }
-  };
-
-  const colors = getChipColors(value);
+  const colors = chipColors(value, rack);
 
   return (
     <button
       onClick={onClick}
+      onPointerDown={disabled ? undefined : onPointerDown}
       disabled={disabled}
       className={`relative transition-all duration-200 ${
         isSelected ? 'scale-110 z-20' : 'hover:scale-105'
@@ -35,6 +32,7 @@ export function PokerChip({
       style={{
         width: '70px',
         height: '70px',
+        touchAction: 'none',
       }}
     >
       {/* Outer ring with notches */}
@@ -79,7 +77,7 @@ export function PokerChip({
             className="font-black text-base"
             style={{ color: colors.text, textShadow: '0 1px 2px rgba(0,0,0,0.2)' }}
           >
-            {value}
+            {chipLabel(value)}
           </span>
         </div>
       </div>
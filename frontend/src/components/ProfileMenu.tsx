@@ -0,0 +1,164 @@
+import { useRef, useState } from 'react';
+import { useLinera } from '../hooks/useLinera';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const short = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+export function ProfileMenu() {
+  const { profiles, activeProfile, createProfile, switchProfile, removeProfile, exportProfile, importProfile } = useLinera();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCreate = () => {
+    createProfile(newName.trim());
+    setNewName('');
+  };
+
+  const handleExport = async () => {
+    if (!activeProfile) return;
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setStatus({ text: `Passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`, isError: true });
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const contents = await exportProfile(activeProfile.id, passphrase);
+      const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `roulette-profile-${activeProfile.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setStatus({ text: 'Backup saved - keep the passphrase safe', isError: false });
+    } catch (err) {
+      setStatus({ text: err instanceof Error ? err.message : 'Export failed', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const profile = await importProfile(await file.text(), passphrase);
+      setStatus({ text: `Imported ${profile.name}`, isError: false });
+      switchProfile(profile.id);
+    } catch (err) {
+      setStatus({ text: err instanceof Error ? err.message : 'Import failed', isError: true });
+    } finally {
+      setIsBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 bg-slate-700/80 hover:bg-slate-600 px-3 py-1.5 rounded-lg text-white text-xs font-semibold transition-colors"
+      >
+        <span>👤</span>
+        <span className="truncate max-w-[100px]">{activeProfile?.name ?? 'No profile'}</span>
+        <span className="text-white/60">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-50 p-3 text-xs text-white">
+          <div className="text-slate-400 uppercase tracking-wider text-[10px] mb-2">Profiles</div>
+          <div className="flex flex-col gap-1 mb-3 max-h-48 overflow-y-auto">
+            {profiles.length === 0 && <div className="text-slate-500">Created on first connect</div>}
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfile?.id;
+              return (
+                <div
+                  key={profile.id}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded ${isActive ? 'bg-blue-600/30' : 'hover:bg-slate-800 cursor-pointer'}`}
+                  onClick={() => !isActive && switchProfile(profile.id)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold truncate">{profile.name}{isActive && ' (active)'}</div>
+                    <div className="text-slate-500 font-mono truncate">
+                      {short(profile.owner)}{profile.chainId && ` · chain ${profile.chainId.slice(0, 8)}...`}
+                    </div>
+                  </div>
+                  {!isActive && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm(`Remove ${profile.name}? Without a backup its identity is gone for good.`)) removeProfile(profile.id);
+                      }}
+                      className="text-slate-500 hover:text-red-400 px-1"
+                      title="Remove profile"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New profile name"
+              maxLength={24}
+              className="flex-1 px-2 py-1.5 bg-slate-800 border border-slate-600 rounded text-white outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={handleCreate}
+              className="bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded font-semibold transition-colors"
+            >
+              Add
+            </button>
+          </div>
+
+          <div className="text-slate-400 uppercase tracking-wider text-[10px] mb-2">Encrypted backup</div>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Backup passphrase"
+            className="w-full px-2 py-1.5 mb-2 bg-slate-800 border border-slate-600 rounded text-white outline-none focus:border-blue-500"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={isBusy || !activeProfile}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-500 px-3 py-1.5 rounded font-semibold transition-colors disabled:opacity-50"
+            >
+              Export active
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy || !passphrase}
+              className="flex-1 bg-slate-600 hover:bg-slate-500 px-3 py-1.5 rounded font-semibold transition-colors disabled:opacity-50"
+            >
+              Import file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </div>
+
+          {status && (
+            <div className={`mt-2 ${status.isError ? 'text-red-400' : 'text-emerald-400'}`}>{status.text}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import {
+  ANNOUNCED_BETS,
+  MAX_NEIGHBOURS,
+  chipUnits,
+  neighboursBet,
+  type AnnouncedBetId,
+  type AnnouncedChip,
+} from '../lib/announcedBets';
+import { WHEEL_ORDER, isRed } from '../lib/rules';
+
+interface RacetrackProps {
+  isSpinning: boolean;
+  selectedChip: number;
+  onAnnouncedBet: (chips: AnnouncedChip[]) => void;
+}
+
+const colorClass = (num: number) => (num === 0 ? 'number-green' : isRed(num) ? 'number-red' : 'number-black');
+
+// Wheel order laid out as a stadium: 5..3 along the top, 26/0/32 round the right end,
+// 15..23 back along the bottom and 10 on the left end
+const TOP = WHEEL_ORDER.slice(19, 36);
+const RIGHT = [WHEEL_ORDER[36], WHEEL_ORDER[0], WHEEL_ORDER[1]];
+const BOTTOM = WHEEL_ORDER.slice(2, 18).reverse();
+const LEFT = [WHEEL_ORDER[18]];
+
+const SECTORS: { id: AnnouncedBetId; label: string; grow: number }[] = [
+  { id: 'tiers', label: 'Tiers', grow: 6 },
+  { id: 'orphelins', label: 'Orphelins', grow: 4 },
+  { id: 'voisins', label: 'Voisins', grow: 5 },
+  { id: 'jeuZero', label: 'Zéro', grow: 2 },
+];
+
+export function Racetrack({ isSpinning, selectedChip, onAnnouncedBet }: RacetrackProps) {
+  const [neighbours, setNeighbours] = useState(2);
+
+  const renderNumber = (num: number, className = '') => (
+    <button
+      key={num}
+      onClick={() => onAnnouncedBet(neighboursBet(num, neighbours))}
+      disabled={isSpinning}
+      title={`${num} and ${neighbours} neighbours · ${(2 * neighbours + 1) * selectedChip}`}
+      className={`${colorClass(num)} ${className} min-w-0 text-white text-xs font-bold rounded number-cell disabled:opacity-50 disabled:cursor-not-allowed`}
+    >
+      {num}
+    </button>
+  );
+
+  return (
+    <div
+      className="betting-felt p-3 shadow-inner"
+      style={{ border: '1px solid rgba(212, 175, 55, 0.15)', borderRadius: '12px' }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span
+          className="text-xs uppercase"
+          style={{ fontFamily: "'Cinzel', 'Times New Roman', serif", color: '#d4af37', letterSpacing: '1px' }}
+        >
+          Racetrack
+        </span>
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          <span>Neighbours</span>
+          <button
+            onClick={() => setNeighbours(n => Math.max(0, n - 1))}
+            disabled={neighbours === 0}
+            className="w-6 h-6 bg-gray-700 rounded disabled:opacity-40"
+          >
+            −
+          </button>
+          <span className="w-4 text-center font-bold" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+            {neighbours}
+          </span>
+          <button
+            onClick={() => setNeighbours(n => Math.min(MAX_NEIGHBOURS, n + 1))}
+            disabled={neighbours === MAX_NEIGHBOURS}
+            className="w-6 h-6 bg-gray-700 rounded disabled:opacity-40"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        <div className="flex">{LEFT.map(num => renderNumber(num, 'w-8 rounded-l-full'))}</div>
+
+        <div className="flex-1 flex flex-col gap-1">
+          <div className="flex gap-1">{TOP.map(num => renderNumber(num, 'flex-1 h-7'))}</div>
+          <div className="flex gap-1">
+            {SECTORS.map(({ id, label, grow }) => {
+              const bet = ANNOUNCED_BETS[id];
+              return (
+                <button
+                  key={id}
+                  onClick={() => onAnnouncedBet(bet.chips)}
+                  disabled={isSpinning}
+                  title={`${bet.name} · ${chipUnits(bet.chips)} chips · ${chipUnits(bet.chips) * selectedChip}`}
+                  className="h-10 bg-gray-700 text-white rounded-lg text-sm font-semibold outside-bet disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{ flexGrow: grow, flexBasis: 0, border: '1px solid rgba(212, 175, 55, 0.1)' }}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex gap-1">{BOTTOM.map(num => renderNumber(num, 'flex-1 h-7'))}</div>
+        </div>
+
+        <div className="flex flex-col gap-1 w-8">{RIGHT.map(num => renderNumber(num, 'flex-1'))}</div>
+      </div>
+    </div>
+  );
+}
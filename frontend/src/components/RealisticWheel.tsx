@@ -1,6 +1,7 @@
 // @ts-ignore
 import anime from 'animejs/lib/anime.es.js';
 import { useEffect, useRef, useCallback } from 'react';
+import { WHEEL_ORDER } from '../lib/rules';
 
 interface RealisticWheelProps {
   isSpinning: boolean;
@@ -11,13 +12,7 @@ interface RealisticWheelProps {
 // Animation duration in milliseconds
 const SPIN_DURATION = 5000;
 
-const rouletteWheelNumbers = [
-  0, 32, 15, 19, 4, 21, 2, 25,
-  17, 34, 6, 27, 13, 36, 11,
-  30, 8, 23, 10, 5, 24, 16, 33,
-  1, 20, 14, 31, 9, 22, 18, 29,
-  7, 28, 12, 35, 3, 26
-];
+const rouletteWheelNumbers = WHEEL_ORDER;
 
 export function RealisticWheel({ isSpinning, targetNumber, onAnimationComplete }: RealisticWheelProps) {
   const totalNumbers = 37;
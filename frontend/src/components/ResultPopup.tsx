@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { SpinResult } from '../hooks/useGame';
+import { isRed } from '../lib/rules';
 
 interface ResultPopupProps {
   result: SpinResult;
@@ -8,9 +9,6 @@ interface ResultPopupProps {
   onShown?: (isWin: boolean) => void;
 }
 
-const isRed = (num: number) =>
-  [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36].includes(num);
-
 const getColorClass = (num: number) => {
   if (num === 0) return 'bg-green-600';
   return isRed(num) ? 'bg-red-600' : 'bg-gray-800';
@@ -0,0 +1,109 @@
+import type { LobbyPhase, LobbyRoom } from '../hooks/useLobby';
+import { isRed } from '../lib/rules';
+
+interface RoomLobbyProps {
+  rooms: LobbyRoom[];
+  playerId: string;
+  isRefreshing: boolean;
+  onJoin: (chainId: string) => void;
+}
+
+const PHASE_STYLES: Record<LobbyPhase, { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'bg-slate-600/60 text-slate-200' },
+  betting: { label: 'Betting', className: 'bg-emerald-600/70 text-white animate-pulse' },
+  spinning: { label: 'Spinning', className: 'bg-amber-600/80 text-white' },
+};
+
+const numberClass = (num: number) => {
+  if (num === 0) return 'bg-green-700 text-green-100';
+  return isRed(num) ? 'bg-red-700 text-red-100' : 'bg-slate-950 text-gray-200';
+};
+
+const shortOwner = (owner: string) => `${owner.slice(0, 6)}...${owner.slice(-4)}`;
+
+export function RoomLobby({ rooms, playerId, isRefreshing, onJoin }: RoomLobbyProps) {
+  return (
+    <div className="mt-10 max-w-5xl w-full">
+      <div className="flex items-center justify-between mb-3">
+        <h2
+          className="text-lg font-bold"
+          style={{ fontFamily: "'Cinzel', 'Times New Roman', serif", letterSpacing: '3px', color: '#d4af37' }}
+        >
+          ROOMS
+        </h2>
+        <span className="text-xs text-slate-500">{isRefreshing ? 'Refreshing...' : 'Live'}</span>
+      </div>
+
+      {rooms.length === 0 ? (
+        <div className="text-center text-sm text-slate-500 bg-slate-900/60 rounded-xl py-6">
+          No rooms open yet - host one to get started
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {rooms.map(room => {
+            const phase = PHASE_STYLES[room.phase];
+            return (
+              <div
+                key={room.chainId}
+                className={`flex items-center gap-4 bg-slate-900/80 rounded-xl px-4 py-3 transition-opacity ${
+                  room.reachable ? '' : 'opacity-50'
+                }`}
+                style={{ border: '1px solid rgba(212, 175, 55, 0.15)' }}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-semibold truncate">{room.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${phase.className}`}>
+                      {room.reachable ? phase.label : 'Unavailable'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-400 font-mono truncate" title={room.chainId}>
+                    {room.host
+                      ? `Host ${room.host === playerId ? 'you' : shortOwner(room.host)}`
+                      : 'Open table'} · {room.chainId.slice(0, 12)}...
+                  </div>
+                </div>
+
+                <div className="flex gap-1">
+                  {room.recentNumbers.length === 0 ? (
+                    <span className="text-slate-500 text-xs">No spins yet</span>
+                  ) : room.recentNumbers.map((num, index) => (
+                    <span
+                      key={index}
+                      className={`${numberClass(num)} w-6 h-6 rounded-full flex items-center justify-center font-bold text-[10px] border border-white/10`}
+                    >
+                      {num}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="text-right w-20">
+                  <div className="text-white text-sm font-semibold">{room.playerCount}</div>
+                  <div className="text-slate-500 text-[10px] uppercase">Players</div>
+                </div>
+
+                <div className="text-right w-20">
+                  <div className="text-amber-300 text-sm font-semibold">{room.totalPot}</div>
+                  <div className="text-slate-500 text-[10px] uppercase">Pot</div>
+                </div>
+
+                <button
+                  onClick={() => onJoin(room.chainId)}
+                  disabled={!room.reachable}
+                  className="px-4 py-2 text-white text-xs font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:opacity-90"
+                  style={{
+                    fontFamily: "'Cinzel', 'Times New Roman', serif",
+                    letterSpacing: '2px',
+                    background: 'linear-gradient(135deg, #7c3aed 0%, #6d28d9 100%)'
+                  }}
+                >
+                  JOIN
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
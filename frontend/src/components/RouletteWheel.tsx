@@ -1,4 +1,5 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
+import { WHEEL_ORDER, isRed } from '../lib/rules';
 
 interface RouletteWheelProps {
   isSpinning: boolean;
@@ -6,14 +7,7 @@ interface RouletteWheelProps {
   onAnimationComplete?: () => void;
 }
 
-// European Roulette numbers in wheel order
-const wheelNumbers = [
-  0, 32, 15, 19, 4, 21, 2, 25, 17, 34, 6, 27, 13, 36, 11, 30, 8, 23, 10, 5, 24,
-  16, 33, 1, 20, 14, 31, 9, 22, 18, 29, 7, 28, 12, 35, 3, 26,
-];
-
-const isRed = (num: number) =>
-  [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36].includes(num);
+const wheelNumbers = WHEEL_ORDER;
 
 const getColor = (num: number): string => {
   if (num === 0) return '#15803d'; // green-700
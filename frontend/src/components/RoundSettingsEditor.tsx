@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import type { RoundSettings } from '../graphql/types';
+import {
+  MAX_BETTING_WINDOW_MS,
+  MAX_ROUND_PAUSE_MS,
+  MIN_BETTING_WINDOW_MS,
+  ROUND_SETTINGS_PRESETS,
+  isValidRoundSettings,
+} from '../lib/roundSettings';
+
+interface RoundSettingsEditorProps {
+  settings: RoundSettings;
+  // Settings can only change between rounds
+  locked: boolean;
+  onSave: (settings: RoundSettings) => Promise<boolean>;
+}
+
+const seconds = (ms: number) => ms / 1000;
+
+// The room's pace: betting window, pause between rounds and auto-deal (edited in seconds)
+export function RoundSettingsEditor({ settings, locked, onSave }: RoundSettingsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const valid = isValidRoundSettings(draft);
+
+  // Start from what the chain has whenever the editor is opened
+  const toggle = () => {
+    if (!open) setDraft(settings);
+    setOpen(!open);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    const saved = await onSave(draft);
+    setSaving(false);
+    setMessage(saved ? 'Round settings saved' : 'Not saved - settings can only change between rounds');
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={toggle}
+        className="text-xs text-amber-300/80 hover:text-amber-300 font-semibold"
+      >
+        Rounds: {seconds(settings.bettingWindowMs)}s betting{settings.autoDeal ? ', auto-deal' : ''} {open ? '▴' : '▾'}
+      </button>
+      {message && !open && <span className="ml-3 text-xs text-amber-200/70">{message}</span>}
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="flex gap-2">
+            {ROUND_SETTINGS_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setDraft(preset.settings)}
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded transition-colors"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <label className="text-[10px] text-amber-200/70 uppercase">
+              Betting window (s)
+              <input
+                type="number"
+                min={seconds(MIN_BETTING_WINDOW_MS)}
+                max={seconds(MAX_BETTING_WINDOW_MS)}
+                value={seconds(draft.bettingWindowMs)}
+                onChange={(e) => setDraft({ ...draft, bettingWindowMs: (parseInt(e.target.value) || 0) * 1000 })}
+                className="w-full mt-1 bg-slate-800 text-white text-xs p-1.5 rounded"
+              />
+            </label>
+            <label className="text-[10px] text-amber-200/70 uppercase">
+              Pause between rounds (s)
+              <input
+                type="number"
+                min="0"
+                max={seconds(MAX_ROUND_PAUSE_MS)}
+                value={seconds(draft.roundPauseMs)}
+                onChange={(e) => setDraft({ ...draft, roundPauseMs: (parseInt(e.target.value) || 0) * 1000 })}
+                className="w-full mt-1 bg-slate-800 text-white text-xs p-1.5 rounded"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-white/80 pb-1.5">
+              <input
+                type="checkbox"
+                checked={draft.autoDeal}
+                onChange={(e) => setDraft({ ...draft, autoDeal: e.target.checked })}
+              />
+              Auto-deal
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={save}
+              disabled={!valid || locked || saving}
+              className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save round settings'}
+            </button>
+            {!valid && (
+              <span className="text-xs text-red-400">
+                Betting {seconds(MIN_BETTING_WINDOW_MS)}-{seconds(MAX_BETTING_WINDOW_MS)}s, pause up to {seconds(MAX_ROUND_PAUSE_MS)}s
+              </span>
+            )}
+            {valid && locked && <span className="text-xs text-amber-200/70">Wait until the bets are settled</span>}
+            {message && <span className="text-xs text-amber-200/70">{message}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
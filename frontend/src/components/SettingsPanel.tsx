@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useLinera } from '../hooks/useLinera';
+import type { RuntimeConfig } from '../lib/runtimeConfig';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof RuntimeConfig; label: string; placeholder: string; hint?: string }[] = [
+  { key: 'nodeUrl', label: 'Node URL', placeholder: 'http://localhost:8080' },
+  { key: 'faucetUrl', label: 'Faucet URL', placeholder: 'http://localhost:8079' },
+  { key: 'defaultChain', label: 'Default chain', placeholder: '64 hex characters', hint: 'Used when the faucet is unavailable' },
+  { key: 'hostChain', label: 'Host chain', placeholder: 'Defaults to the default chain', hint: 'Room for solo play' },
+  { key: 'appId', label: 'Application id', placeholder: 'Roulette application id' },
+];
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, appId, saveConfig, resetConfig } = useLinera();
+  const [draft, setDraft] = useState<RuntimeConfig>({ ...config, appId });
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      await saveConfig({
+        ...draft,
+        nodeUrl: draft.nodeUrl.trim().replace(/\/$/, ''),
+        faucetUrl: draft.faucetUrl.trim().replace(/\/$/, ''),
+        defaultChain: draft.defaultChain.trim(),
+        hostChain: draft.hostChain.trim(),
+        appId: draft.appId.trim(),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save settings');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleReset = () => {
+    resetConfig();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-8 rounded-2xl max-w-lg w-full border border-white/10 shadow-2xl">
+        <h2 className="text-white text-2xl font-bold mb-1">Network Settings</h2>
+        <p className="text-gray-400 text-xs mb-6">
+          Saved in this browser and applied over the build and /config.json values. Saving reconnects.
+        </p>
+        <div className="space-y-4">
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="text-gray-400 text-sm block mb-1">
+                {field.label}
+                {field.hint && <span className="text-gray-500 text-xs ml-2">{field.hint}</span>}
+              </label>
+              <input
+                type="text"
+                value={draft[field.key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-full bg-gray-700 text-white p-2 rounded font-mono text-xs"
+                placeholder={field.placeholder}
+                spellCheck={false}
+              />
+            </div>
+          ))}
+
+          {error && <div className="text-red-400 text-sm break-words">{error}</div>}
+
+          <div className="flex gap-4">
+            <button
+              onClick={handleReset}
+              className="bg-gray-700 text-white px-4 py-3 rounded font-semibold hover:bg-gray-600"
+              title="Forget this browser's overrides"
+            >
+              Reset
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-600 text-white py-3 rounded font-semibold hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isChecking}
+              className="flex-1 bg-green-600 text-white py-3 rounded font-semibold hover:bg-green-700 disabled:opacity-50"
+            >
+              {isChecking ? 'Checking...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { KEY_ACTIONS, actionForKey, isBindableKey, keyLabel, type KeyAction, type KeyBindings } from '../lib/keyBindings';
+
+interface ShortcutsOverlayProps {
+  bindings: KeyBindings;
+  onBind: (action: KeyAction, key: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// Lists the shortcuts; clicking a key waits for the next press to rebind it
+export function ShortcutsOverlay({ bindings, onBind, onReset, onClose }: ShortcutsOverlayProps) {
+  const [listening, setListening] = useState<KeyAction | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+      if (event.key === 'Escape') {
+        if (listening) setListening(null);
+        else onClose();
+      } else if (listening && isBindableKey(event.key)) {
+        onBind(listening, event.key);
+        setListening(null);
+      } else if (!listening && actionForKey(bindings, event.key) === 'help') {
+        onClose();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [listening, bindings, onBind, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/10 shadow-2xl space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Keyboard Shortcuts</h2>
+          <button onClick={onClose} className="text-white/60 hover:text-white text-xl">×</button>
+        </div>
+        <p className="text-xs text-white/60">
+          Click a key to change it, then press the new key (Escape cancels). A key already in use swaps with it.
+        </p>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1.5">
+          {KEY_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between text-sm text-white/80">
+              <span>{label}</span>
+              <button
+                onClick={() => setListening(action)}
+                className={`min-w-[3rem] px-2 py-0.5 rounded border text-xs font-semibold transition-colors ${
+                  listening === action
+                    ? 'border-amber-400 text-amber-300 animate-pulse'
+                    : 'border-white/20 bg-slate-700 text-white hover:bg-slate-600'
+                }`}
+                style={{ fontFamily: "'JetBrains Mono', monospace" }}
+              >
+                {listening === action ? '...' : keyLabel(bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onReset}
+          className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
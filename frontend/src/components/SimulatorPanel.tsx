@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import type { BetSelection } from '../graphql/types';
+import { useSimulator } from '../hooks/useSimulator';
+import { MAX_SIMULATED_SPINS, isValidRequest, type SimulationReport } from '../lib/simulator';
+import { DEFAULT_AUTOPLAY_CONFIG } from '../lib/strategies';
+import { StrategyForm } from './StrategyForm';
+
+interface SimulatorPanelProps {
+  // Layout on the betting table, if any, to simulate as a flat strategy
+  tableLayout: BetSelection[];
+  onClose: () => void;
+}
+
+const RUN_FIELDS: { key: 'bankroll' | 'sessions' | 'seed'; label: string }[] = [
+  { key: 'bankroll', label: 'Bankroll' },
+  { key: 'sessions', label: 'Sessions' },
+  { key: 'seed', label: 'Seed' },
+];
+
+const money = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+function ReportView({ report }: { report: SimulationReport }) {
+  const tallest = Math.max(...report.histogram.map(bin => bin.count));
+  const stats = [
+    { label: 'EV per spin', value: money(report.evPerSpin) },
+    { label: 'Exact EV per spin', value: report.exactEvPerSpin === null ? '-' : money(report.exactEvPerSpin) },
+    { label: 'Mean per session', value: money(report.meanNet) },
+    { label: 'Std deviation', value: money(Math.sqrt(report.variance)) },
+    { label: 'Risk of ruin', value: percent(report.riskOfRuin) },
+    { label: 'Spins played', value: report.spins.toLocaleString() },
+    { label: 'Mean drawdown', value: money(report.meanDrawdown) },
+    { label: 'Max drawdown', value: money(report.maxDrawdown) },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+        {stats.map(({ label, value }) => (
+          <div key={label} className="bg-black/30 rounded p-2">
+            <div className="text-[10px] text-amber-200/70 uppercase">{label}</div>
+            <div className="text-sm text-white">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="text-[10px] text-amber-200/70 uppercase mb-1">Session results (variance {report.variance.toFixed(0)})</div>
+        <div className="flex items-end gap-px h-28 bg-black/30 rounded p-2">
+          {report.histogram.map(bin => (
+            <div
+              key={bin.from}
+              title={`${money(bin.from)} to ${money(bin.to)}: ${bin.count} sessions`}
+              className={`flex-1 rounded-t ${bin.to <= 0 ? 'bg-red-500/70' : bin.from >= 0 ? 'bg-emerald-500/70' : 'bg-amber-400/70'}`}
+              style={{ height: `${(bin.count / tallest) * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-white/50 mt-1">
+          <span>{money(report.histogram[0].from)}</span>
+          <span>{money(report.histogram[report.histogram.length - 1].to)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SimulatorPanel({ tableLayout, onClose }: SimulatorPanelProps) {
+  const [config, setConfig] = useState({ ...DEFAULT_AUTOPLAY_CONFIG, maxSpins: 100 });
+  const [run, setRun] = useState({ bankroll: 1000, sessions: 1000, seed: 1 });
+  const simulator = useSimulator();
+
+  const request = { config, ...run };
+  const valid = isValidRequest(request);
+  const running = simulator.progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-white/10 shadow-2xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Strategy Simulator</h2>
+          <button onClick={onClose} className="text-white/60 hover:text-white text-xl">×</button>
+        </div>
+        <p className="text-xs text-white/60">
+          Plays the strategy offline against the roulette rules, one session per bankroll, until a stop condition or
+          ruin. The same seed gives the same results.
+        </p>
+
+        <button
+          onClick={() => setConfig({ ...config, strategy: 'flat', layout: tableLayout })}
+          disabled={tableLayout.length === 0 || running}
+          className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Use the table layout ({tableLayout.length} {tableLayout.length === 1 ? 'bet' : 'bets'})
+        </button>
+
+        <StrategyForm config={config} disabled={running} onChange={setConfig} />
+
+        <div className="grid grid-cols-3 gap-2">
+          {RUN_FIELDS.map(({ key, label }) => (
+            <label key={key} className="text-[10px] text-amber-200/70 uppercase">
+              {label}
+              <input
+                type="number"
+                min="0"
+                value={run[key]}
+                disabled={running}
+                onChange={(e) => setRun({ ...run, [key]: parseInt(e.target.value) || 0 })}
+                className="w-full mt-1 bg-slate-800 text-white text-xs p-1.5 rounded"
+              />
+            </label>
+          ))}
+        </div>
+        {!valid && (
+          <div className="text-xs text-red-400">
+            Needs a valid strategy, at least one spin and one session, and no more than{' '}
+            {MAX_SIMULATED_SPINS.toLocaleString()} spins in total
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          {running ? (
+            <>
+              <div className="flex-1 h-2 bg-slate-700 rounded overflow-hidden">
+                <div className="h-full bg-amber-500" style={{ width: `${(simulator.progress ?? 0) * 100}%` }} />
+              </div>
+              <button
+                onClick={simulator.cancel}
+                className="px-3 py-1 bg-red-600 hover:bg-red-500 text-white text-xs font-semibold rounded transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => simulator.run(request)}
+              disabled={!valid}
+              className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Run simulation
+            </button>
+          )}
+          {simulator.error && <span className="text-xs text-red-400">{simulator.error}</span>}
+        </div>
+
+        {simulator.report && <ReportView report={simulator.report} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import type { BetType } from '../graphql/types';
+import { BET_TYPES, isValidSelection } from '../lib/rules';
+import { EVEN_MONEY_BETS, STRATEGIES, type AutoplayConfig, type StrategyId } from '../lib/strategies';
+import { betTypeName } from '../lib/tableLimits';
+
+// Strategy, stake and stop-condition fields shared by autoplay and the simulator
+
+interface StrategyFormProps {
+  config: AutoplayConfig;
+  disabled: boolean;
+  onChange: (config: AutoplayConfig) => void;
+}
+
+const STOP_FIELDS: { key: 'maxSpins' | 'stopLoss' | 'takeProfit' | 'maxBet'; label: string }[] = [
+  { key: 'maxSpins', label: 'Spins' },
+  { key: 'stopLoss', label: 'Stop-loss' },
+  { key: 'takeProfit', label: 'Take-profit' },
+  { key: 'maxBet', label: 'Max bet' },
+];
+
+const parseNumbers = (text: string) =>
+  text.split(/[\s,/]+/).filter(Boolean).map(Number).filter(n => Number.isInteger(n));
+
+// Straight and the inside bets name their numbers; outside bets cover a fixed set
+const takesNumbers = (betType: BetType) =>
+  !EVEN_MONEY_BETS.includes(betType) && !betType.includes('DOZEN') && !betType.includes('COLUMN');
+
+const inputClass = 'w-full mt-1 bg-slate-800 text-white text-xs p-1.5 rounded';
+
+export function StrategyForm({ config, disabled, onChange }: StrategyFormProps) {
+  const [lineText, setLineText] = useState(config.line.join(', '));
+  // Flat layout row being added
+  const [rowType, setRowType] = useState<BetType>('STRAIGHT');
+  const [rowNumbers, setRowNumbers] = useState('');
+  const [rowAmount, setRowAmount] = useState(5);
+
+  const strategy = STRATEGIES.find(s => s.id === config.strategy)!;
+  const rowSelection = takesNumbers(rowType) ? parseNumbers(rowNumbers) : [];
+  const rowValid = rowAmount >= 1 && isValidSelection(rowType, rowSelection);
+
+  const changeLine = (text: string) => {
+    setLineText(text);
+    onChange({ ...config, line: parseNumbers(text) });
+  };
+
+  const addRow = () => {
+    if (!rowValid) return;
+    onChange({ ...config, layout: [...config.layout, { betType: rowType, numbers: rowSelection, amount: rowAmount }] });
+    setRowNumbers('');
+  };
+
+  const removeRow = (index: number) =>
+    onChange({ ...config, layout: config.layout.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-[10px] text-amber-200/70 uppercase">
+        Strategy
+        <select
+          value={config.strategy}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...config, strategy: e.target.value as StrategyId })}
+          className={inputClass}
+        >
+          {STRATEGIES.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      </label>
+      <div className="text-[10px] text-white/50">{strategy.description}</div>
+
+      {config.strategy === 'flat' ? (
+        <div className="space-y-1">
+          {config.layout.map((bet, index) => (
+            <div key={index} className="flex items-center justify-between bg-black/30 px-2 py-1 rounded text-xs text-white">
+              <span>
+                {betTypeName(bet.betType)}
+                {bet.numbers.length > 0 && ` ${bet.numbers.join('/')}`} · ${bet.amount}
+              </span>
+              <button onClick={() => removeRow(index)} disabled={disabled} className="text-red-300 hover:text-red-200">
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-1">
+            <select
+              value={rowType}
+              onChange={(e) => setRowType(e.target.value as BetType)}
+              className="bg-slate-800 text-white text-xs p-1.5 rounded"
+            >
+              {BET_TYPES.map(betType => (
+                <option key={betType} value={betType}>{betTypeName(betType)}</option>
+              ))}
+            </select>
+            <input
+              value={rowNumbers}
+              disabled={!takesNumbers(rowType)}
+              placeholder="Numbers"
+              onChange={(e) => setRowNumbers(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-800 text-white text-xs p-1.5 rounded"
+            />
+            <input
+              type="number"
+              min="1"
+              value={rowAmount}
+              onChange={(e) => setRowAmount(parseInt(e.target.value) || 0)}
+              className="w-14 bg-slate-800 text-white text-xs p-1.5 rounded"
+            />
+            <button
+              onClick={addRow}
+              disabled={!rowValid || disabled}
+              className="px-2 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-[10px] text-amber-200/70 uppercase">
+            Bet
+            <select
+              value={config.betType}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...config, betType: e.target.value as BetType })}
+              className={inputClass}
+            >
+              {EVEN_MONEY_BETS.map(betType => (
+                <option key={betType} value={betType}>{betTypeName(betType)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-[10px] text-amber-200/70 uppercase">
+            Unit
+            <input
+              type="number"
+              min="1"
+              value={config.unit}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...config, unit: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </label>
+          {config.strategy === 'labouchere' && (
+            <label className="col-span-2 text-[10px] text-amber-200/70 uppercase">
+              Line (units)
+              <input
+                value={lineText}
+                disabled={disabled}
+                onChange={(e) => changeLine(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        {STOP_FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-[10px] text-amber-200/70 uppercase">
+            {label}
+            <input
+              type="number"
+              min="0"
+              value={config[key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...config, [key]: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="text-[10px] text-white/40">0 turns a stop condition off</div>
+    </div>
+  );
+}
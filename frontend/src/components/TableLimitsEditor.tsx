@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import type { TableLimits } from '../graphql/types';
+import { MAX_CHIP_VALUES, TABLE_LIMIT_PRESETS, isValidLimits } from '../lib/tableLimits';
+
+interface TableLimitsEditorProps {
+  limits: TableLimits;
+  // Limits can only change between rounds
+  locked: boolean;
+  onSave: (limits: TableLimits) => Promise<boolean>;
+}
+
+const FIELDS: { key: 'minBet' | 'maxBet' | 'maxStraight' | 'maxRoundStake'; label: string }[] = [
+  { key: 'minBet', label: 'Min bet' },
+  { key: 'maxBet', label: 'Max bet' },
+  { key: 'maxStraight', label: 'Max straight' },
+  { key: 'maxRoundStake', label: 'Max per round' },
+];
+
+const parseChips = (text: string) =>
+  text.split(/[\s,]+/).filter(Boolean).map(Number).filter(n => Number.isInteger(n));
+
+export function TableLimitsEditor({ limits, locked, onSave }: TableLimitsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(limits);
+  const [chipsText, setChipsText] = useState(limits.chipValues.join(', '));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const valid = isValidLimits(draft);
+
+  const pick = (next: TableLimits) => {
+    setDraft(next);
+    setChipsText(next.chipValues.join(', '));
+  };
+
+  // Start from what the chain has whenever the editor is opened
+  const toggle = () => {
+    if (!open) pick(limits);
+    setOpen(!open);
+  };
+
+  const changeChips = (text: string) => {
+    setChipsText(text);
+    setDraft({ ...draft, chipValues: parseChips(text) });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    const saved = await onSave(draft);
+    setSaving(false);
+    setMessage(saved ? 'Limits saved' : 'Not saved - limits can only change between rounds');
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={toggle}
+        className="text-xs text-amber-300/80 hover:text-amber-300 font-semibold"
+      >
+        Table limits {open ? '▴' : '▾'}
+      </button>
+      {message && !open && <span className="ml-3 text-xs text-amber-200/70">{message}</span>}
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="flex gap-2">
+            {TABLE_LIMIT_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => pick(preset.limits)}
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded transition-colors"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-[10px] text-amber-200/70 uppercase">
+                {label}
+                <input
+                  type="number"
+                  min="1"
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value) || 0 })}
+                  className="w-full mt-1 bg-slate-800 text-white text-xs p-1.5 rounded"
+                />
+              </label>
+            ))}
+          </div>
+          <label className="block text-[10px] text-amber-200/70 uppercase">
+            Chips (up to {MAX_CHIP_VALUES}, ascending)
+            <input
+              value={chipsText}
+              onChange={(e) => changeChips(e.target.value)}
+              className="w-full mt-1 bg-slate-800 text-white text-xs p-1.5 rounded"
+            />
+          </label>
+          {draft.betLimits.length > 0 && (
+            <div className="text-[10px] text-amber-200/60">
+              Keeps {draft.betLimits.length} per-bet-type limits from the preset
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={save}
+              disabled={!valid || locked || saving}
+              className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save limits'}
+            </button>
+            {!valid && <span className="text-xs text-red-400">Minimums must be at least 1 and below the maximums, and chips ascending up to the max bet</span>}
+            {valid && locked && <span className="text-xs text-amber-200/70">Wait until the bets are settled</span>}
+            {message && <span className="text-xs text-amber-200/70">{message}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,63 @@
+import { useEffect, useState } from 'react';
 import { useLinera } from '../hooks/useLinera';
+import type { LinkState } from '../transport/linkHealth';
+import { ProfileMenu } from './ProfileMenu';
+
+const LINK_STYLES: Record<LinkState, { label: string; badge: string; dot: string }> = {
+  connected: { label: 'Live', badge: 'bg-emerald-600/80', dot: 'bg-green-400 animate-pulse' },
+  degraded: { label: 'Slow', badge: 'bg-amber-600/80', dot: 'bg-yellow-300' },
+  reconnecting: { label: 'Reconnecting', badge: 'bg-orange-700/80', dot: 'bg-orange-300 animate-ping' },
+  connecting: { label: 'Connecting', badge: 'bg-blue-600/80', dot: 'bg-blue-300 animate-pulse' },
+  offline: { label: 'Offline', badge: 'bg-slate-600/80', dot: 'bg-slate-300' },
+};
+
+const formatAgo = (since: number, now: number) => {
+  const seconds = Math.max(0, Math.round((now - since) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ago`;
+};
 
 export function WalletConnect() {
-  const { isConnected, isLoading, error, connect, disconnect, chainId } = useLinera();
+  const { isConnected, isLoading, error, connect, disconnect, chainId, linkHealth, queuedMutations } = useLinera();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick so "last sync" stays current
+  useEffect(() => {
+    if (!isConnected) return;
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, [isConnected]);
 
   if (isConnected) {
+    const style = LINK_STYLES[linkHealth.state];
+    const details = [
+      linkHealth.latencyMs !== null ? `${linkHealth.latencyMs} ms` : null,
+      linkHealth.lastSyncAt !== null ? `synced ${formatAgo(linkHealth.lastSyncAt, now)}` : 'not synced yet',
+      queuedMutations > 0 ? `${queuedMutations} queued` : null,
+    ].filter(Boolean).join(' · ');
+
     return (
       <div className="flex items-center gap-3">
-        <div className="flex items-center gap-2 bg-emerald-600/80 px-3 py-1.5 rounded-lg">
-          <span className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></span>
-          <span
-            className="text-white text-xs truncate max-w-[100px]"
-            style={{ fontFamily: "'JetBrains Mono', monospace" }}
-          >
-            {chainId?.slice(0, 8)}...
-          </span>
+        <ProfileMenu />
+        <div
+          className={`flex items-center gap-2 ${style.badge} px-3 py-1.5 rounded-lg`}
+          title={linkHealth.reason ?? chainId}
+        >
+          <span className={`w-2 h-2 ${style.dot} rounded-full`}></span>
+          <div className="flex flex-col leading-tight">
+            <span className="text-white text-xs font-semibold">
+              {style.label}
+              <span
+                className="font-normal ml-2 truncate max-w-[100px]"
+                style={{ fontFamily: "'JetBrains Mono', monospace" }}
+              >
+                {chainId?.slice(0, 8)}...
+              </span>
+            </span>
+            <span className="text-white/70 text-[10px]" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+              {details}
+            </span>
+          </div>
         </div>
         <button
           onClick={disconnect}
@@ -27,6 +71,7 @@ export function WalletConnect() {
 
   return (
     <div className="flex items-center gap-2">
+      <ProfileMenu />
       {error && (
         <span className="text-red-400 text-xs truncate max-w-[150px]" title={error}>
           Error
@@ -1,11 +1,25 @@
-import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useReducer, useRef, ReactNode } from 'react';
 import type { Room, RoomsConfig } from '../types/rooms';
 import type { PooledChain, ChainPool } from '../types/chainPool';
+import { createRouletteClient, type GraphQLRequest, type RouletteClient } from '../graphql/client';
+import { TOTAL_POT } from '../graphql/documents';
+import { createQueryCache, queryCacheKey } from '../graphql/queryCache';
+import { createTransport, NetworkError, type RoomSubscriptionHandlers } from '../transport';
+import { INITIAL_LINK_HEALTH, linkHealthReducer, type LinkHealth } from '../transport/linkHealth';
+import { createMutationQueue } from '../transport/mutationQueue';
+import { clearSession, loadSession, saveSession, type StoredSession } from '../lib/session';
+import { claimRoomLease, isLeaseActive, LEASE_HEARTBEAT_MS } from '../lib/lease';
+import {
+  layoutsKey, loadActiveProfileId, loadProfiles, newProfile, saveActiveProfileId, saveProfiles, statsKey, type Profile,
+} from '../lib/profiles';
+import { decryptBackup, encryptBackup } from '../lib/profileBackup';
+import {
+  BUILD_CONFIG, clearConfigOverrides, configProblems, loadConfigOverrides, loadDeployedConfig, saveConfigOverrides,
+  type RuntimeConfig,
+} from '../lib/runtimeConfig';
 
-const LOCAL_NODE = import.meta.env.VITE_NODE_URL || 'http://localhost:8080';
-const LOCAL_FAUCET = import.meta.env.VITE_FAUCET_URL || 'http://localhost:8079';
-const DEFAULT_CHAIN = import.meta.env.VITE_DEFAULT_CHAIN || '';
-const HOST_CHAIN = import.meta.env.VITE_HOST_CHAIN || DEFAULT_CHAIN;
+// How often the mode selection screen re-reads the pool's leases
+const POOL_REFRESH_MS = 15000;
 
 type GameMode = 'selecting' | 'solo' | 'host' | 'join';
 
@@ -15,7 +29,13 @@ interface LineraContextType {
   playerId: string;
   appId: string;
   setAppId: (id: string) => void;
+  config: RuntimeConfig;
+  configLoaded: boolean;
+  saveConfig: (config: RuntimeConfig) => Promise<void>;
+  resetConfig: () => void;
   isConnected: boolean;
+  linkHealth: LinkHealth;
+  queuedMutations: number;
   isLoading: boolean;
   error: string | null;
   gameMode: GameMode;
@@ -34,12 +54,22 @@ interface LineraContextType {
   hostGame: () => Promise<string | null>;
   joinGame: (chainId: string) => boolean;
   leaveGame: () => void;
+  restoredSession: StoredSession | null;
+  profiles: Profile[];
+  activeProfile: Profile | null;
+  createProfile: (name: string) => void;
+  switchProfile: (id: string) => void;
+  removeProfile: (id: string) => void;
+  exportProfile: (id: string, passphrase: string) => Promise<string>;
+  importProfile: (contents: string, passphrase: string) => Promise<Profile>;
   connect: () => Promise<void>;
   disconnect: () => void;
-  query: <T = any>(graphqlQuery: string, variables?: Record<string, unknown>) => Promise<T>;
-  queryHost: <T = any>(graphqlQuery: string, variables?: Record<string, unknown>) => Promise<T>;
-  mutate: <T = any>(mutation: string, variables?: Record<string, unknown>) => Promise<T>;
-  subscribe: (callback: (data: unknown) => void) => () => void;
+  query: GraphQLRequest;
+  queryHost: GraphQLRequest;
+  mutate: GraphQLRequest;
+  client: RouletteClient;
+  clientFor: (chainId: string) => RouletteClient;
+  subscribe: (handlers: RoomSubscriptionHandlers) => () => void;
 }
 
 const LineraContext = createContext<LineraContextType | null>(null);
@@ -47,7 +77,18 @@ const LineraContext = createContext<LineraContextType | null>(null);
 export function LineraProvider({ children }: { children: ReactNode }) {
   const [chainId, setChainId] = useState<string>('');
   const [playerId, setPlayerId] = useState<string>('');
-  const [appId, setAppId] = useState<string>(import.meta.env.VITE_APP_ID || '');
+  const [config, setConfig] = useState<RuntimeConfig>(() => ({ ...BUILD_CONFIG, ...loadConfigOverrides() }));
+  const [deployedConfig, setDeployedConfig] = useState<RuntimeConfig>(BUILD_CONFIG);
+  const [configLoaded, setConfigLoaded] = useState(false);
+  const transport = useMemo(
+    () => createTransport({ nodeUrl: config.nodeUrl, faucetUrl: config.faucetUrl }),
+    [config.nodeUrl, config.faucetUrl]
+  );
+  const appId = config.appId || transport.defaultAppId || '';
+  // Room query results; a new network means nothing cached is valid any more
+  const queryCache = useMemo(() => createQueryCache(), [transport]);
+  const defaultChain = config.defaultChain;
+  const hostChain = config.hostChain || config.defaultChain;
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -58,40 +99,82 @@ export function LineraProvider({ children }: { children: ReactNode }) {
   const [roomsLoading, setRoomsLoading] = useState(true);
   const [chainPool, setChainPool] = useState<PooledChain[]>([]);
   const [poolLoading, setPoolLoading] = useState(true);
+  const chainPoolRef = useRef<PooledChain[]>([]);
   const [hostedChainId, setHostedChainId] = useState<string | null>(null);
   const [joinedChainId, setJoinedChainId] = useState<string | null>(null);
+  chainPoolRef.current = chainPool;
+  const [linkHealth, dispatchLink] = useReducer(linkHealthReducer, INITIAL_LINK_HEALTH);
+  const [queuedMutations, setQueuedMutations] = useState(0);
+  const linkHealthRef = useRef(linkHealth);
+  linkHealthRef.current = linkHealth;
+  const [mutationQueue] = useState(() => createMutationQueue(setQueuedMutations));
+  // Session found on page load; applied once the same owner is connected again
+  const [savedSession] = useState(loadSession);
+  const [restoredSession, setRestoredSession] = useState<StoredSession | null>(null);
+  const autoConnectedRef = useRef(false);
+  const sessionAppliedRef = useRef(false);
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(loadActiveProfileId);
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0] ?? null;
+  const activeProfileRef = useRef(activeProfile);
+  activeProfileRef.current = activeProfile;
+  // Set when the identity or network changes under a live connection; reconnects once that has rendered
+  const reconnectPendingRef = useRef(false);
 
-  const query = useCallback(async (graphqlQuery: string, variables?: Record<string, unknown>) => {
-    if (!chainId || !appId) throw new Error('Not connected');
-    const res = await fetch(`${LOCAL_NODE}/chains/${chainId}/applications/${appId}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ query: graphqlQuery, variables }),
+  const setAppId = useCallback((id: string) => setConfig(prev => ({ ...prev, appId: id })), []);
+
+  // /config.json can point a prebuilt bundle at another network; saved overrides still win
+  useEffect(() => {
+    loadDeployedConfig().then(deployed => {
+      setDeployedConfig(deployed);
+      setConfig({ ...deployed, ...loadConfigOverrides() });
+      setConfigLoaded(true);
     });
-    if (!res.ok) throw new Error(`Request failed: ${res.statusText}`);
-    const result = await res.json();
-    if (result.errors) throw new Error(result.errors[0]?.message || 'GraphQL error');
-    return result.data;
-  }, [chainId, appId]);
+  }, []);
+
+  // Every node request goes through here: fails fast while backing off, and feeds the link state machine
+  const trackedRequest = useCallback(async <TData,>(targetChainId: string, document: string, variables?: unknown): Promise<TData> => {
+    const { state, retryAt } = linkHealthRef.current;
+    if (state === 'reconnecting' && (retryAt === null || Date.now() < retryAt)) {
+      const wait = retryAt === null ? 'waiting for network' : `retrying in ${Math.ceil((retryAt - Date.now()) / 1000)}s`;
+      throw new NetworkError(`Node unreachable - ${wait}`);
+    }
+
+    const started = performance.now();
+    try {
+      const data = await transport.request<TData>(targetChainId, appId, document, variables);
+      dispatchLink({ type: 'success', latencyMs: Math.round(performance.now() - started), at: Date.now() });
+      return data;
+    } catch (err) {
+      if (err instanceof NetworkError) dispatchLink({ type: 'failure', reason: err.message, at: Date.now() });
+      throw err;
+    }
+  }, [transport, appId]);
+
+  const query = useCallback<GraphQLRequest>(async (document, variables) => {
+    if (!chainId || !appId) throw new Error('Not connected');
+    return trackedRequest(chainId, document, variables);
+  }, [chainId, appId, trackedRequest]);
 
   useEffect(() => {
+    if (!configLoaded) return;
     const loadRooms = async () => {
       try {
         const res = await fetch('/rooms.json');
         if (!res.ok) {
-          if (HOST_CHAIN) setRooms([{ id: 1, name: 'Default Room', chainId: HOST_CHAIN }]);
+          if (hostChain) setRooms([{ id: 1, name: 'Default Room', chainId: hostChain }]);
           return;
         }
         const config: RoomsConfig = await res.json();
         setRooms(config.rooms.filter(r => r.chainId?.length === 64));
       } catch {
-        if (HOST_CHAIN) setRooms([{ id: 1, name: 'Default Room', chainId: HOST_CHAIN }]);
+        if (hostChain) setRooms([{ id: 1, name: 'Default Room', chainId: hostChain }]);
       } finally {
         setRoomsLoading(false);
       }
     };
     loadRooms();
-  }, []);
+  }, [configLoaded, hostChain]);
 
   useEffect(() => {
     const loadPool = async () => {
@@ -106,98 +189,151 @@ export function LineraProvider({ children }: { children: ReactNode }) {
     loadPool();
   }, []);
 
-  const queryHost = useCallback(async (graphqlQuery: string, variables?: Record<string, unknown>) => {
+  // Chain that holds the room's game state (where queries, mutations and subscriptions go)
+  const roomChainId = gameMode === 'join' && joinHostChainId ? joinHostChainId
+    : gameMode === 'host' && hostedChainId ? hostedChainId
+    : (hostChain || chainId);
+
+  const requestHost = useCallback<GraphQLRequest>(async (document, variables) => {
     if (!appId) throw new Error('Not connected');
-    const hostId = gameMode === 'join' && joinHostChainId ? joinHostChainId : (HOST_CHAIN || chainId);
-    const res = await fetch(`${LOCAL_NODE}/chains/${hostId}/applications/${appId}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ query: graphqlQuery, variables }),
-    });
-    if (!res.ok) throw new Error(`Request failed: ${res.statusText}`);
-    const result = await res.json();
-    if (result.errors) throw new Error(result.errors[0]?.message || 'GraphQL error');
-    return result.data;
-  }, [chainId, appId, gameMode, joinHostChainId]);
-
-  const mutate = useCallback(async (mutation: string, variables?: Record<string, unknown>) => {
-    return queryHost(mutation, variables);
-  }, [queryHost]);
-
-  const generateOwner = useCallback(() => {
-    const bytes = new Uint8Array(32);
-    crypto.getRandomValues(bytes);
-    return '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    return trackedRequest(roomChainId, document, variables);
+  }, [roomChainId, appId, trackedRequest]);
+
+  // Room queries go through the cache, so overlapping refreshes share one request and land in order
+  const queryHost = useCallback<GraphQLRequest>(async (document, variables) => {
+    return queryCache.fetch(
+      queryCacheKey(roomChainId, appId, document, variables),
+      () => requestHost(document, variables)
+    );
+  }, [roomChainId, appId, requestHost, queryCache]);
+
+  // Mutations that could not reach the node wait in a queue and are replayed, in order, once it answers again
+  const mutate = useCallback<GraphQLRequest>(async (document, variables) => {
+    return mutationQueue.submit(() => requestHost(document, variables).then(data => {
+      // Anything read before the mutation landed is out of date
+      queryCache.invalidate(roomChainId);
+      return data;
+    }));
+  }, [roomChainId, requestHost, queryCache, mutationQueue]);
+
+  // Replay queued mutations once the link is healthy again
+  useEffect(() => {
+    if (linkHealth.state !== 'connected') return;
+    let cancelled = false;
+    mutationQueue.flush(() => cancelled);
+    return () => { cancelled = true; };
+  }, [linkHealth.state, mutationQueue]);
+
+  // While reconnecting, probe the room chain when the backoff expires (nothing else may be asking)
+  useEffect(() => {
+    if (linkHealth.state !== 'reconnecting' || linkHealth.retryAt === null || !appId) return;
+    const probe = setTimeout(() => {
+      trackedRequest(roomChainId, TOTAL_POT).catch(() => {});
+    }, Math.max(0, linkHealth.retryAt - Date.now()));
+    return () => clearTimeout(probe);
+  }, [linkHealth.state, linkHealth.retryAt, roomChainId, appId, trackedRequest]);
+
+  // Browser connectivity events short-circuit the backoff
+  useEffect(() => {
+    const onOffline = () => dispatchLink({ type: 'browserOffline' });
+    const onOnline = () => dispatchLink({ type: 'browserOnline', at: Date.now() });
+    window.addEventListener('offline', onOffline);
+    window.addEventListener('online', onOnline);
+    return () => {
+      window.removeEventListener('offline', onOffline);
+      window.removeEventListener('online', onOnline);
+    };
   }, []);
 
+  const client = useMemo(() => createRouletteClient(queryHost, mutate), [queryHost, mutate]);
+
+  // Client for an arbitrary pool chain (lease checks); nothing is queued, a failed claim is just a failed claim
+  const clientFor = useCallback((targetChainId: string) => {
+    const request: GraphQLRequest = (document, variables) => trackedRequest(targetChainId, document, variables);
+    return createRouletteClient(request);
+  }, [trackedRequest]);
+
+  useEffect(() => { saveProfiles(profiles); }, [profiles]);
+
+  useEffect(() => {
+    if (activeProfile) saveActiveProfileId(activeProfile.id);
+  }, [activeProfile]);
+
   const connect = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    dispatchLink({ type: 'connect' });
+
+    let profile = activeProfileRef.current;
+    if (!profile) {
+      const created = newProfile('Player 1');
+      setProfiles(prev => [...prev, created]);
+      setActiveProfileId(created.id);
+      profile = created;
+    }
+    const { id: profileId, owner, chainId: knownChainId } = profile;
+    setPlayerId(owner);
+
     try {
-      let owner = localStorage.getItem('linera_owner');
-      if (!owner) { owner = generateOwner(); localStorage.setItem('linera_owner', owner); }
-      setPlayerId(owner);
-
-      const chainQuery = await fetch(LOCAL_FAUCET, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: `query { chainId(owner: "${owner}") }` }),
-      });
-      const chainResult = await chainQuery.json();
-
-      if (chainResult.data?.chainId) {
-        setChainId(chainResult.data.chainId);
+      // The faucet hands back the chain it already gave this owner, so this is also a lookup
+      const claimed = await transport.claimChain(owner);
+      setProfiles(prev => prev.map(p => p.id === profileId ? { ...p, chainId: claimed } : p));
+      setChainId(claimed);
+      setIsConnected(true);
+      dispatchLink({ type: 'connected' });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to connect';
+      if (knownChainId) {
+        console.warn('[LINK] Faucet failed, using the profile\'s known chain:', message);
+        setChainId(knownChainId);
         setIsConnected(true);
+        dispatchLink({ type: 'connected', reason: `Faucet failed (${message}) - using this profile's last chain` });
         return;
       }
-
-      const claimRes = await fetch(LOCAL_FAUCET, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: `mutation { claim(owner: "${owner}") }` }),
-      });
-      if (!claimRes.ok) throw new Error(`Claim failed: ${claimRes.statusText}`);
-      const claimResult = await claimRes.json();
-      if (claimResult.errors) throw new Error(claimResult.errors[0]?.message || 'Claim error');
-
-      const finalQuery = await fetch(LOCAL_FAUCET, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: `query { chainId(owner: "${owner}") }` }),
-      });
-      const finalResult = await finalQuery.json();
-      if (finalResult.data?.chainId) {
-        setChainId(finalResult.data.chainId);
-        setIsConnected(true);
-      } else {
-        throw new Error('No chainId returned');
-      }
-    } catch (err) {
-      if (DEFAULT_CHAIN) {
-        setChainId(DEFAULT_CHAIN);
+      if (defaultChain) {
+        console.warn('[LINK] Faucet failed, falling back to default chain:', message);
+        setChainId(defaultChain);
         setIsConnected(true);
+        dispatchLink({ type: 'connected', reason: `Faucet failed (${message}) - using default chain` });
         return;
       }
-      setError(err instanceof Error ? err.message : 'Failed to connect');
+      dispatchLink({ type: 'connectFailed', reason: message });
+      setError(message);
     } finally {
       setIsLoading(false);
     }
-  }, [generateOwner]);
+  }, [transport, defaultChain]);
 
   const disconnect = useCallback(() => {
     setChainId('');
     setIsConnected(false);
     setError(null);
-  }, []);
+    dispatchLink({ type: 'disconnect' });
+    mutationQueue.clear('Disconnected');
+    // An explicit disconnect means the next visit starts fresh
+    clearSession();
+  }, [mutationQueue]);
 
+  // Claim the first free room whose lease we actually win - another host may get there first
   const hostGame = useCallback(async (): Promise<string | null> => {
-    const available = chainPool.find(c => !c.inUse);
-    if (!available) return null;
-    setChainPool(prev => prev.map(c => c.id === available.id ? { ...c, inUse: true } : c));
-    setHostedChainId(available.chainId);
-    setGameMode('host');
-    return available.chainId;
-  }, [chainPool]);
+    for (const candidate of chainPool.filter(c => !c.inUse)) {
+      try {
+        const claimed = await claimRoomLease(clientFor(candidate.chainId), playerId);
+        setChainPool(prev => prev.map(c => c.id === candidate.id ? { ...c, inUse: true } : c));
+        if (!claimed) {
+          console.log('[LEASE] Room already taken:', candidate.chainId.slice(0, 16));
+          continue;
+        }
+        setHostedChainId(candidate.chainId);
+        setGameMode('host');
+        return candidate.chainId;
+      } catch (err) {
+        console.error('[LEASE] Failed to claim room:', err);
+        if (err instanceof NetworkError) return null;
+      }
+    }
+    return null;
+  }, [chainPool, clientFor, playerId]);
 
   const joinGame = useCallback((chainId: string): boolean => {
     if (!chainId || chainId.length !== 64 || !/^[a-f0-9]+$/.test(chainId)) return false;
@@ -208,21 +344,204 @@ export function LineraProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const leaveGame = useCallback(() => {
-    if (hostedChainId) setChainPool(prev => prev.map(c => c.chainId === hostedChainId ? { ...c, inUse: false } : c));
+    if (hostedChainId) {
+      setChainPool(prev => prev.map(c => c.chainId === hostedChainId ? { ...c, inUse: false } : c));
+      // If this never lands, the lease simply runs out
+      clientFor(hostedChainId).releaseRoom(playerId)
+        .catch(err => console.warn('[LEASE] Failed to release room:', err));
+    }
     setHostedChainId(null);
     setJoinedChainId(null);
     setJoinHostChainId('');
     setGameMode('selecting');
-  }, [hostedChainId]);
+    setRestoredSession(null);
+    clearSession();
+  }, [hostedChainId, clientFor, playerId]);
 
-  const subscribe = useCallback((callback: (data: unknown) => void) => {
-    if (!chainId || !appId) return () => {};
-    const wsUrl = `ws://${LOCAL_NODE.replace('http://', '').replace('https://', '')}/ws`;
-    const ws = new WebSocket(wsUrl);
-    ws.onopen = () => ws.send(JSON.stringify({ type: 'subscribe', chainId, appId, stream: 'roulette_events' }));
-    ws.onmessage = (e) => { try { callback(JSON.parse(e.data)); } catch {} };
-    return () => { if (ws.readyState === WebSocket.OPEN) ws.close(); };
-  }, [chainId, appId]);
+  // Renew the hosted room's lease; if it ran out and someone else took the room, step out of it
+  useEffect(() => {
+    if (!hostedChainId || !playerId) return;
+    const roomClient = clientFor(hostedChainId);
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (await claimRoomLease(roomClient, playerId)) return;
+        console.warn('[LEASE] Lost the lease on', hostedChainId.slice(0, 16));
+        setError('Your room lease expired and another host took the room');
+        leaveGame();
+      } catch (err) {
+        // Tried again on the next beat, well within the lease
+        console.warn('[LEASE] Heartbeat failed:', err);
+      }
+    }, LEASE_HEARTBEAT_MS);
+    return () => clearInterval(heartbeat);
+  }, [hostedChainId, playerId, clientFor, leaveGame]);
+
+  // While choosing a mode, keep the pool's availability in line with the leases on chain
+  useEffect(() => {
+    if (!isConnected || gameMode !== 'selecting' || poolLoading || !appId) return;
+    let cancelled = false;
+
+    const refresh = async () => {
+      const now = Date.now();
+      const leases = await Promise.all(chainPoolRef.current.map(async c => {
+        try {
+          return [c.chainId, isLeaseActive(await clientFor(c.chainId).lease(), now)] as const;
+        } catch {
+          return null; // keep what we knew
+        }
+      }));
+      if (cancelled) return;
+      const inUse = new Map(leases.filter(entry => entry !== null));
+      setChainPool(prev => prev.map(c => inUse.has(c.chainId) ? { ...c, inUse: inUse.get(c.chainId)! } : c));
+    };
+
+    refresh();
+    const timer = setInterval(refresh, POOL_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isConnected, gameMode, poolLoading, appId, clientFor]);
+
+  const createProfile = useCallback((name: string) => {
+    setProfiles(prev => [...prev, newProfile(name || `Player ${prev.length + 1}`)]);
+  }, []);
+
+  // Leaves any room and reconnects as the other identity (its own chain, balance and stats)
+  const switchProfile = useCallback((id: string) => {
+    if (id === activeProfileRef.current?.id) return;
+    if (gameMode !== 'selecting') leaveGame();
+    if (isConnected) {
+      disconnect();
+      reconnectPendingRef.current = true;
+    }
+    setActiveProfileId(id);
+  }, [gameMode, isConnected, leaveGame, disconnect]);
+
+  const removeProfile = useCallback((id: string) => {
+    if (id === activeProfileRef.current?.id) return;
+    setProfiles(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const exportProfile = useCallback(async (id: string, passphrase: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) throw new Error('Unknown profile');
+    const { name, owner, chainId: profileChainId } = profile;
+    return encryptBackup(
+      {
+        profile: { name, owner, chainId: profileChainId },
+        stats: localStorage.getItem(statsKey(owner)),
+        layouts: localStorage.getItem(layoutsKey(owner)),
+        exportedAt: Date.now(),
+      },
+      passphrase
+    );
+  }, [profiles]);
+
+  // Adds the backed-up identity (or refreshes it if already here); local stats and layouts win over the backup's
+  const importProfile = useCallback(async (contents: string, passphrase: string) => {
+    const { profile: imported, stats, layouts } = await decryptBackup(contents, passphrase);
+    if (stats && !localStorage.getItem(statsKey(imported.owner))) {
+      localStorage.setItem(statsKey(imported.owner), stats);
+    }
+    if (layouts && !localStorage.getItem(layoutsKey(imported.owner))) {
+      localStorage.setItem(layoutsKey(imported.owner), layouts);
+    }
+
+    const existing = profiles.find(p => p.owner === imported.owner);
+    const profile = existing
+      ? { ...existing, chainId: existing.chainId ?? imported.chainId }
+      : newProfile(imported.name, imported.owner, imported.chainId);
+    setProfiles(prev => existing ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile]);
+    return profile;
+  }, [profiles]);
+
+  useEffect(() => {
+    if (!reconnectPendingRef.current || isConnected) return;
+    reconnectPendingRef.current = false;
+    connect();
+  }, [activeProfile, isConnected, connect]);
+
+  // Switching networks drops the room and chain; the connection is re-made against the new settings
+  const applyConfig = useCallback((next: RuntimeConfig) => {
+    if (isConnected) {
+      if (gameMode !== 'selecting') leaveGame();
+      disconnect();
+      reconnectPendingRef.current = true;
+    }
+    setConfig(next);
+  }, [isConnected, gameMode, leaveGame, disconnect]);
+
+  // Checks the settings against the network they describe before anything is switched over
+  const saveConfig = useCallback(async (next: RuntimeConfig) => {
+    const problems = configProblems(next);
+    if (problems.length > 0) throw new Error(problems.join('. '));
+
+    const probeChain = next.hostChain || next.defaultChain || chainId;
+    if (!probeChain) throw new Error('Set a default or host chain (or connect first) so the application can be checked');
+    const probe = createTransport({ nodeUrl: next.nodeUrl, faucetUrl: next.faucetUrl });
+    try {
+      await probe.request(probeChain, next.appId, TOTAL_POT);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Application ${next.appId.slice(0, 12)}... did not answer on chain ${probeChain.slice(0, 12)}...: ${reason}`);
+    }
+
+    saveConfigOverrides(next);
+    applyConfig(next);
+  }, [chainId, applyConfig]);
+
+  const resetConfig = useCallback(() => {
+    clearConfigOverrides();
+    applyConfig(deployedConfig);
+  }, [deployedConfig, applyConfig]);
+
+  // A reload with a saved session reconnects straight away
+  useEffect(() => {
+    if (!savedSession || !configLoaded || autoConnectedRef.current) return;
+    autoConnectedRef.current = true;
+    connect();
+  }, [savedSession, configLoaded, connect]);
+
+  // Put the player back in the room they were in
+  useEffect(() => {
+    if (!savedSession || sessionAppliedRef.current || !isConnected || playerId !== savedSession.playerId) return;
+    sessionAppliedRef.current = true;
+    console.log('[SESSION] Restoring', savedSession.gameMode, 'session');
+    setHostedChainId(savedSession.hostedChainId);
+    setJoinedChainId(savedSession.joinedChainId);
+    setJoinHostChainId(savedSession.joinedChainId ?? '');
+    setGameMode(savedSession.gameMode);
+    setRestoredSession(savedSession);
+  }, [savedSession, isConnected, playerId]);
+
+  // Keep a restored hosted room marked as taken once the pool has loaded
+  useEffect(() => {
+    if (!hostedChainId) return;
+    setChainPool(prev => prev.some(c => c.chainId === hostedChainId && !c.inUse)
+      ? prev.map(c => c.chainId === hostedChainId ? { ...c, inUse: true } : c)
+      : prev);
+  }, [hostedChainId, poolLoading]);
+
+  // Persist the active session
+  useEffect(() => {
+    if (!playerId || gameMode === 'selecting') return;
+    saveSession({ playerId, gameMode, hostedChainId, joinedChainId });
+  }, [playerId, gameMode, hostedChainId, joinedChainId]);
+
+  // Push notifications for new blocks on the room chain
+  const subscribe = useCallback((handlers: RoomSubscriptionHandlers) => {
+    if (!roomChainId || !appId) return () => {};
+    return transport.subscribe(roomChainId, {
+      ...handlers,
+      // A new block changes what the room's queries return
+      onNewBlock: (height) => {
+        queryCache.invalidate(roomChainId);
+        handlers.onNewBlock(height);
+      },
+    });
+  }, [transport, roomChainId, appId, queryCache]);
 
   const effectiveHostChainId = useMemo(() => {
     if (gameMode === 'solo') return chainId;
@@ -230,17 +549,20 @@ export function LineraProvider({ children }: { children: ReactNode }) {
     if (gameMode === 'join' && joinedChainId) return joinedChainId;
     if (selectedRoom) return selectedRoom.chainId;
     if (gameMode === 'join' && joinHostChainId) return joinHostChainId;
-    return HOST_CHAIN || chainId;
-  }, [gameMode, chainId, hostedChainId, joinedChainId, selectedRoom, joinHostChainId]);
+    return hostChain || chainId;
+  }, [gameMode, chainId, hostedChainId, joinedChainId, selectedRoom, joinHostChainId, hostChain]);
 
   const isHost = gameMode === 'solo' || gameMode === 'host';
 
   return (
     <LineraContext.Provider value={{
-      chainId, hostChainId: effectiveHostChainId, playerId, appId, setAppId, isConnected, isLoading, error,
+      chainId, hostChainId: effectiveHostChainId, playerId, appId, setAppId, config, configLoaded, saveConfig, resetConfig,
+      isConnected, linkHealth, queuedMutations,
+      isLoading, error,
       gameMode, setGameMode, joinHostChainId, setJoinHostChainId, isHost, rooms, selectedRoom, setSelectedRoom,
       roomsLoading, chainPool, poolLoading, hostedChainId, joinedChainId, hostGame, joinGame, leaveGame,
-      connect, disconnect, query, queryHost, mutate, subscribe,
+      restoredSession, profiles, activeProfile, createProfile, switchProfile, removeProfile, exportProfile, importProfile,
+      connect, disconnect, query, queryHost, mutate, client, clientFor, subscribe,
     }}>
       {children}
     </LineraContext.Provider>
@@ -0,0 +1,95 @@
+import {
+  CLAIM_ROOM,
+  GAME_STATE,
+  LAYOUT_REJECTION,
+  PLACE_BET,
+  PLACE_BETS,
+  PLAYER,
+  PLAYERS,
+  REGISTER_PLAYER,
+  REFUND_ROUND,
+  RELEASE_ROOM,
+  SET_ROUND_SETTINGS,
+  SET_TABLE_LIMITS,
+  ROOM_LEASE,
+  ROOM_SNAPSHOT,
+  ROOM_SUMMARY,
+  SPIN_WHEEL,
+  START_ROUND,
+  TOTAL_POT,
+  type RoomSummaryGameState,
+  type TypedDocument,
+} from './documents';
+import type { BetSelection, BetType, GameState, Player, RoomLease, RoundSettings, TableLimits } from './types';
+
+// Sends a typed document to a chain's application endpoint and resolves with its `data`
+export type GraphQLRequest = <TData, TVariables>(
+  document: TypedDocument<TData, TVariables>,
+  variables?: TVariables
+) => Promise<TData>;
+
+export interface RoomSnapshot {
+  gameState: GameState;
+  players: Player[];
+  tableLimits: TableLimits;
+  roundSettings: RoundSettings;
+}
+
+export interface RoomSummary {
+  gameState: RoomSummaryGameState;
+  players: Pick<Player, 'chainId'>[];
+  totalPot: number;
+  lease: RoomLease | null;
+}
+
+export interface RouletteClient {
+  gameState: () => Promise<GameState>;
+  players: () => Promise<Player[]>;
+  player: (chainId: string) => Promise<Player | null>;
+  totalPot: () => Promise<number>;
+  snapshot: () => Promise<RoomSnapshot>;
+  summary: () => Promise<RoomSummary>;
+  lease: () => Promise<RoomLease | null>;
+  // The contract's reason for turning down the player's last layout
+  layoutRejection: (playerId: string) => Promise<string | null>;
+  registerPlayer: (playerId: string, name: string, initialBalance: number) => Promise<string>;
+  placeBet: (playerId: string, betType: BetType, numbers: number[], amount: number) => Promise<string>;
+  // Whole layout in one operation; the chain places all of it or none
+  placeBets: (playerId: string, bets: BetSelection[]) => Promise<string>;
+  startRound: () => Promise<string>;
+  spinWheel: () => Promise<string>;
+  // Returns every stake on the table once the refund deadline has passed (see lib/failover)
+  refundRound: () => Promise<string>;
+  claimRoom: (owner: string, ttlMs: number) => Promise<string>;
+  releaseRoom: (owner: string) => Promise<string>;
+  // Only the lease holder can change limits, and only between rounds
+  setTableLimits: (owner: string, limits: TableLimits) => Promise<string>;
+  // Same rules as the limits
+  setRoundSettings: (owner: string, settings: RoundSettings) => Promise<string>;
+}
+
+export function createRouletteClient(query: GraphQLRequest, mutate: GraphQLRequest = query): RouletteClient {
+  return {
+    gameState: async () => (await query(GAME_STATE)).gameState,
+    players: async () => (await query(PLAYERS)).players,
+    player: async (chainId) => (await query(PLAYER, { chainId })).player,
+    totalPot: async () => (await query(TOTAL_POT)).totalPot,
+    snapshot: () => query(ROOM_SNAPSHOT),
+    summary: () => query(ROOM_SUMMARY),
+    lease: async () => (await query(ROOM_LEASE)).lease,
+    layoutRejection: async (playerId) => (await query(LAYOUT_REJECTION, { playerId })).layoutRejection,
+    registerPlayer: async (playerId, name, initialBalance) =>
+      (await mutate(REGISTER_PLAYER, { playerId, name, initialBalance })).registerPlayer,
+    placeBet: async (playerId, betType, numbers, amount) =>
+      (await mutate(PLACE_BET, { playerId, betType, numbers, amount })).placeBet,
+    placeBets: async (playerId, bets) => (await mutate(PLACE_BETS, { playerId, bets })).placeBets,
+    startRound: async () => (await mutate(START_ROUND)).startRound,
+    spinWheel: async () => (await mutate(SPIN_WHEEL)).spinWheel,
+    refundRound: async () => (await mutate(REFUND_ROUND)).refundRound,
+    claimRoom: async (owner, ttlMs) => (await mutate(CLAIM_ROOM, { owner, ttlMs })).claimRoom,
+    releaseRoom: async (owner) => (await mutate(RELEASE_ROOM, { owner })).releaseRoom,
+    setTableLimits: async (owner, limits) => (await mutate(SET_TABLE_LIMITS, { owner, limits })).setTableLimits,
+    setRoundSettings: async (owner, settings) =>
+      (await mutate(SET_ROUND_SETTINGS, { owner, settings })).setRoundSettings,
+  };
+}
@@ -0,0 +1,175 @@
+import type { BetSelection, BetType, GameState, Player, RoomLease, RoundSettings, TableLimits } from './types';
+
+// A GraphQL document string tagged with its result and variable types
+export type TypedDocument<TData, TVariables = Record<string, never>> = string & {
+  readonly __data?: TData;
+  readonly __variables?: TVariables;
+};
+
+// Selection sets are built from the TypeScript types, so every field of the type must be
+// selected (and nothing else) - a renamed field fails the type-check instead of returning undefined
+type Element<T> = NonNullable<T> extends (infer U)[] ? NonNullable<U> : NonNullable<T>;
+type Fields<T> = {
+  [K in keyof T]-?: Element<T[K]> extends object ? Fields<Element<T[K]>> : true;
+};
+
+function selection<T>(fields: Fields<T>): string {
+  const parts = Object.entries(fields as Record<string, true | object>).map(([name, sub]) =>
+    sub === true ? name : `${name} ${selection(sub as Fields<unknown>)}`
+  );
+  return `{ ${parts.join(' ')} }`;
+}
+
+const document = <TData, TVariables = Record<string, never>>(source: string) =>
+  source as TypedDocument<TData, TVariables>;
+
+const PLAYER_FIELDS = selection<Player>({ chainId: true, name: true, balance: true });
+
+const GAME_STATE_FIELDS = selection<GameState>({
+  isSpinning: true,
+  currentBets: { playerChainId: true, playerName: true, betType: true, numbers: true, amount: true },
+  lastResult: {
+    number: true,
+    color: true,
+    timestamp: true,
+    winners: { playerChainId: true, playerName: true, betType: true, betAmount: true, payout: true },
+  },
+  history: true,
+  bettingEndTime: true,
+  firstBetAt: true,
+});
+
+const LEASE_FIELDS = selection<RoomLease>({ owner: true, expiresAt: true });
+
+const TABLE_LIMITS_FIELDS = selection<TableLimits>({
+  minBet: true,
+  maxBet: true,
+  maxStraight: true,
+  maxRoundStake: true,
+  betLimits: { betType: true, min: true, max: true },
+  chipValues: true,
+});
+
+const ROUND_SETTINGS_FIELDS = selection<RoundSettings>({ bettingWindowMs: true, roundPauseMs: true, autoDeal: true });
+
+// Just enough of a room for a lobby card
+export type RoomSummaryGameState = Pick<GameState, 'isSpinning' | 'history' | 'bettingEndTime'>;
+const ROOM_SUMMARY_GAME_FIELDS = selection<RoomSummaryGameState>({ isSpinning: true, history: true, bettingEndTime: true });
+const ROOM_SUMMARY_PLAYER_FIELDS = selection<Pick<Player, 'chainId'>>({ chainId: true });
+
+// Queries
+
+export const GAME_STATE = document<{ gameState: GameState }>(
+  `query GameState { gameState ${GAME_STATE_FIELDS} }`
+);
+
+export const PLAYERS = document<{ players: Player[] }>(
+  `query Players { players ${PLAYER_FIELDS} }`
+);
+
+export const PLAYER = document<{ player: Player | null }, { chainId: string }>(
+  `query Player($chainId: String!) { player(chainId: $chainId) ${PLAYER_FIELDS} }`
+);
+
+export const TOTAL_POT = document<{ totalPot: number }>(
+  `query TotalPot { totalPot }`
+);
+
+// Game state and players together - what the table needs on every refresh
+export const ROOM_SNAPSHOT = document<{
+  gameState: GameState;
+  players: Player[];
+  tableLimits: TableLimits;
+  roundSettings: RoundSettings;
+}>(
+  `query RoomSnapshot {
+    gameState ${GAME_STATE_FIELDS}
+    players ${PLAYER_FIELDS}
+    tableLimits ${TABLE_LIMITS_FIELDS}
+    roundSettings ${ROUND_SETTINGS_FIELDS}
+  }`
+);
+
+export const ROOM_SUMMARY = document<{
+  gameState: RoomSummaryGameState;
+  players: Pick<Player, 'chainId'>[];
+  totalPot: number;
+  lease: RoomLease | null;
+}>(
+  `query RoomSummary {
+    gameState ${ROOM_SUMMARY_GAME_FIELDS}
+    players ${ROOM_SUMMARY_PLAYER_FIELDS}
+    totalPot
+    lease ${LEASE_FIELDS}
+  }`
+);
+
+// Why the player's last layout was turned down; null once one goes through
+export const LAYOUT_REJECTION = document<{ layoutRejection: string | null }, { playerId: string }>(
+  `query LayoutRejection($playerId: String!) { layoutRejection(playerId: $playerId) }`
+);
+
+export const ROOM_LEASE = document<{ lease: RoomLease | null }>(
+  `query RoomLease { lease ${LEASE_FIELDS} }`
+);
+
+// Mutations (each returns the service's confirmation string)
+
+export const REGISTER_PLAYER = document<
+  { registerPlayer: string },
+  { playerId: string; name: string; initialBalance: number }
+>(
+  `mutation RegisterPlayer($playerId: String!, $name: String!, $initialBalance: Int!) {
+    registerPlayer(playerId: $playerId, name: $name, initialBalance: $initialBalance)
+  }`
+);
+
+export const PLACE_BET = document<
+  { placeBet: string },
+  { playerId: string; betType: BetType; numbers: number[]; amount: number }
+>(
+  `mutation PlaceBet($playerId: String!, $betType: BetType!, $numbers: [Int!]!, $amount: Int!) {
+    placeBet(playerId: $playerId, betType: $betType, numbers: $numbers, amount: $amount)
+  }`
+);
+
+export const PLACE_BETS = document<
+  { placeBets: string },
+  { playerId: string; bets: BetSelection[] }
+>(
+  `mutation PlaceBets($playerId: String!, $bets: [BetInput!]!) {
+    placeBets(playerId: $playerId, bets: $bets)
+  }`
+);
+
+export const SET_TABLE_LIMITS = document<{ setTableLimits: string }, { owner: string; limits: TableLimits }>(
+  `mutation SetTableLimits($owner: String!, $limits: TableLimitsInput!) {
+    setTableLimits(owner: $owner, limits: $limits)
+  }`
+);
+
+export const SET_ROUND_SETTINGS = document<{ setRoundSettings: string }, { owner: string; settings: RoundSettings }>(
+  `mutation SetRoundSettings($owner: String!, $settings: RoundSettingsInput!) {
+    setRoundSettings(owner: $owner, settings: $settings)
+  }`
+);
+
+export const START_ROUND = document<{ startRound: string }>(
+  `mutation StartRound { startRound }`
+);
+
+export const SPIN_WHEEL = document<{ spinWheel: string }>(
+  `mutation SpinWheel { spinWheel }`
+);
+
+export const REFUND_ROUND = document<{ refundRound: string }>(
+  `mutation RefundRound { refundRound }`
+);
+
+export const CLAIM_ROOM = document<{ claimRoom: string }, { owner: string; ttlMs: number }>(
+  `mutation ClaimRoom($owner: String!, $ttlMs: Int!) { claimRoom(owner: $owner, ttlMs: $ttlMs) }`
+);
+
+export const RELEASE_ROOM = document<{ releaseRoom: string }, { owner: string }>(
+  `mutation ReleaseRoom($owner: String!) { releaseRoom(owner: $owner) }`
+);
@@ -0,0 +1,114 @@
+// Minimal graphql-transport-ws client for the Linera node's `notifications` subscription.
+// The node pushes one notification per chain event; we only care about new blocks on the
+// room chain, since that is the only time the game state can change.
+
+export interface ChainNotification {
+  chain_id: string;
+  // One key per kind of event (NewBlock, NewIncomingBundle, ...); only NewBlock is read here
+  reason: { NewBlock?: { height?: number } } & Record<string, unknown>;
+}
+
+// graphql-transport-ws messages the node sends us
+type ServerMessage =
+  | { type: 'connection_ack' | 'ping' | 'pong'; payload?: Record<string, unknown> }
+  | { id: string; type: 'next'; payload: { data?: { notifications?: ChainNotification } | null; errors?: { message: string }[] } }
+  | { id: string; type: 'error'; payload: { message: string }[] }
+  | { id: string; type: 'complete' };
+
+export interface NotificationStreamOptions {
+  nodeUrl: string;
+  chainId: string;
+  onNewBlock: (height: number) => void;
+  onStatusChange?: (live: boolean) => void;
+}
+
+const NOTIFICATIONS = `subscription Notifications($chainId: ChainId!) { notifications(chainId: $chainId) }`;
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 15000;
+
+const toWebSocketUrl = (nodeUrl: string) => nodeUrl.replace(/^http/, 'ws').replace(/\/$/, '') + '/ws';
+
+// Opens a self-reconnecting notification stream; returns a function that closes it for good
+export function openNotificationStream({ nodeUrl, chainId, onNewBlock, onStatusChange }: NotificationStreamOptions): () => void {
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let live = false;
+  let reconnectDelay = MIN_RECONNECT_DELAY;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setLive = (value: boolean) => {
+    if (live === value) return;
+    live = value;
+    onStatusChange?.(value);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  };
+
+  const open = () => {
+    const socket = new WebSocket(toWebSocketUrl(nodeUrl), 'graphql-transport-ws');
+    ws = socket;
+
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'connection_init', payload: {} }));
+
+    socket.onmessage = (e) => {
+      let message: ServerMessage;
+      try { message = JSON.parse(e.data); } catch { return; }
+
+      switch (message.type) {
+        case 'connection_ack':
+          socket.send(JSON.stringify({
+            id: '1',
+            type: 'subscribe',
+            payload: { query: NOTIFICATIONS, variables: { chainId } },
+          }));
+          reconnectDelay = MIN_RECONNECT_DELAY;
+          setLive(true);
+          break;
+        case 'ping':
+          socket.send(JSON.stringify({ type: 'pong' }));
+          break;
+        case 'next': {
+          const newBlock = message.payload.data?.notifications?.reason?.NewBlock;
+          if (newBlock) onNewBlock(Number(newBlock.height ?? 0));
+          break;
+        }
+        case 'error':
+          console.warn('[WS] Notification subscription failed:', message.payload.map(error => error.message).join('; '));
+          socket.close();
+          break;
+        case 'complete':
+          console.warn('[WS] Notification subscription ended');
+          socket.close();
+          break;
+      }
+    };
+
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      setLive(false);
+      scheduleReconnect();
+    };
+
+    socket.onerror = () => socket.close();
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    const socket = ws;
+    ws = null;
+    if (socket && socket.readyState <= WebSocket.OPEN) socket.close();
+    setLive(false);
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createQueryCache, queryCacheKey } from './queryCache';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const KEY = queryCacheKey('chain-a', 'app', 'query GameState { gameState { isSpinning } }');
+const OTHER_CHAIN = queryCacheKey('chain-b', 'app', 'query GameState { gameState { isSpinning } }');
+
+describe('query cache', () => {
+  it('shares one fetch between identical requests in flight', async () => {
+    const cache = createQueryCache(500, () => 0);
+    const pending = deferred<string>();
+    const run = vi.fn(() => pending.promise);
+
+    const first = cache.fetch(KEY, run);
+    const second = cache.fetch(KEY, run);
+    pending.resolve('snapshot');
+
+    expect(await Promise.all([first, second])).toEqual(['snapshot', 'snapshot']);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers from the cache while a response is fresh', async () => {
+    let clock = 0;
+    const cache = createQueryCache(500, () => clock);
+    const run = vi.fn(async () => `at ${clock}`);
+
+    await cache.fetch(KEY, run);
+    clock = 499;
+    expect(await cache.fetch(KEY, run)).toBe('at 0');
+    expect(run).toHaveBeenCalledTimes(1);
+
+    clock = 500;
+    expect(await cache.fetch(KEY, run)).toBe('at 500');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't let an older response replace a newer one", async () => {
+    const cache = createQueryCache(500, () => 0);
+    const older = deferred<string>();
+    const newer = deferred<string>();
+
+    const first = cache.fetch(KEY, () => older.promise);
+    // A new block comes in while the first request is out, and the table asks again
+    cache.invalidate('chain-a');
+    const second = cache.fetch(KEY, () => newer.promise);
+
+    newer.resolve('after block');
+    expect(await second).toBe('after block');
+    older.resolve('before block');
+    expect(await first).toBe('after block');
+    expect(await cache.fetch(KEY, () => Promise.resolve('refetched'))).toBe('after block');
+  });
+
+  it('refetches a chain after it is invalidated, leaving other chains cached', async () => {
+    const cache = createQueryCache(500, () => 0);
+    await cache.fetch(KEY, async () => 'a1');
+    await cache.fetch(OTHER_CHAIN, async () => 'b1');
+
+    cache.invalidate('chain-a');
+    expect(await cache.fetch(KEY, async () => 'a2')).toBe('a2');
+    expect(await cache.fetch(OTHER_CHAIN, async () => 'b2')).toBe('b1');
+
+    cache.invalidate();
+    expect(await cache.fetch(OTHER_CHAIN, async () => 'b3')).toBe('b3');
+  });
+
+  it("doesn't cache a failed fetch", async () => {
+    const cache = createQueryCache(500, () => 0);
+    await expect(cache.fetch(KEY, () => Promise.reject(new Error('node down')))).rejects.toThrow('node down');
+    expect(await cache.fetch(KEY, async () => 'recovered')).toBe('recovered');
+  });
+});
@@ -0,0 +1,75 @@
+// Read-through cache for room queries, keyed by chain, application, document and variables.
+//
+// - Identical requests in flight at the same time share one network round-trip.
+// - A response stays fresh for a short window, so bursts of refreshes cost one request.
+// - Every request gets a version in the order it was issued. A response that arrives after a
+//   newer one is never stored, and its caller receives the newer data instead - so an older
+//   snapshot can't overwrite newer state.
+// Mutations and new blocks invalidate a chain's entries (and detach its in-flight requests).
+
+const DEFAULT_MAX_AGE_MS = 500;
+
+interface Entry {
+  data: unknown;
+  version: number;
+  fetchedAt: number;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  // Set when the chain is invalidated while this request is out - its answer may predate the change
+  detached: boolean;
+}
+
+export interface QueryCache {
+  fetch: <TData>(key: string, run: () => Promise<TData>) => Promise<TData>;
+  invalidate: (chainId?: string) => void;
+}
+
+export const queryCacheKey = (chainId: string, appId: string, document: string, variables?: unknown) =>
+  `${chainId}|${appId}|${document}|${JSON.stringify(variables ?? null)}`;
+
+export function createQueryCache(maxAgeMs = DEFAULT_MAX_AGE_MS, now: () => number = Date.now): QueryCache {
+  const entries = new Map<string, Entry>();
+  const inFlight = new Map<string, InFlight>();
+  let nextVersion = 0;
+
+  const fetch = <TData>(key: string, run: () => Promise<TData>): Promise<TData> => {
+    const cached = entries.get(key);
+    if (cached && now() - cached.fetchedAt < maxAgeMs) return Promise.resolve(cached.data as TData);
+
+    const pending = inFlight.get(key);
+    if (pending) return pending.promise as Promise<TData>;
+
+    const version = ++nextVersion;
+    const request: InFlight = { promise: Promise.resolve(), detached: false };
+    request.promise = run()
+      .then(data => {
+        const latest = entries.get(key);
+        if (!request.detached && (!latest || latest.version < version)) {
+          entries.set(key, { data, version, fetchedAt: now() });
+        }
+        const newest = entries.get(key);
+        return newest && newest.version > version ? newest.data as TData : data;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === request) inFlight.delete(key);
+      });
+    inFlight.set(key, request);
+    return request.promise as Promise<TData>;
+  };
+
+  const invalidate = (chainId?: string) => {
+    const matches = (key: string) => chainId === undefined || key.startsWith(`${chainId}|`);
+    for (const key of [...entries.keys()]) {
+      if (matches(key)) entries.delete(key);
+    }
+    for (const [key, request] of [...inFlight]) {
+      if (!matches(key)) continue;
+      request.detached = true;
+      inFlight.delete(key);
+    }
+  };
+
+  return { fetch, invalidate };
+}
@@ -0,0 +1,28 @@
+import { GraphQLEnumType, buildSchema, lexicographicSortSchema, parse, printSchema, validate } from 'graphql';
+import { describe, expect, it } from 'vitest';
+import SERVICE_SDL from '../../../contract/schema.graphql?raw';
+import { BET_TYPES } from '../lib/rules';
+import { ROULETTE_SDL } from '../transport/mockSchema';
+import * as documents from './documents';
+
+// contract/schema.graphql is written from service.rs by the contract's schema test, so a field
+// renamed or removed in the service fails here instead of at runtime
+const service = buildSchema(SERVICE_SDL);
+
+const normalized = (sdl: string) => printSchema(lexicographicSortSchema(buildSchema(sdl)));
+
+describe('service schema', () => {
+  it.each(Object.entries(documents))('%s is valid against the service', (_, source) => {
+    expect(validate(service, parse(source)).map(error => error.message)).toEqual([]);
+  });
+
+  it('is what the mock node serves, apart from its 64-bit scalar', () => {
+    const mock = ROULETTE_SDL.replace('scalar U64', '').replace(/\bU64\b/g, 'Int');
+    expect(normalized(mock)).toBe(normalized(SERVICE_SDL));
+  });
+
+  it('has the bet types the frontend knows', () => {
+    const betType = service.getType('BetType') as GraphQLEnumType;
+    expect(betType.getValues().map(value => value.name)).toEqual(BET_TYPES);
+  });
+});
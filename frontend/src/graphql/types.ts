@@ -0,0 +1,103 @@
+// TypeScript mirror of the objects exposed by contract/src/service.rs.
+// Field names follow the service's camelCase renaming; enums use async-graphql's
+// SCREAMING_SNAKE_CASE values. The documents built from these types are validated against
+// contract/schema.graphql (schema.test.ts), so a field that drifts from the service fails the tests.
+
+export type BetType =
+  | 'STRAIGHT'
+  | 'RED'
+  | 'BLACK'
+  | 'EVEN'
+  | 'ODD'
+  | 'LOW'
+  | 'HIGH'
+  | 'FIRST_DOZEN'
+  | 'SECOND_DOZEN'
+  | 'THIRD_DOZEN'
+  | 'FIRST_COLUMN'
+  | 'SECOND_COLUMN'
+  | 'THIRD_COLUMN'
+  | 'SPLIT'
+  | 'STREET'
+  | 'CORNER'
+  | 'SIX_LINE'
+  | 'TRIO'
+  | 'BASKET';
+
+export interface Player {
+  chainId: string;
+  name: string;
+  balance: number;
+}
+
+export interface Bet {
+  playerChainId: string;
+  playerName: string;
+  betType: BetType;
+  numbers: number[];
+  amount: number;
+}
+
+// One entry of a placeBets layout (BetInput in contract/src/service.rs)
+export interface BetSelection {
+  betType: BetType;
+  numbers: number[];
+  amount: number;
+}
+
+export interface Winner {
+  playerChainId: string;
+  playerName: string;
+  betType: BetType;
+  betAmount: number;
+  payout: number;
+}
+
+export interface SpinResult {
+  number: number;
+  color: string;
+  timestamp: string;
+  winners: Winner[];
+}
+
+export interface GameState {
+  isSpinning: boolean;
+  currentBets: Bet[];
+  lastResult: SpinResult | null;
+  history: number[];
+  bettingEndTime: number | null; // Timestamp (ms) when betting ends - for syncing timer
+  firstBetAt: number | null; // When the round's first bet went down (ms) - starts the refund clock
+}
+
+// Stake range for one bet type, overriding the table-wide minBet/maxBet
+export interface BetLimit {
+  betType: BetType;
+  min: number;
+  max: number;
+}
+
+// Per-room limits set by the host (TableLimits in contract/src/lib.rs)
+export interface TableLimits {
+  minBet: number;
+  maxBet: number;
+  maxStraight: number;
+  maxRoundStake: number;
+  betLimits: BetLimit[];
+  // The room's chip rack, ascending
+  chipValues: number[];
+}
+
+// How a room paces its rounds, set by the host (RoundSettings in contract/src/lib.rs)
+export interface RoundSettings {
+  bettingWindowMs: number;
+  // Rest after a result is shown before the next round is dealt
+  roundPauseMs: number;
+  // The host deals the next round without a click
+  autoDeal: boolean;
+}
+
+// Which host currently holds a room chain, and until when (ms)
+export interface RoomLease {
+  owner: string;
+  expiresAt: number;
+}
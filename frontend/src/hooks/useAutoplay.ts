@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BetSelection } from '../graphql/types';
+import { layoutResult } from '../lib/rules';
+import {
+  advance,
+  autoplayHalt,
+  nextLayout,
+  startSession,
+  type AutoplayConfig,
+  type AutoplaySession,
+} from '../lib/strategies';
+import type { SpinResult } from './useGame';
+
+export type AutoplayStatus = 'idle' | 'running' | 'paused' | 'stopped';
+
+interface AutoplayOptions {
+  balance: number;
+  isWheelSpinning: boolean;
+  showResultPopup: boolean;
+  pendingResult: SpinResult | null;
+  placeBetsAndSpin: (bets: BetSelection[]) => Promise<boolean>;
+  dismissResultPopup: () => void;
+}
+
+// How long each result stays on screen before the next spin
+const RESULT_PAUSE_MS = 1500;
+
+// Solo autoplay: places the strategy's next layout and spins whenever the wheel is idle, and
+// settles each spin into the session once its result is shown
+export function useAutoplay({
+  balance,
+  isWheelSpinning,
+  showResultPopup,
+  pendingResult,
+  placeBetsAndSpin,
+  dismissResultPopup,
+}: AutoplayOptions) {
+  const [status, setStatus] = useState<AutoplayStatus>('idle');
+  const [reason, setReason] = useState<string | null>(null);
+  const [config, setConfig] = useState<AutoplayConfig | null>(null);
+  const [session, setSession] = useState<AutoplaySession | null>(null);
+  // Layout on the wheel right now, until its result has been settled
+  const inFlightRef = useRef<BetSelection[] | null>(null);
+  const placeRef = useRef(placeBetsAndSpin);
+  placeRef.current = placeBetsAndSpin;
+  const dismissRef = useRef(dismissResultPopup);
+  dismissRef.current = dismissResultPopup;
+
+  const halt = useCallback((pause: boolean, why: string) => {
+    setStatus(pause ? 'paused' : 'stopped');
+    setReason(why);
+  }, []);
+
+  // Settle the spin once its result is up (a spin in flight when autoplay is stopped still counts)
+  useEffect(() => {
+    const layout = inFlightRef.current;
+    if (!showResultPopup || !pendingResult || !layout || !config) return;
+    inFlightRef.current = null;
+    setSession(current => current && advance(config, current, layoutResult(layout, pendingResult.number)));
+  }, [showResultPopup, pendingResult, config]);
+
+  useEffect(() => {
+    if (status !== 'running' || !showResultPopup) return;
+    const timer = setTimeout(() => dismissRef.current(), RESULT_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [status, showResultPopup]);
+
+  // Next step whenever the table is free
+  useEffect(() => {
+    if (status !== 'running' || !config || !session) return;
+    if (isWheelSpinning || showResultPopup || inFlightRef.current) return;
+
+    const layout = nextLayout(config, session);
+    const stop = autoplayHalt(config, session, layout, balance);
+    if (stop) {
+      halt(stop.pause, stop.reason);
+      return;
+    }
+
+    inFlightRef.current = layout;
+    placeRef.current(layout).then(spun => {
+      if (spun) return;
+      inFlightRef.current = null;
+      halt(true, 'The table did not take the layout');
+    });
+  }, [status, config, session, isWheelSpinning, showResultPopup, balance, halt]);
+
+  const start = useCallback((next: AutoplayConfig) => {
+    setConfig(next);
+    setSession(startSession(next));
+    setReason(null);
+    setStatus('running');
+  }, []);
+
+  const resume = useCallback(() => {
+    setReason(null);
+    setStatus('running');
+  }, []);
+
+  const stop = useCallback(() => halt(false, 'Stopped'), [halt]);
+
+  return { status, reason, config, session, start, resume, stop };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+
+export interface ChipDrag {
+  amount: number;
+  // Slip key the chips were lifted from, or null for a chip from the rack
+  from: string | null;
+  x: number;
+  y: number;
+}
+
+// Pointer travel before a press becomes a drag, so taps and clicks still select and place
+const DRAG_THRESHOLD = 6;
+
+// Bet cell under a drop point: table cells carry their slip key in data-bet-key
+export const dropTargetKey = (element: Element | null) =>
+  element?.closest<HTMLElement>('[data-bet-key]')?.dataset.betKey ?? null;
+
+// A drag ends with a click on whatever is under the pointer; swallow it so the drop is all that happens
+function swallowNextClick() {
+  const swallow = (event: MouseEvent) => event.stopPropagation();
+  window.addEventListener('click', swallow, { capture: true, once: true });
+  setTimeout(() => window.removeEventListener('click', swallow, { capture: true }), 0);
+}
+
+// Chip dragging with pointer events, so mouse, pen and touch all work the same. Drag sources need
+// `touch-action: none` or touch screens scroll instead.
+export function useChipDrag(onDrop: (drag: ChipDrag, target: Element | null) => void) {
+  const [drag, setDrag] = useState<ChipDrag | null>(null);
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const startDrag = useCallback((event: ReactPointerEvent, amount: number, from: string | null = null) => {
+    if (event.button !== 0) return;
+    stopRef.current?.();
+    const { pointerId, clientX: startX, clientY: startY } = event;
+    let dragging = false;
+
+    const onMove = (e: PointerEvent) => {
+      if (e.pointerId !== pointerId) return;
+      if (!dragging && Math.hypot(e.clientX - startX, e.clientY - startY) < DRAG_THRESHOLD) return;
+      dragging = true;
+      setDrag({ amount, from, x: e.clientX, y: e.clientY });
+    };
+    const onEnd = (e: PointerEvent) => {
+      if (e.pointerId !== pointerId) return;
+      stop();
+      if (!dragging || e.type === 'pointercancel') return;
+      swallowNextClick();
+      onDropRef.current({ amount, from, x: e.clientX, y: e.clientY }, document.elementFromPoint(e.clientX, e.clientY));
+    };
+    const stop = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onEnd);
+      window.removeEventListener('pointercancel', onEnd);
+      stopRef.current = null;
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onEnd);
+    window.addEventListener('pointercancel', onEnd);
+    stopRef.current = stop;
+  }, []);
+
+  return { drag, startDrag };
+}
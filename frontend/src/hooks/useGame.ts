@@ -1,41 +1,28 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useLinera } from '../contexts/LineraContext';
-
-export interface Bet {
-  playerChainId: string;
-  playerName: string;
-  betType: string;
-  numbers: number[];
-  amount: number;
-}
-
-export interface SpinResult {
-  number: number;
-  color: string;
-  timestamp: string;
-  winners: Array<{
-    playerChainId: string;
-    playerName: string;
-    betType: string;
-    betAmount: number;
-    payout: number;
-  }>;
+import type { RoomSnapshot } from '../graphql/client';
+import { NetworkError } from '../transport';
+import { saveSessionRound } from '../lib/session';
+import { INITIAL_ROUND, bettingSecondsLeft, isWheelBusy, nextRound, restoredRound, type RoundEvent, type RoundState } from '../lib/roundMachine';
+import { statsKey } from '../lib/profiles';
+import type { Bet, BetSelection, GameState, Player, RoundSettings, SpinResult as ChainSpinResult, TableLimits } from '../graphql/types';
+import { DEFAULT_TABLE_LIMITS, sameLimits } from '../lib/tableLimits';
+import { DEFAULT_ROUND_SETTINGS, sameRoundSettings } from '../lib/roundSettings';
+import { failoverSpinAt, refundDeadline } from '../lib/failover';
+
+export type { Bet, GameState, Player } from '../graphql/types';
+
+// On-chain result plus the local player's stake for that round (used for stats and the popup)
+export interface SpinResult extends ChainSpinResult {
   totalBetAmount?: number;
 }
 
-export interface GameState {
-  isSpinning: boolean;
-  currentBets: Bet[];
-  lastResult: SpinResult | null;
-  history: number[];
-  bettingEndTime?: number | null; // Timestamp (ms) when betting ends - for syncing timer
-}
+// Fallback poll interval bounds (ms) while the notification socket is down
+const MIN_POLL_INTERVAL = 1000;
+const MAX_POLL_INTERVAL = 8000;
 
-export interface Player {
-  chainId: string;
-  name: string;
-  balance: number;
-}
+// Shown when the chain turns a layout down without saying why
+const LAYOUT_REJECTED = 'the table rejected the layout';
 
 export interface PlayerStats {
   totalWins: number;
@@ -48,22 +35,21 @@ export interface PlayerStats {
 }
 
 export function useGame() {
-  const { queryHost, mutate, subscribe, isConnected, chainId, playerId, gameMode, isHost, hostedChainId, joinedChainId } = useLinera();
+  const { client, subscribe, isConnected, playerId, gameMode, isHost, hostedChainId, joinedChainId, restoredSession } = useLinera();
   const [gameState, setGameState] = useState<GameState>({
     isSpinning: false,
     currentBets: [],
     lastResult: null,
     history: [],
+    bettingEndTime: null,
+    firstBetAt: null,
   });
   const [players, setPlayers] = useState<Player[]>([]);
+  const [tableLimits, setTableLimitsState] = useState<TableLimits>(DEFAULT_TABLE_LIMITS);
+  const [roundSettings, setRoundSettingsState] = useState<RoundSettings>(DEFAULT_ROUND_SETTINGS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Local spinning state - controls UI animation independent of backend state
-  const [isWheelSpinning, setIsWheelSpinning] = useState(false);
-  const [pendingResult, setPendingResult] = useState<SpinResult | null>(null);
-  const [showResultPopup, setShowResultPopup] = useState(false);
-
   // Stats tracking (stored in localStorage for persistence)
   const [playerStats, setPlayerStats] = useState<PlayerStats>({
     totalWins: 0,
@@ -81,16 +67,27 @@ export function useGame() {
   const pendingPlayersRef = useRef<Player[] | null>(null);
   // Store pending history update until wheel animation completes
   const pendingHistoryRef = useRef<number[] | null>(null);
-  // Track if wheel is spinning (ref for use in subscription callback)
-  const isSpinningRef = useRef(false);
-  // Track last known result timestamp to detect new spins (for joined players)
-  const lastResultTimestampRef = useRef<string | null>(null);
-
-  // Round management for multiplayer sync
-  const [roundPhase, setRoundPhase] = useState<'waiting' | 'betting' | 'spinning'>('waiting');
-  const [bettingTimeLeft, setBettingTimeLeft] = useState(0);
-  const [bettingEndTime, setBettingEndTime] = useState<number | null>(null);
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Last fetched snapshot, serialized - lets the fallback poll tell whether anything changed
+  const snapshotFingerprintRef = useRef<string | null>(null);
+  // Whether the room chain's notification socket is up (polling only runs while it isn't)
+  const [isLive, setIsLive] = useState(false);
+
+  // The round, shared by every mode (see roundMachine). The ref lets callbacks read the phase
+  // a transition produced before React has re-rendered.
+  const [round, setRound] = useState<RoundState>(INITIAL_ROUND);
+  const roundRef = useRef(round);
+  // Local clock for the betting countdown
+  const [now, setNow] = useState(() => Date.now());
+  // Round saved before a page reload, applied once the first snapshot of the room arrives
+  const roundToRestoreRef = useRef<RoundState | null>(null);
+  // Betting window the host has already dealt a spin for
+  const dealtWindowRef = useRef<number | null>(null);
+
+  const advanceRound = useCallback((event: RoundEvent) => {
+    roundRef.current = nextRound(roundRef.current, event);
+    setRound(roundRef.current);
+    return roundRef.current;
+  }, []);
 
   // Reset game state when chain changes (host/join/leave)
   useEffect(() => {
@@ -102,237 +99,166 @@ export function useGame() {
         currentBets: [],
         lastResult: null,
         history: [],
+        bettingEndTime: null,
+        firstBetAt: null,
       });
       setPlayers([]);
-      setRoundPhase('waiting');
-      setBettingTimeLeft(0);
-      setBettingEndTime(null);
-      setIsWheelSpinning(false);
-      setPendingResult(null);
-      setShowResultPopup(false);
-      lastResultTimestampRef.current = null;
+      setTableLimitsState(DEFAULT_TABLE_LIMITS);
+      setRoundSettingsState(DEFAULT_ROUND_SETTINGS);
+      roundRef.current = INITIAL_ROUND;
+      setRound(INITIAL_ROUND);
+      dealtWindowRef.current = null;
       betsBeforeSpinRef.current = [];
+      pendingPlayersRef.current = null;
+      pendingHistoryRef.current = null;
     }
   }, [hostedChainId, joinedChainId, gameMode]);
 
-  // Fetch game state from GraphQL (queries HOST chain for game state)
-  const fetchGameState = useCallback(async () => {
-    if (!isConnected) return;
+  // Pick up the saved round after the reset above has run for the restored room
+  useEffect(() => {
+    if (restoredSession?.round) roundToRestoreRef.current = restoredSession.round;
+  }, [restoredSession]);
+
+  // Feed a room snapshot to the round. Balances and history from a spin are held back until the
+  // wheel stops, so the result isn't given away early.
+  const applySnapshot = useCallback((data: RoomSnapshot) => {
+    const saved = roundToRestoreRef.current;
+    if (saved) {
+      roundToRestoreRef.current = null;
+      console.log('[RESTORE] Restoring round in phase:', saved.phase);
+      roundRef.current = restoredRound(saved);
+    }
 
-    try {
-      // Query HOST chain for game state (game state lives on host)
-      const data = await queryHost(`
-        query {
-          gameState {
-            isSpinning
-            currentBets {
-              playerChainId
-              playerName
-              betType
-              numbers
-              amount
-            }
-            lastResult {
-              number
-              color
-              timestamp
-              winners {
-                playerChainId
-                playerName
-                betType
-                betAmount
-                payout
-              }
-            }
-            history
-          }
-          players {
-            chainId
-            name
-            balance
-          }
-        }
-      `);
+    // This player's stake as of the previous snapshot - settling clears the table
+    const stake = betsBeforeSpinRef.current
+      .filter(bet => bet.playerChainId === playerId)
+      .reduce((sum, bet) => sum + bet.amount, 0);
+    const next = advanceRound({
+      type: 'snapshot',
+      now: Date.now(),
+      bettingEndTime: data.gameState.bettingEndTime,
+      lastResult: data.gameState.lastResult,
+      stake,
+    });
+    if (data.gameState.currentBets.length > 0) {
+      betsBeforeSpinRef.current = [...data.gameState.currentBets];
+    }
 
+    setTableLimitsState(data.tableLimits);
+    setRoundSettingsState(data.roundSettings);
+    if (next.phase === 'spinning' || next.phase === 'settling') {
+      pendingPlayersRef.current = data.players;
+      pendingHistoryRef.current = data.gameState.history;
+      setGameState(prev => ({ ...data.gameState, history: prev.history, lastResult: prev.lastResult }));
+    } else {
       setGameState(data.gameState);
       setPlayers(data.players);
+    }
+  }, [playerId, advanceRound]);
+
+  // Fetch game state from GraphQL (queries HOST chain for game state).
+  // Resolves to whether the room changed since the previous fetch (drives the fallback poll rate)
+  const fetchGameState = useCallback(async (): Promise<boolean> => {
+    if (!isConnected) return false;
+
+    try {
+      // Query HOST chain for game state (game state lives on host)
+      const data = await client.snapshot();
+
+      applySnapshot(data);
+
+      const fingerprint = JSON.stringify(data);
+      const changed = fingerprint !== snapshotFingerprintRef.current;
+      snapshotFingerprintRef.current = fingerprint;
+      return changed;
     } catch (err) {
       console.error('[GAME] Failed to fetch game state:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch game state');
+      // Connectivity problems are reported by the link indicator in the header
+      if (!(err instanceof NetworkError)) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch game state');
+      }
+      return false;
     }
-  }, [queryHost, isConnected]);
+  }, [client, isConnected, applySnapshot]);
 
-  // Subscribe to real-time updates
+  // Latest fetch for the long-lived subscription and poll loops (avoids reopening the socket)
+  const refreshRef = useRef(fetchGameState);
+  refreshRef.current = fetchGameState;
+
+  // Subscribe to new blocks on the room chain - the only time game state can change
   useEffect(() => {
     if (!isConnected) return;
 
-    const unsubscribe = subscribe((event: any) => {
-      console.log('[GAME] Event received:', event);
-      // Skip fetching during spin to avoid duplicate updates
-      if (isSpinningRef.current) {
-        console.log('[GAME] Skipping fetch during spin');
-        return;
-      }
-      // Refresh game state on any event
-      fetchGameState();
+    const unsubscribe = subscribe({
+      onNewBlock: (height) => {
+        // Skip fetching while the wheel turns - the result is already in
+        if (roundRef.current.phase === 'spinning') {
+          console.log('[GAME] Skipping fetch during spin');
+          return;
+        }
+        console.log('[GAME] New block on room chain:', height);
+        refreshRef.current();
+      },
+      onStatusChange: setIsLive,
     });
 
     // Initial fetch
-    fetchGameState();
+    refreshRef.current();
 
-    return unsubscribe;
-  }, [isConnected, subscribe, fetchGameState]);
+    return () => {
+      unsubscribe();
+      setIsLive(false);
+    };
+  }, [isConnected, subscribe]);
 
-  // Polling for ALL modes to keep game state fresh (bets, players, etc.)
+  // Fallback polling, only while the notification socket is down.
+  // Backs off while nothing changes and snaps back to the fast rate on any change.
   useEffect(() => {
-    if (!isConnected) return;
-    // Skip polling during spin animation to avoid state conflicts
-    if (isSpinningRef.current) return;
-
-    const pollInterval = setInterval(async () => {
-      try {
-        // Don't poll during spinning
-        if (isSpinningRef.current) return;
-
-        await fetchGameState();
-      } catch (err) {
-        console.error('[POLL] Error refreshing game state:', err);
-      }
-    }, 2000); // Poll every 2 seconds
+    if (!isConnected || isLive) return;
+
+    let delay = MIN_POLL_INTERVAL;
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      // Don't poll while the wheel turns
+      const changed = roundRef.current.phase === 'spinning' ? false : await refreshRef.current();
+      if (cancelled) return;
+      delay = changed ? MIN_POLL_INTERVAL : Math.min(delay * 2, MAX_POLL_INTERVAL);
+      pollTimer = setTimeout(poll, delay);
+    };
+    pollTimer = setTimeout(poll, delay);
 
-    return () => clearInterval(pollInterval);
-  }, [isConnected, fetchGameState]);
+    return () => {
+      cancelled = true;
+      clearTimeout(pollTimer);
+    };
+  }, [isConnected, isLive]);
 
-  // Sync with host chain (for joined players only) - detect new results and betting
+  // Local clock for the countdown and no more bets. Works off timestamps, so a throttled
+  // background tab catches up on its first tick (or as soon as it's visible again).
   useEffect(() => {
-    // Must be connected, in join mode, AND have a playerId (for bet filtering)
-    if (!isConnected || gameMode !== 'join' || !playerId) return;
-
-    const pollInterval = setInterval(async () => {
-      // Skip polling while wheel is spinning locally
-      if (isSpinningRef.current) return;
-
-      try {
-        const data = await queryHost(`
-          query {
-            gameState {
-              currentBets { playerChainId amount }
-              bettingEndTime
-              lastResult {
-                number
-                color
-                timestamp
-                winners {
-                  playerChainId
-                  playerName
-                  betType
-                  betAmount
-                  payout
-                }
-              }
-            }
-            players {
-              chainId
-              name
-              balance
-            }
-          }
-        `);
-
-        const currentTimestamp = data.gameState.lastResult?.timestamp || null;
-
-        // Detect NEW result (timestamp changed) - this means host spun the wheel
-        if (currentTimestamp && currentTimestamp !== lastResultTimestampRef.current && !isWheelSpinning) {
-          console.log('[SYNC] New result detected! Timestamp:', currentTimestamp);
-          console.log('[SYNC] Previous timestamp:', lastResultTimestampRef.current);
-
-          // Trigger wheel animation (even for first result if we're in betting phase)
-          // This handles: 1) subsequent spins, 2) first spin if joined player was waiting
-          const shouldTriggerWheel = lastResultTimestampRef.current !== null || roundPhase === 'betting';
-
-          if (shouldTriggerWheel) {
-            console.log('[SYNC] Triggering wheel animation for joined player');
-
-            // Clear any betting timer
-            if (timerRef.current) {
-              clearInterval(timerRef.current);
-              timerRef.current = null;
-            }
-            setBettingTimeLeft(0);
-
-            // Use bets saved during betting phase (betsBeforeSpinRef was updated during polling)
-            const myBets = betsBeforeSpinRef.current.filter(b => b.playerChainId === playerId);
-            const myTotalBet = myBets.reduce((sum, b) => sum + b.amount, 0);
-            console.log('[SYNC] Joined player bets from saved ref:', myTotalBet);
-
-            // Set result with totalBetAmount for stats calculation
-            const resultWithBets = {
-              ...data.gameState.lastResult,
-              totalBetAmount: myTotalBet,
-            };
-            console.log('[SYNC] Setting pendingResult with number:', resultWithBets.number);
-            setPendingResult(resultWithBets);
-            pendingPlayersRef.current = data.players;
-
-            // Start wheel animation
-            setRoundPhase('spinning');
-            setIsWheelSpinning(true);
-            isSpinningRef.current = true;
-          } else {
-            console.log('[SYNC] Skipping wheel - first load, not in betting phase');
-          }
-
-          // Update the stored timestamp
-          lastResultTimestampRef.current = currentTimestamp;
-        }
-
-        // Initialize timestamp if null and no result yet (fresh game)
-        if (!currentTimestamp && lastResultTimestampRef.current === null) {
-          // Mark as initialized with empty string so we detect first result
-          lastResultTimestampRef.current = '';
-          console.log('[SYNC] Fresh game - initialized timestamp ref as empty');
-        }
-
-        // Sync timer from host's bettingEndTime (for joined players)
-        if (data.gameState.bettingEndTime) {
-          const now = Date.now();
-          const remaining = Math.max(0, Math.ceil((data.gameState.bettingEndTime - now) / 1000));
-
-          if (remaining > 0) {
-            // Betting is active - sync the timer
-            if (roundPhase !== 'betting') {
-              console.log('[SYNC] Betting phase started from host, remaining:', remaining);
-              setRoundPhase('betting');
-            }
-            setBettingTimeLeft(remaining);
-          } else {
-            // Timer expired - will soon spin
-            console.log('[SYNC] Betting timer expired');
-          }
-        } else if (data.gameState.currentBets.length > 0 && roundPhase === 'waiting') {
-          // Fallback: Detect betting phase from bets if no bettingEndTime
-          console.log('[SYNC] Detected bets - betting phase active (no timer)');
-          setRoundPhase('betting');
-        }
-
-        // During betting phase, continuously save bets so we have them when spin happens
-        if (data.gameState.currentBets.length > 0) {
-          betsBeforeSpinRef.current = [...data.gameState.currentBets];
-        }
+    if (round.phase !== 'betting' && round.phase !== 'noMoreBets') return;
 
-        // Note: Don't reset to waiting here - wheel animation will reset it when complete
-      } catch (err) {
-        console.error('[SYNC] Polling error:', err);
-      }
-    }, 1000); // Poll every 1 second for faster sync
-
-    return () => clearInterval(pollInterval);
-  }, [isConnected, gameMode, isWheelSpinning, roundPhase, queryHost, playerId]);
+    const tick = () => {
+      const time = Date.now();
+      setNow(time);
+      advanceRound({ type: 'tick', now: time });
+    };
+    const onVisible = () => document.visibilityState === 'visible' && tick();
+    tick();
+    const clock = setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(clock);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [round.phase, advanceRound]);
 
   // Load stats when playerId changes
   useEffect(() => {
     if (playerId) {
-      const saved = localStorage.getItem(`roulette_stats_${playerId}`);
+      const saved = localStorage.getItem(statsKey(playerId));
       if (saved) {
         const parsed = JSON.parse(saved);
         // Ensure all fields exist (for backwards compatibility)
@@ -354,15 +280,10 @@ export function useGame() {
   // Save stats whenever they change
   useEffect(() => {
     if (playerId) {
-      localStorage.setItem(`roulette_stats_${playerId}`, JSON.stringify(playerStats));
+      localStorage.setItem(statsKey(playerId), JSON.stringify(playerStats));
     }
   }, [playerStats, playerId]);
 
-  // Debug: Log when showResultPopup changes
-  useEffect(() => {
-    console.log('[useGame] showResultPopup changed to:', showResultPopup, 'pendingResult:', !!pendingResult);
-  }, [showResultPopup, pendingResult]);
-
   // Register player
   const registerPlayer = useCallback(
     async (name: string, initialBalance: number) => {
@@ -371,11 +292,7 @@ export function useGame() {
 
       try {
         // Pass playerId to uniquely identify this player (allows multiple players on same chain)
-        await mutate(`
-          mutation RegisterPlayer($playerId: String!, $name: String!, $initialBalance: Int!) {
-            registerPlayer(playerId: $playerId, name: $name, initialBalance: $initialBalance)
-          }
-        `, { playerId, name, initialBalance });
+        await client.registerPlayer(playerId, name, initialBalance);
 
         // Refresh state
         await fetchGameState();
@@ -386,268 +303,281 @@ export function useGame() {
         setIsLoading(false);
       }
     },
-    [mutate, fetchGameState, playerId]
+    [client, fetchGameState, playerId]
   );
 
-  // Place bet
-  const placeBet = useCallback(
-    async (betType: string, numbers: number[], amount: number) => {
+  // One placeBets operation for the whole layout. The contract places all of it or nothing, so
+  // the player's bet count before and after tells us which. Returns the fresh snapshot, or the
+  // error to show when the layout was rejected (with the contract's reason).
+  const submitLayout = useCallback(
+    async (bets: BetSelection[]): Promise<RoomSnapshot | string> => {
+      const myBetCount = (data: RoomSnapshot) =>
+        data.gameState.currentBets.filter(bet => bet.playerChainId === playerId).length;
+
+      const before = myBetCount(await client.snapshot());
+      await client.placeBets(playerId, bets);
+      const data = await client.snapshot();
+      applySnapshot(data);
+      if (myBetCount(data) >= before + bets.length) return data;
+      const reason = await client.layoutRejection(playerId).catch(() => null);
+      return `Bets not placed - ${reason ?? LAYOUT_REJECTED}`;
+    },
+    [client, playerId, applySnapshot]
+  );
+
+  // Place a layout; resolves true once the chain has taken all of it
+  const placeBets = useCallback(
+    async (bets: BetSelection[]): Promise<boolean> => {
       setIsLoading(true);
       setError(null);
 
       try {
-        // Pass playerId to identify which player is placing the bet
-        await mutate(`
-          mutation PlaceBet($playerId: String!, $betType: BetType!, $numbers: [Int!]!, $amount: Int!) {
-            placeBet(playerId: $playerId, betType: $betType, numbers: $numbers, amount: $amount)
-          }
-        `, { playerId, betType, numbers, amount });
-
-        // Refresh state
-        await fetchGameState();
+        const placed = await submitLayout(bets);
+        if (typeof placed !== 'string') return true;
+        setError(placed);
+        return false;
       } catch (err) {
-        console.error('[GAME] Failed to place bet:', err);
-        setError(err instanceof Error ? err.message : 'Failed to place bet');
+        console.error('[GAME] Failed to place bets:', err);
+        setError(err instanceof Error ? err.message : 'Failed to place bets');
+        return false;
       } finally {
         setIsLoading(false);
       }
     },
-    [mutate, fetchGameState, playerId]
+    [submitLayout]
   );
 
-  // Spin wheel - properly manages animation timing
-  const spinWheel = useCallback(async () => {
+  // Ask the chain to spin. Callers that have just placed bets pass them in, since gameState
+  // won't have caught up yet. The wheel starts once the result arrives with the snapshot.
+  // Resolves false if the spin failed.
+  const spinWheel = useCallback(async (placedBets: Bet[] = gameState.currentBets): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
-    setShowResultPopup(false);
 
     // Store current bets before spinning to calculate total bet amount
-    betsBeforeSpinRef.current = [...gameState.currentBets];
-    const totalBetAmount = gameState.currentBets
-      .filter(bet => bet.playerChainId === playerId)
-      .reduce((sum, bet) => sum + bet.amount, 0);
+    betsBeforeSpinRef.current = [...placedBets];
+    advanceRound({ type: 'spinRequested', now: Date.now() });
 
     try {
-      // Start the wheel animation BEFORE the mutation
-      setIsWheelSpinning(true);
-      isSpinningRef.current = true;
-
       // Execute the spin mutation (goes to player chain, forwarded to host)
-      await mutate(`
-        mutation {
-          spinWheel
-        }
-      `);
-
-      // Fetch the result from HOST chain but DON'T show it yet
-      const data = await queryHost(`
-        query {
-          gameState {
-            isSpinning
-            currentBets {
-              playerChainId
-              playerName
-              betType
-              numbers
-              amount
-            }
-            lastResult {
-              number
-              color
-              timestamp
-              winners {
-                playerChainId
-                playerName
-                betType
-                betAmount
-                payout
-              }
-            }
-            history
-          }
-          players {
-            chainId
-            name
-            balance
-          }
-        }
-      `);
-
-      // Store the result with total bet amount for later display
-      const result = data.gameState.lastResult;
-      console.log('[HOST] spinWheel - Got result number:', result?.number);
-      if (result) {
-        result.totalBetAmount = totalBetAmount;
-      }
-      console.log('[HOST] Setting pendingResult with number:', result?.number);
-      setPendingResult(result);
-
-      // Store players update for AFTER wheel animation completes (don't update balance yet)
-      pendingPlayersRef.current = data.players;
-
-      // Store history update for AFTER wheel animation completes
-      pendingHistoryRef.current = data.gameState.history;
-
-      // Clear bets after spin (but don't update history yet)
-      setGameState(prev => ({
-        ...prev,
-        currentBets: [], // Clear bets after spin
-      }));
-
+      await client.spinWheel();
+      applySnapshot(await client.snapshot());
+      return true;
     } catch (err) {
       console.error('[GAME] Failed to spin wheel:', err);
       setError(err instanceof Error ? err.message : 'Failed to spin wheel');
-      setIsWheelSpinning(false);
-      isSpinningRef.current = false;
+      advanceRound({ type: 'spinFailed' });
+      return false;
     } finally {
       setIsLoading(false);
     }
-  }, [mutate, queryHost, gameState.currentBets, playerId]);
+  }, [client, gameState.currentBets, advanceRound, applySnapshot]);
 
-  // Start a new betting round (HOST ONLY) - starts 30 sec timer then auto-spins
-  const startRound = useCallback(async () => {
-    if (roundPhase !== 'waiting') return;
-    if (!isHost) return; // Safety check
+  // The host deals: when its clock calls no more bets, it spins once for that window. An empty
+  // table isn't spun (the contract would ignore it) - the round times out back to waiting.
+  useEffect(() => {
+    if (!isHost || gameMode !== 'host' || round.phase !== 'noMoreBets' || round.bettingEndTime === null) return;
+    if (dealtWindowRef.current === round.bettingEndTime) return;
+    dealtWindowRef.current = round.bettingEndTime;
+    if (gameState.currentBets.length > 0) spinWheel();
+  }, [isHost, gameMode, round.phase, round.bettingEndTime, gameState.currentBets.length, spinWheel]);
+
+  // Dealer failover: when the host's spin doesn't land, joined players with bets take their
+  // turn to send it (see lib/failover). Rescheduled on every snapshot, so a spin from anyone
+  // else clears the table and cancels it.
+  const failoverAt = gameMode === 'join' ? failoverSpinAt(gameState, playerId) : null;
+  // Whether this player spun the current round for the host, shown at the table until the round is over
+  const [spunForHost, setSpunForHost] = useState(false);
+  useEffect(() => {
+    if (failoverAt === null) return;
+    const timer = setTimeout(() => {
+      console.info('[FAILOVER] No spin from the host - spinning for the room');
+      setSpunForHost(true);
+      spinWheel();
+    }, Math.max(0, failoverAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [failoverAt, spinWheel]);
+
+  useEffect(() => {
+    if (round.phase === 'waiting' || round.phase === 'betting') setSpunForHost(false);
+  }, [round.phase]);
 
-    // Call contract mutation to set betting_end_time on-chain (for joined players to sync)
+  // Bets nobody spun can be refunded once the chain's deadline has passed
+  const refundAt = refundDeadline(gameState);
+  const [refundDue, setRefundDue] = useState(false);
+  useEffect(() => {
+    setRefundDue(refundAt !== null && Date.now() >= refundAt);
+    if (refundAt === null || Date.now() >= refundAt) return;
+    const timer = setTimeout(() => setRefundDue(true), refundAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [refundAt]);
+
+  const refundRound = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
     try {
-      await mutate(`mutation { startRound }`);
+      await client.refundRound();
+      await fetchGameState();
     } catch (err) {
-      console.error('[startRound] Failed to call startRound mutation:', err);
+      console.error('[GAME] Failed to refund round:', err);
+      setError(err instanceof Error ? err.message : 'Failed to refund round');
+    } finally {
+      setIsLoading(false);
     }
+  }, [client, fetchGameState]);
 
-    const endTime = Date.now() + 30000; // 30 seconds from now
-    setBettingEndTime(endTime);
-    setRoundPhase('betting');
-    setBettingTimeLeft(30);
-
-    // Clear any existing timer
-    if (timerRef.current) clearInterval(timerRef.current);
-
-    // Start countdown using timestamp (immune to background tab throttling)
-    timerRef.current = setInterval(() => {
-      const remaining = Math.ceil((endTime - Date.now()) / 1000);
-      if (remaining <= 0) {
-        if (timerRef.current) clearInterval(timerRef.current);
-        timerRef.current = null;
-        setBettingEndTime(null);
-        setBettingTimeLeft(0);
-        setRoundPhase('spinning');
-        spinWheel();
-      } else {
-        setBettingTimeLeft(remaining);
+  // Solo rebet-and-spin (and autoplay): place the whole layout, then spin on the bets the chain
+  // accepted. Resolves true once the wheel is spinning.
+  const placeBetsAndSpin = useCallback(
+    async (bets: BetSelection[]): Promise<boolean> => {
+      setIsLoading(true);
+      setError(null);
+
+      let placed: RoomSnapshot | string;
+      try {
+        placed = await submitLayout(bets);
+      } catch (err) {
+        console.error('[GAME] Failed to place bets:', err);
+        setError(err instanceof Error ? err.message : 'Failed to place bets');
+        setIsLoading(false);
+        return false;
       }
-    }, 1000);
-  }, [roundPhase, isHost, spinWheel, mutate]);
 
-  // Recalculate timer when tab becomes visible (fixes background tab throttling)
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && bettingEndTime) {
-        const remaining = Math.ceil((bettingEndTime - Date.now()) / 1000);
-        if (remaining > 0) {
-          setBettingTimeLeft(remaining);
-        } else if (roundPhase === 'betting') {
-          // Timer expired while tab was hidden
-          setBettingTimeLeft(0);
-          setBettingEndTime(null);
-          if (isHost) {
-            setRoundPhase('spinning');
-            spinWheel();
-          }
-        }
+      if (typeof placed !== 'string') return spinWheel(placed.gameState.currentBets);
+      setError(placed);
+      setIsLoading(false);
+      return false;
+    },
+    [submitLayout, spinWheel]
+  );
+
+  // Change the room's table limits (HOST ONLY, between rounds). Resolves true once the chain
+  // has them - the contract ignores the change while bets are on the table.
+  const setTableLimits = useCallback(
+    async (limits: TableLimits): Promise<boolean> => {
+      if (!isHost) return false;
+      setError(null);
+      try {
+        await client.setTableLimits(playerId, limits);
+        const data = await client.snapshot();
+        setTableLimitsState(data.tableLimits);
+        return sameLimits(data.tableLimits, limits);
+      } catch (err) {
+        console.error('[GAME] Failed to set table limits:', err);
+        setError(err instanceof Error ? err.message : 'Failed to set table limits');
+        return false;
       }
-    };
+    },
+    [client, isHost, playerId]
+  );
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [bettingEndTime, roundPhase, isHost, spinWheel]);
+  // Change how the room paces its rounds (HOST ONLY, same rules as the limits)
+  const setRoundSettings = useCallback(
+    async (settings: RoundSettings): Promise<boolean> => {
+      if (!isHost) return false;
+      setError(null);
+      try {
+        await client.setRoundSettings(playerId, settings);
+        const data = await client.snapshot();
+        setRoundSettingsState(data.roundSettings);
+        return sameRoundSettings(data.roundSettings, settings);
+      } catch (err) {
+        console.error('[GAME] Failed to set round settings:', err);
+        setError(err instanceof Error ? err.message : 'Failed to set round settings');
+        return false;
+      }
+    },
+    [client, isHost, playerId]
+  );
 
-  // Called when wheel animation completes
-  const onWheelAnimationComplete = useCallback(() => {
-    console.log('[useGame] onWheelAnimationComplete called');
-    console.log('[useGame] pendingResult:', pendingResult);
-    console.log('[useGame] chainId:', chainId);
+  // Start a new betting round (HOST ONLY). The chain opens the room's betting window; every
+  // client, the host included, picks it up from the snapshot.
+  const startRound = useCallback(async () => {
+    if (!isHost) return;
+    if (roundRef.current.phase !== 'waiting' && roundRef.current.phase !== 'resultShown') return;
 
-    setIsWheelSpinning(false);
+    try {
+      await client.startRound();
+      await fetchGameState();
+    } catch (err) {
+      console.error('[startRound] Failed to call startRound mutation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start round');
+    }
+  }, [isHost, client, fetchGameState]);
+
+  // Keep the saved session's round current so a reload can pick it up
+  useEffect(() => {
+    if (gameMode === 'selecting' || roundToRestoreRef.current) return;
+    saveSessionRound(round);
+  }, [gameMode, round]);
+
+  // Settle once the wheel has stopped: balances, history and stats land, then the popup shows
+  useEffect(() => {
+    if (round.phase !== 'settling') return;
 
-    // NOW update the players (balance) - only after wheel stops
     if (pendingPlayersRef.current) {
       setPlayers(pendingPlayersRef.current);
       pendingPlayersRef.current = null;
     }
-
-    // NOW update the history - only after wheel stops
-    if (pendingHistoryRef.current) {
-      setGameState(prev => ({
-        ...prev,
-        history: pendingHistoryRef.current!,
-      }));
-      pendingHistoryRef.current = null;
-    }
-
-    if (pendingResult) {
-      console.log('[useGame] pendingResult exists, updating state and showing popup');
-
-      // Update game state with the result
-      setGameState(prev => ({
-        ...prev,
-        lastResult: pendingResult,
-        isSpinning: false,
-      }));
-
-      // Calculate if current player won or lost
-      const myWin = pendingResult.winners.find(w => w.playerChainId === playerId);
-      const totalBetAmount = pendingResult.totalBetAmount || 0;
-
-      // Always increment rounds and wagered if player had bets
-      if (totalBetAmount > 0) {
-        if (myWin) {
-          // Player won
-          console.log('[useGame] Player WON! Payout:', myWin.payout);
-          const netProfit = myWin.payout; // payout is the net profit (winnings)
-          setPlayerStats(prev => ({
-            ...prev,
-            totalWins: prev.totalWins + 1,
-            totalWinAmount: prev.totalWinAmount + netProfit,
-            totalRounds: prev.totalRounds + 1,
-            totalWagered: prev.totalWagered + totalBetAmount,
-            bestWin: Math.max(prev.bestWin, netProfit),
-          }));
-        } else {
-          // Player lost (had bets but no win)
-          console.log('[useGame] Player LOST! Lost amount:', totalBetAmount);
-          setPlayerStats(prev => ({
-            ...prev,
-            totalLosses: prev.totalLosses + 1,
-            totalLossAmount: prev.totalLossAmount + totalBetAmount,
-            totalRounds: prev.totalRounds + 1,
-            totalWagered: prev.totalWagered + totalBetAmount,
-          }));
-        }
+    const history = pendingHistoryRef.current;
+    pendingHistoryRef.current = null;
+    setGameState(prev => ({
+      ...prev,
+      history: history ?? prev.history,
+      lastResult: round.result ?? prev.lastResult,
+      isSpinning: false,
+    }));
+    betsBeforeSpinRef.current = [];
+
+    const myWin = round.result?.winners.find(w => w.playerChainId === playerId);
+    const totalBetAmount = round.stake;
+
+    // Always increment rounds and wagered if player had bets
+    if (totalBetAmount > 0) {
+      if (myWin) {
+        console.log('[useGame] Player WON! Payout:', myWin.payout);
+        const netProfit = myWin.payout; // payout is the net profit (winnings)
+        setPlayerStats(prev => ({
+          ...prev,
+          totalWins: prev.totalWins + 1,
+          totalWinAmount: prev.totalWinAmount + netProfit,
+          totalRounds: prev.totalRounds + 1,
+          totalWagered: prev.totalWagered + totalBetAmount,
+          bestWin: Math.max(prev.bestWin, netProfit),
+        }));
+      } else {
+        console.log('[useGame] Player LOST! Lost amount:', totalBetAmount);
+        setPlayerStats(prev => ({
+          ...prev,
+          totalLosses: prev.totalLosses + 1,
+          totalLossAmount: prev.totalLossAmount + totalBetAmount,
+          totalRounds: prev.totalRounds + 1,
+          totalWagered: prev.totalWagered + totalBetAmount,
+        }));
       }
-
-      // Show the result popup
-      console.log('[useGame] Setting showResultPopup to true');
-      setShowResultPopup(true);
-    } else {
-      console.log('[useGame] WARNING: pendingResult is null/undefined!');
     }
 
-    // Only now allow subscription to fetch again (after all updates done)
-    isSpinningRef.current = false;
+    advanceRound({ type: 'settled' });
+  }, [round, playerId, advanceRound]);
 
-    // Reset round phase to waiting for next round
-    setRoundPhase('waiting');
-  }, [pendingResult, playerId]);
+  // Called when wheel animation completes
+  const onWheelAnimationComplete = useCallback(() => {
+    advanceRound({ type: 'wheelStopped' });
+  }, [advanceRound]);
 
   // Dismiss the result popup
   const dismissResultPopup = useCallback(() => {
-    setShowResultPopup(false);
-    setPendingResult(null);
+    advanceRound({ type: 'dismissed' });
     // Refresh game state to ensure everything is in sync
     fetchGameState();
-  }, [fetchGameState]);
+  }, [advanceRound, fetchGameState]);
+
+  const isWheelSpinning = isWheelBusy(round.phase);
+  const showResultPopup = round.phase === 'resultShown';
+  const pendingResult = useMemo<SpinResult | null>(
+    () => (round.result ? { ...round.result, totalBetAmount: round.stake } : null),
+    [round.result, round.stake]
+  );
 
   // Get current player (match by playerId since contract stores player_id in chain_id field)
   const currentPlayer = players.find((p) => p.chainId === playerId) || null;
@@ -659,8 +589,9 @@ export function useGame() {
     isLoading,
     error,
     registerPlayer,
-    placeBet,
+    placeBets,
     spinWheel,
+    placeBetsAndSpin,
     fetchGameState,
     // New exports for proper animation timing
     isWheelSpinning,
@@ -670,8 +601,15 @@ export function useGame() {
     dismissResultPopup,
     playerStats,
     // Multiplayer sync exports
-    roundPhase,
-    bettingTimeLeft,
+    roundPhase: round.phase,
+    bettingTimeLeft: bettingSecondsLeft(round, now),
     startRound,
+    tableLimits,
+    setTableLimits,
+    roundSettings,
+    setRoundSettings,
+    spunForHost,
+    refundDue,
+    refundRound,
   };
 }
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { actionForKey, type KeyAction, type KeyBindings } from '../lib/keyBindings';
+
+const MOVES: KeyAction[] = ['up', 'down', 'left', 'right'];
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Runs the handler bound to each key press; null bindings switch the shortcuts off (e.g. while a
+// dialog has the keyboard). Presses inside form fields and with Ctrl/Alt/Meta are left alone, and
+// only moves repeat while a key is held.
+export function useHotkeys(bindings: KeyBindings | null, handlers: Partial<Record<KeyAction, () => void>>) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!bindings) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey || isTyping(event.target)) return;
+      const action = actionForKey(bindings, event.key);
+      const handler = action && handlersRef.current[action];
+      if (!handler || (event.repeat && !MOVES.includes(action))) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [bindings]);
+}
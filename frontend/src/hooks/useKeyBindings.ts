@@ -0,0 +1,18 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_KEY_BINDINGS, loadKeyBindings, rebind, saveKeyBindings, type KeyAction, type KeyBindings } from '../lib/keyBindings';
+
+// This browser's shortcut bindings, saved on every change
+export function useKeyBindings() {
+  const [bindings, setBindings] = useState<KeyBindings>(loadKeyBindings);
+
+  const update = useCallback((next: KeyBindings) => {
+    setBindings(next);
+    saveKeyBindings(next);
+  }, []);
+
+  const bind = useCallback((action: KeyAction, key: string) => update(rebind(bindings, action, key)), [bindings, update]);
+
+  const reset = useCallback(() => update(DEFAULT_KEY_BINDINGS), [update]);
+
+  return { bindings, bind, reset };
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLinera } from '../contexts/LineraContext';
+import type { RoomSummary } from '../graphql/client';
+import { isLeaseActive } from '../lib/lease';
+
+export type LobbyPhase = 'waiting' | 'betting' | 'spinning';
+
+export interface LobbyRoom {
+  chainId: string;
+  name: string;
+  // Owner holding the room's lease, if anyone is hosting it right now
+  host: string | null;
+  playerCount: number;
+  phase: LobbyPhase;
+  recentNumbers: number[];
+  totalPot: number;
+  // False until the room answers (and again whenever a refresh fails)
+  reachable: boolean;
+}
+
+interface RoomReading {
+  summary: RoomSummary | null;
+  reachable: boolean;
+}
+
+// One notification socket per room would be too many for a lobby, so it polls while on screen
+const LOBBY_REFRESH_MS = 5000;
+const RECENT_NUMBERS = 5;
+
+const phaseOf = (summary: RoomSummary, now: number): LobbyPhase => {
+  if (summary.gameState.isSpinning) return 'spinning';
+  const endTime = summary.gameState.bettingEndTime;
+  return endTime !== null && endTime > now ? 'betting' : 'waiting';
+};
+
+// Every room from rooms.json plus any pool room someone is hosting, with a live summary of each
+export function useLobby(enabled: boolean) {
+  const { rooms, chainPool, clientFor, isConnected, appId } = useLinera();
+  const [readings, setReadings] = useState<Record<string, RoomReading>>({});
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const listed = useMemo(() => {
+    const entries = rooms.map(r => ({ chainId: r.chainId, name: r.name }));
+    for (const c of chainPool) {
+      if (c.inUse && !entries.some(e => e.chainId === c.chainId)) {
+        entries.push({ chainId: c.chainId, name: `Table ${c.id}` });
+      }
+    }
+    return entries;
+  }, [rooms, chainPool]);
+  const listedRef = useRef(listed);
+  listedRef.current = listed;
+  const listedKey = listed.map(r => r.chainId).join(',');
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    const results = await Promise.all(listedRef.current.map(async ({ chainId }) => {
+      try {
+        return { chainId, summary: await clientFor(chainId).summary() };
+      } catch (err) {
+        console.warn('[LOBBY] Failed to read room', chainId.slice(0, 16), err);
+        return { chainId, summary: null };
+      }
+    }));
+    setReadings(prev => {
+      const next = { ...prev };
+      for (const { chainId, summary } of results) {
+        // Keep showing the last good summary of a room that stopped answering
+        next[chainId] = summary
+          ? { summary, reachable: true }
+          : { summary: prev[chainId]?.summary ?? null, reachable: false };
+      }
+      return next;
+    });
+    setIsRefreshing(false);
+  }, [clientFor]);
+
+  useEffect(() => {
+    if (!enabled || !isConnected || !appId) return;
+    refresh();
+    const timer = setInterval(refresh, LOBBY_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [enabled, isConnected, appId, listedKey, refresh]);
+
+  const lobbyRooms = useMemo<LobbyRoom[]>(() => {
+    const now = Date.now();
+    return listed.map(({ chainId, name }) => {
+      const reading = readings[chainId];
+      const summary = reading?.summary;
+      return {
+        chainId,
+        name,
+        host: summary && isLeaseActive(summary.lease, now) ? summary.lease!.owner : null,
+        playerCount: summary?.players.length ?? 0,
+        phase: summary ? phaseOf(summary, now) : 'waiting',
+        recentNumbers: summary?.gameState.history.slice(-RECENT_NUMBERS).reverse() ?? [],
+        totalPot: summary?.totalPot ?? 0,
+        reachable: reading?.reachable ?? false,
+      };
+    });
+  }, [listed, readings]);
+
+  return { rooms: lobbyRooms, isRefreshing, refresh };
+}
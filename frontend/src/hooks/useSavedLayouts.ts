@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { BetSelection } from '../graphql/types';
+import { layoutFromBets, loadLayouts, parseLayouts, saveLayouts, type SavedLayout } from '../lib/savedLayouts';
+
+// The active profile's saved layouts, written back to storage on every change
+export function useSavedLayouts(owner: string | null) {
+  const [layouts, setLayouts] = useState<SavedLayout[]>([]);
+
+  useEffect(() => {
+    setLayouts(owner ? loadLayouts(owner) : []);
+  }, [owner]);
+
+  const update = useCallback(
+    (next: SavedLayout[]) => {
+      setLayouts(next);
+      if (owner) saveLayouts(owner, next);
+    },
+    [owner]
+  );
+
+  const save = (name: string, bets: BetSelection[]) => update([...layouts, layoutFromBets(name, bets)]);
+
+  const remove = (id: string) => update(layouts.filter(layout => layout.id !== id));
+
+  // Adds the layouts in an exported file; throws with the reason if the file is rejected
+  const importLayouts = (contents: string) => {
+    const imported = parseLayouts(contents);
+    update([...layouts, ...imported]);
+    return imported.length;
+  };
+
+  return { layouts, save, remove, importLayouts };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SimulationReport, SimulationRequest, SimulatorMessage } from '../lib/simulator';
+
+// One simulation at a time in a Web Worker; starting another (or unmounting) ends the current one
+export function useSimulator() {
+  const workerRef = useRef<Worker | null>(null);
+  // 0..1 while a run is in progress
+  const [progress, setProgress] = useState<number | null>(null);
+  const [report, setReport] = useState<SimulationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const run = useCallback(
+    (request: SimulationRequest) => {
+      cancel();
+      setError(null);
+      setProgress(0);
+
+      const worker = new Worker(new URL('../lib/simulator.worker.ts', import.meta.url), { type: 'module' });
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<SimulatorMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          setProgress(message.done / message.total);
+          return;
+        }
+        setReport(message.report);
+        cancel();
+      };
+      worker.onerror = (event) => {
+        console.error('[SIMULATOR] Worker failed:', event.message);
+        setError(event.message || 'Simulation failed');
+        cancel();
+      };
+      worker.postMessage(request);
+    },
+    [cancel]
+  );
+
+  useEffect(() => cancel, [cancel]);
+
+  return { run, cancel, progress, report, error };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ANNOUNCED_BETS, MAX_NEIGHBOURS, chipUnits, neighboursBet, type AnnouncedChip } from './announcedBets';
+import { WHEEL_ORDER } from './rules';
+
+const covered = (chips: AnnouncedChip[]) => new Set(chips.flatMap(chip => chip.numbers));
+
+// The pockets from `from` round to `to` going the way WHEEL_ORDER runs, wrapping past 26 to 0
+const arc = (from: number, to: number) => {
+  const pockets = [];
+  for (let i = WHEEL_ORDER.indexOf(from); ; i = (i + 1) % WHEEL_ORDER.length) {
+    pockets.push(WHEEL_ORDER[i]);
+    if (WHEEL_ORDER[i] === to) return new Set(pockets);
+  }
+};
+
+describe('announced bets', () => {
+  it('costs the standard number of chips', () => {
+    expect(chipUnits(ANNOUNCED_BETS.voisins.chips)).toBe(9);
+    expect(chipUnits(ANNOUNCED_BETS.tiers.chips)).toBe(6);
+    expect(chipUnits(ANNOUNCED_BETS.orphelins.chips)).toBe(5);
+    expect(chipUnits(ANNOUNCED_BETS.jeuZero.chips)).toBe(4);
+  });
+
+  it('covers its own section of the wheel', () => {
+    expect(covered(ANNOUNCED_BETS.voisins.chips)).toEqual(arc(22, 25));
+    expect(covered(ANNOUNCED_BETS.tiers.chips)).toEqual(arc(27, 33));
+    expect(covered(ANNOUNCED_BETS.orphelins.chips)).toEqual(new Set([...arc(17, 6), ...arc(1, 9)]));
+    expect(covered(ANNOUNCED_BETS.jeuZero.chips)).toEqual(arc(12, 15));
+  });
+
+  it('splits the wheel between Voisins, Tiers and Orphelins', () => {
+    const sections = [ANNOUNCED_BETS.voisins, ANNOUNCED_BETS.tiers, ANNOUNCED_BETS.orphelins].map(bet =>
+      covered(bet.chips)
+    );
+    expect(sections.reduce((sum, section) => sum + section.size, 0)).toBe(WHEEL_ORDER.length);
+    expect(new Set(sections.flatMap(section => [...section]))).toEqual(new Set(WHEEL_ORDER));
+  });
+
+  it('plays neighbours as straight-ups either side of the centre, across the 0/26 wrap', () => {
+    const numbers = (chips: AnnouncedChip[]) => chips.map(chip => chip.numbers[0]);
+    expect(neighboursBet(17, 2).every(chip => chip.betType === 'STRAIGHT' && chip.units === 1)).toBe(true);
+    expect(numbers(neighboursBet(17, 2))).toEqual([2, 25, 17, 34, 6]);
+    expect(numbers(neighboursBet(0, 2))).toEqual([3, 26, 0, 32, 15]);
+    expect(numbers(neighboursBet(26, 2))).toEqual([35, 3, 26, 0, 32]);
+    expect(numbers(neighboursBet(32, 3))).toEqual([3, 26, 0, 32, 15, 19, 4]);
+  });
+
+  it('keeps the neighbour count in range', () => {
+    expect(neighboursBet(0, 9)).toHaveLength(2 * MAX_NEIGHBOURS + 1);
+    expect(neighboursBet(0, -1)).toEqual(neighboursBet(0, 0));
+    expect(neighboursBet(0, 0)).toHaveLength(1);
+    expect(neighboursBet(37, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { BetType } from '../graphql/types';
+import { WHEEL_ORDER } from './rules';
+
+// French announced bets. Each one is a fixed chip pattern on the layout, so it is played as a
+// set of ordinary inside bets - the contract never sees an "announced" bet.
+
+export type AnnouncedBetId = 'voisins' | 'tiers' | 'orphelins' | 'jeuZero';
+
+// One grid bet of `units` chips
+export interface AnnouncedChip {
+  betType: BetType;
+  numbers: number[];
+  units: number;
+}
+
+export interface AnnouncedBet {
+  id: AnnouncedBetId;
+  name: string;
+  chips: AnnouncedChip[];
+}
+
+const straight = (n: number, units = 1): AnnouncedChip => ({ betType: 'STRAIGHT', numbers: [n], units });
+const split = (a: number, b: number, units = 1): AnnouncedChip => ({ betType: 'SPLIT', numbers: [a, b], units });
+
+export const ANNOUNCED_BETS: Record<AnnouncedBetId, AnnouncedBet> = {
+  // 22 through 25 across zero: 9 chips
+  voisins: {
+    id: 'voisins',
+    name: 'Voisins du Zéro',
+    chips: [
+      { betType: 'TRIO', numbers: [0, 2, 3], units: 2 },
+      split(4, 7),
+      split(12, 15),
+      split(18, 21),
+      split(19, 22),
+      { betType: 'CORNER', numbers: [25, 26, 28, 29], units: 2 },
+      split(32, 35),
+    ],
+  },
+  // 27 through 33 opposite zero: 6 chips
+  tiers: {
+    id: 'tiers',
+    name: 'Tiers du Cylindre',
+    chips: [split(5, 8), split(10, 11), split(13, 16), split(23, 24), split(27, 30), split(33, 36)],
+  },
+  // The two arcs left between Voisins and Tiers: 5 chips
+  orphelins: {
+    id: 'orphelins',
+    name: 'Orphelins',
+    chips: [straight(1), split(6, 9), split(14, 17), split(17, 20), split(31, 34)],
+  },
+  // 12 through 15 across zero: 4 chips
+  jeuZero: {
+    id: 'jeuZero',
+    name: 'Jeu Zéro',
+    chips: [split(0, 3), split(12, 15), straight(26), split(32, 35)],
+  },
+};
+
+export const MAX_NEIGHBOURS = 4;
+
+// Straight-up on `center` and the `count` pockets either side of it on the wheel
+export function neighboursBet(center: number, count: number): AnnouncedChip[] {
+  const index = WHEEL_ORDER.indexOf(center);
+  if (index < 0) return [];
+  const span = Math.max(0, Math.min(count, MAX_NEIGHBOURS));
+  const chips: AnnouncedChip[] = [];
+  for (let offset = -span; offset <= span; offset++) {
+    chips.push(straight(WHEEL_ORDER[(index + offset + WHEEL_ORDER.length) % WHEEL_ORDER.length]));
+  }
+  return chips;
+}
+
+export const chipUnits = (chips: AnnouncedChip[]) => chips.reduce((sum, chip) => sum + chip.units, 0);
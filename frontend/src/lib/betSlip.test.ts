@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_SLIP,
+  addToSlip,
+  closeRound,
+  confirmSlip,
+  doubleSlip,
+  moveInSlip,
+  rebetSlip,
+  redoSlip,
+  removeFromSlip,
+  slipTotal,
+  undoSlip,
+} from './betSlip';
+
+const slip = addToSlip(
+  EMPTY_SLIP,
+  [
+    { key: 'straight-17', display: '17', amount: 15 },
+    { key: 'red', display: 'RED', amount: 10 },
+  ],
+  1000
+);
+
+describe('bet slip', () => {
+  it('removes one chip at a time, then the bet', () => {
+    const once = removeFromSlip(slip, 'straight-17', 10);
+    expect(once.layout.get('straight-17')?.amount).toBe(5);
+    expect(removeFromSlip(once, 'straight-17', 10).layout.has('straight-17')).toBe(false);
+    expect(removeFromSlip(slip, 'black', 10)).toBe(slip);
+  });
+
+  it('moves a whole bet as one undoable step, merging with what is there', () => {
+    const moved = moveInSlip(slip, 'straight-17', { key: 'red', display: 'RED' });
+    expect(moved.layout.has('straight-17')).toBe(false);
+    expect(moved.layout.get('red')?.amount).toBe(25);
+    expect(undoSlip(moved).layout).toBe(slip.layout);
+    expect(moveInSlip(slip, 'red', { key: 'red', display: 'RED' })).toBe(slip);
+  });
+
+  it('confirms the layout that was sent, not whatever the slip holds by then', () => {
+    const sent = slip.layout;
+    const changed = addToSlip(slip, [{ key: 'black', display: 'BLACK', amount: 5 }], 1000);
+    const confirmed = confirmSlip(changed, sent);
+    expect(confirmed.confirmed).toEqual(sent);
+    expect(confirmed.layout.size).toBe(0);
+  });
+
+  it('undoes and redoes steps, and a new step drops the redo stack', () => {
+    const undone = undoSlip(slip);
+    expect(undone.layout.size).toBe(0);
+    expect(undone.redo).toEqual([slip.layout]);
+    expect(redoSlip(undone).layout).toBe(slip.layout);
+    expect(undoSlip(EMPTY_SLIP)).toBe(EMPTY_SLIP);
+    expect(redoSlip(slip)).toBe(slip);
+
+    const branched = addToSlip(undone, [{ key: 'black', display: 'BLACK', amount: 5 }], 1000);
+    expect(branched.redo).toEqual([]);
+    expect(branched.undo).toHaveLength(1);
+  });
+
+  it('doubles only when the balance covers the doubled layout', () => {
+    const doubled = doubleSlip(slip, 50);
+    expect(slipTotal(doubled.layout)).toBe(50);
+    expect(doubled.layout.get('straight-17')?.amount).toBe(30);
+    expect(doubleSlip(slip, 49)).toBe(slip);
+    expect(doubleSlip(EMPTY_SLIP, 1000)).toBe(EMPTY_SLIP);
+  });
+
+  it('rotates confirmed bets into last round, and rebets them only if the balance allows', () => {
+    const played = closeRound(confirmSlip(slip));
+    expect(played.lastRound).toEqual(slip.layout);
+    expect(played.confirmed.size).toBe(0);
+    // Sitting a round out keeps the previous rebet layout
+    expect(closeRound(played).lastRound).toEqual(slip.layout);
+
+    expect(rebetSlip(played, 25).layout).toEqual(slip.layout);
+    expect(rebetSlip(played, 24)).toBe(played);
+    expect(rebetSlip(slip, 1000)).toBe(slip);
+  });
+});
@@ -0,0 +1,110 @@
+// Bet slip behind BettingTable: the layout being built with its undo/redo history, plus what was
+// confirmed this round and last round (for rebet). Every action returns a new slip, and an action
+// that would stake more than the balance returns the slip unchanged.
+
+export interface SlipEntry {
+  amount: number;
+  display: string;
+}
+
+// Keyed by BettingTable's bet keys (straight-17, split-17-20, red, dozen1, ...)
+export type SlipLayout = ReadonlyMap<string, SlipEntry>;
+
+export interface BetSlip {
+  layout: SlipLayout;
+  undo: SlipLayout[];
+  redo: SlipLayout[];
+  confirmed: SlipLayout;
+  lastRound: SlipLayout | null;
+}
+
+export interface SlipAddition {
+  key: string;
+  display: string;
+  amount: number;
+}
+
+const MAX_HISTORY = 50;
+
+export const EMPTY_SLIP: BetSlip = { layout: new Map(), undo: [], redo: [], confirmed: new Map(), lastRound: null };
+
+export const slipTotal = (layout: SlipLayout) =>
+  Array.from(layout.values()).reduce((sum, entry) => sum + entry.amount, 0);
+
+function merge(base: SlipLayout, additions: SlipAddition[]): SlipLayout {
+  const layout = new Map(base);
+  for (const { key, display, amount } of additions) {
+    layout.set(key, { amount: (layout.get(key)?.amount || 0) + amount, display });
+  }
+  return layout;
+}
+
+// Makes `layout` current as one undoable step
+function commit(slip: BetSlip, layout: SlipLayout, balance: number): BetSlip {
+  if (slipTotal(layout) > balance) return slip;
+  return { ...slip, layout, undo: [...slip.undo, slip.layout].slice(-MAX_HISTORY), redo: [] };
+}
+
+export const addToSlip = (slip: BetSlip, additions: SlipAddition[], balance: number) =>
+  commit(slip, merge(slip.layout, additions), balance);
+
+// Takes one chip of `amount` off a bet, dropping the bet once nothing is left on it
+export function removeFromSlip(slip: BetSlip, key: string, amount: number): BetSlip {
+  const entry = slip.layout.get(key);
+  if (!entry) return slip;
+  const layout = new Map(slip.layout);
+  if (entry.amount > amount) layout.set(key, { ...entry, amount: entry.amount - amount });
+  else layout.delete(key);
+  return commit(slip, layout, Infinity);
+}
+
+// Moves a whole bet onto another cell as one step
+export function moveInSlip(slip: BetSlip, from: string, to: { key: string; display: string }): BetSlip {
+  const entry = slip.layout.get(from);
+  if (!entry || from === to.key) return slip;
+  const layout = new Map(slip.layout);
+  layout.delete(from);
+  return commit(slip, merge(layout, [{ ...to, amount: entry.amount }]), Infinity);
+}
+
+export function doubleSlip(slip: BetSlip, balance: number): BetSlip {
+  if (slip.layout.size === 0) return slip;
+  const layout = new Map(Array.from(slip.layout, ([key, entry]) => [key, { ...entry, amount: entry.amount * 2 }]));
+  return commit(slip, layout, balance);
+}
+
+// Replaces the current layout with the one confirmed in the previous round
+export function rebetSlip(slip: BetSlip, balance: number): BetSlip {
+  if (!slip.lastRound || slip.lastRound.size === 0) return slip;
+  return commit(slip, new Map(slip.lastRound), balance);
+}
+
+export const clearSlip = (slip: BetSlip): BetSlip =>
+  slip.layout.size === 0 ? slip : commit(slip, new Map(), Infinity);
+
+export function undoSlip(slip: BetSlip): BetSlip {
+  const previous = slip.undo[slip.undo.length - 1];
+  if (!previous) return slip;
+  return { ...slip, layout: previous, undo: slip.undo.slice(0, -1), redo: [...slip.redo, slip.layout] };
+}
+
+export function redoSlip(slip: BetSlip): BetSlip {
+  const next = slip.redo[slip.redo.length - 1];
+  if (!next) return slip;
+  return { ...slip, layout: next, undo: [...slip.undo, slip.layout], redo: slip.redo.slice(0, -1) };
+}
+
+// The chain has taken `sent` (the layout as it was when confirmed); it counts towards this
+// round's rebet layout
+export const confirmSlip = (slip: BetSlip, sent: SlipLayout = slip.layout): BetSlip => ({
+  ...slip,
+  layout: new Map(),
+  undo: [],
+  redo: [],
+  confirmed: merge(slip.confirmed, Array.from(sent, ([key, entry]) => ({ key, ...entry }))),
+});
+
+// The wheel has spun: what was confirmed becomes the rebet layout. A round sat out keeps the
+// previous one.
+export const closeRound = (slip: BetSlip): BetSlip =>
+  slip.confirmed.size === 0 ? slip : { ...slip, confirmed: new Map(), lastRound: slip.confirmed };
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { chipBreakdown, chipColors, customChipFits } from './chips';
+import { DEFAULT_TABLE_LIMITS, TABLE_LIMIT_PRESETS, isValidLimits, isValidRack } from './tableLimits';
+
+const rack = DEFAULT_TABLE_LIMITS.chipValues;
+
+describe('chip breakdown', () => {
+  it('uses the fewest chips, largest first', () => {
+    expect(chipBreakdown(186, rack)).toEqual([100, 50, 25, 10, 1]);
+    expect(chipBreakdown(15, rack)).toEqual([10, 5]);
+    expect(chipBreakdown(0, rack)).toEqual([]);
+  });
+
+  it('works from other denominations in any order', () => {
+    expect(chipBreakdown(70, [20, 5, 50])).toEqual([50, 20]);
+    expect(chipBreakdown(7, [5, 2])).toEqual([5, 2]);
+  });
+});
+
+describe('chip racks', () => {
+  it('colours chips by their place in the rack', () => {
+    expect(chipColors(1, rack).bg).toBe('#e8e8e8');
+    expect(chipColors(100, rack).bg).toBe('#1f2937');
+    expect(chipColors(25, [25, 100]).bg).toBe(chipColors(1, rack).bg);
+    expect(new Set(rack.map(value => chipColors(value, rack).bg)).size).toBe(rack.length);
+  });
+
+  it('keeps racks ascending, distinct and within the table maximum', () => {
+    expect(TABLE_LIMIT_PRESETS.every(preset => isValidLimits(preset.limits))).toBe(true);
+    expect(isValidRack([5], 10)).toBe(true);
+    expect(isValidRack([], 10)).toBe(false);
+    expect(isValidRack([10, 5], 10)).toBe(false);
+    expect(isValidRack([5, 5], 10)).toBe(false);
+    expect(isValidRack([5, 50], 10)).toBe(false);
+    expect(isValidRack([1, 2, 3, 4, 5, 6, 7, 8, 9], 10)).toBe(false);
+  });
+
+  it('only lets a custom chip play where it fits', () => {
+    expect(customChipFits(7, rack, 1000)).toBe(true);
+    expect(customChipFits(25, rack, 1000)).toBe(false);
+    expect(customChipFits(2000, rack, 1000)).toBe(false);
+    expect(customChipFits(null, rack, 1000)).toBe(false);
+  });
+});
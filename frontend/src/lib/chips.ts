@@ -0,0 +1,61 @@
+// Chip colours and how an amount is drawn as a stack of chips. Each room has its own rack
+// (TableLimits.chipValues); colours go by position in the rack, so the standard 1-100 rack keeps
+// the classic casino colours and any other rack still gets distinct ones.
+
+export interface ChipColors {
+  bg: string;
+  edge: string;
+  text: string;
+}
+
+const RACK_COLORS: ChipColors[] = [
+  { bg: '#e8e8e8', edge: '#c0c0c0', text: '#333' },
+  { bg: '#e63946', edge: '#c1121f', text: '#fff' },
+  { bg: '#2563eb', edge: '#1d4ed8', text: '#fff' },
+  { bg: '#16a34a', edge: '#15803d', text: '#fff' },
+  { bg: '#7c3aed', edge: '#6d28d9', text: '#fff' },
+  { bg: '#1f2937', edge: '#111827', text: '#fff' },
+  { bg: '#0d9488', edge: '#0f766e', text: '#fff' },
+  { bg: '#db2777', edge: '#be185d', text: '#fff' },
+];
+
+// The player's own chip, gold so it never clashes with a rack colour
+const CUSTOM_CHIP_COLORS: ChipColors = { bg: '#d4af37', edge: '#b8860b', text: '#1f2937' };
+
+export function chipColors(value: number, rack: number[]): ChipColors {
+  const index = rack.indexOf(value);
+  return index < 0 ? CUSTOM_CHIP_COLORS : RACK_COLORS[index % RACK_COLORS.length];
+}
+
+// Fewest chips that make up `amount`, largest first (the bottom of the stack). Any remainder the
+// denominations can't make is left out.
+export function chipBreakdown(amount: number, denominations: number[]): number[] {
+  const chips: number[] = [];
+  let left = amount;
+  for (const value of [...denominations].sort((a, b) => b - a)) {
+    while (left >= value) {
+      chips.push(value);
+      left -= value;
+    }
+  }
+  return chips;
+}
+
+// Short face value, so high-stakes chips still fit: 5000 -> 5K
+export const chipLabel = (value: number) => (value >= 1000 ? `${Number((value / 1000).toFixed(1))}K` : String(value));
+
+// A custom chip only plays in rooms where it fits under the maximum and isn't already racked
+export const customChipFits = (value: number | null, rack: number[], maxBet: number): value is number =>
+  value !== null && value >= 1 && value <= maxBet && !rack.includes(value);
+
+const CUSTOM_CHIP_KEY = 'roulette_custom_chip';
+
+export function loadCustomChip(): number | null {
+  const saved = parseInt(localStorage.getItem(CUSTOM_CHIP_KEY) ?? '');
+  return Number.isInteger(saved) && saved >= 1 ? saved : null;
+}
+
+export function saveCustomChip(value: number | null) {
+  if (value === null) localStorage.removeItem(CUSTOM_CHIP_KEY);
+  else localStorage.setItem(CUSTOM_CHIP_KEY, String(value));
+}
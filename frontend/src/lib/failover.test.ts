@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { Bet, GameState } from '../graphql/types';
+import { FAILOVER_STEP_MS, REFUND_AFTER_MS, SPIN_GRACE_MS, failoverSpinAt, refundDeadline } from './failover';
+
+const bet = (playerChainId: string): Bet => ({ playerChainId, playerName: playerChainId, betType: 'RED', numbers: [], amount: 10 });
+
+const game = (overrides: Partial<GameState>): GameState => ({
+  isSpinning: false,
+  currentBets: [],
+  lastResult: null,
+  history: [],
+  bettingEndTime: null,
+  firstBetAt: null,
+  ...overrides,
+});
+
+describe('host failover', () => {
+  it('gives each bettor their own turn after the grace period', () => {
+    const round = game({ bettingEndTime: 30_000, currentBets: [bet('carol'), bet('alice'), bet('carol')] });
+    expect(failoverSpinAt(round, 'alice')).toBe(30_000 + SPIN_GRACE_MS);
+    expect(failoverSpinAt(round, 'carol')).toBe(30_000 + SPIN_GRACE_MS + FAILOVER_STEP_MS);
+    expect(failoverSpinAt(round, 'bob')).toBeNull();
+    expect(failoverSpinAt({ ...round, bettingEndTime: null }, 'alice')).toBeNull();
+  });
+
+  it('runs the refund clock from betting close, or the first bet without a window', () => {
+    expect(refundDeadline(game({ bettingEndTime: 30_000 }))).toBeNull();
+    expect(refundDeadline(game({ currentBets: [bet('alice')], firstBetAt: 1_000 }))).toBe(1_000 + REFUND_AFTER_MS);
+    expect(refundDeadline(game({ currentBets: [bet('alice')], firstBetAt: 1_000, bettingEndTime: 30_000 }))).toBe(
+      30_000 + REFUND_AFTER_MS
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import type { GameState } from '../graphql/types';
+
+// Keeps a room running when its host goes away. The host's client deals the spin as soon as
+// betting closes; if no spin lands within the grace period, the players with bets on the table
+// send it themselves, one at a time in a fixed order, so a single dropped client doesn't stall
+// the round and they don't all spin at once. Bets nobody spins can be refunded on chain.
+
+export const SPIN_GRACE_MS = 10_000;
+// Gap between one player's turn to spin and the next one's
+export const FAILOVER_STEP_MS = 5_000;
+
+// Same as REFUND_AFTER_MS in contract/src/lib.rs
+export const REFUND_AFTER_MS = 120_000;
+
+// Same rule as GameState::refund_deadline in lib.rs
+export function refundDeadline(game: GameState): number | null {
+  if (game.currentBets.length === 0) return null;
+  const from = game.bettingEndTime ?? game.firstBetAt;
+  return from === null ? null : from + REFUND_AFTER_MS;
+}
+
+// When this player should spin a round the host hasn't; null when it isn't theirs to spin
+// (no window closing, or no bets of theirs on the table). Turns go by player id.
+export function failoverSpinAt(game: GameState, playerId: string): number | null {
+  if (game.bettingEndTime === null || game.isSpinning) return null;
+  const bettors = [...new Set(game.currentBets.map(bet => bet.playerChainId))].sort();
+  const turn = bettors.indexOf(playerId);
+  return turn < 0 ? null : game.bettingEndTime + SPIN_GRACE_MS + turn * FAILOVER_STEP_MS;
+}
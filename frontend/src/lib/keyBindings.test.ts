@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KEY_BINDINGS, actionForKey, keyLabel, rebind } from './keyBindings';
+
+describe('key bindings', () => {
+  it('finds the action for a key, ignoring the case of letters', () => {
+    expect(actionForKey(DEFAULT_KEY_BINDINGS, 'ArrowLeft')).toBe('left');
+    expect(actionForKey(DEFAULT_KEY_BINDINGS, 'C')).toBe('confirm');
+    expect(actionForKey(DEFAULT_KEY_BINDINGS, 'x')).toBeNull();
+  });
+
+  it('swaps keys when the new one is already bound', () => {
+    const bindings = rebind(DEFAULT_KEY_BINDINGS, 'confirm', 'S');
+    expect(bindings.confirm).toBe('s');
+    expect(bindings.spin).toBe('c');
+    expect(new Set(Object.values(bindings)).size).toBe(Object.keys(bindings).length);
+  });
+
+  it('leaves other actions alone for a free key', () => {
+    const bindings = rebind(DEFAULT_KEY_BINDINGS, 'place', ' ');
+    expect(bindings.place).toBe(' ');
+    expect(actionForKey(bindings, 'Enter')).toBeNull();
+    expect(keyLabel(bindings.place)).toBe('Space');
+  });
+});
@@ -0,0 +1,103 @@
+// Keyboard shortcuts for the table. Bindings map each action to a KeyboardEvent.key and are
+// remappable from the shortcuts overlay; a key belongs to one action at a time.
+
+export type KeyAction =
+  | 'up'
+  | 'down'
+  | 'left'
+  | 'right'
+  | 'chip1'
+  | 'chip2'
+  | 'chip3'
+  | 'chip4'
+  | 'chip5'
+  | 'chip6'
+  | 'place'
+  | 'remove'
+  | 'confirm'
+  | 'spin'
+  | 'rebet'
+  | 'help';
+
+export type KeyBindings = Record<KeyAction, string>;
+
+export const KEY_ACTIONS: { action: KeyAction; label: string }[] = [
+  { action: 'up', label: 'Move up' },
+  { action: 'down', label: 'Move down' },
+  { action: 'left', label: 'Move left' },
+  { action: 'right', label: 'Move right' },
+  { action: 'chip1', label: '1st chip' },
+  { action: 'chip2', label: '2nd chip' },
+  { action: 'chip3', label: '3rd chip' },
+  { action: 'chip4', label: '4th chip' },
+  { action: 'chip5', label: '5th chip' },
+  { action: 'chip6', label: '6th chip' },
+  { action: 'place', label: 'Place a chip' },
+  { action: 'remove', label: 'Remove a chip' },
+  { action: 'confirm', label: 'Confirm bets' },
+  { action: 'spin', label: 'Spin / start round' },
+  { action: 'rebet', label: 'Rebet' },
+  { action: 'help', label: 'Show shortcuts' },
+];
+
+export const CHIP_ACTIONS: KeyAction[] = ['chip1', 'chip2', 'chip3', 'chip4', 'chip5', 'chip6'];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  chip1: '1',
+  chip2: '2',
+  chip3: '3',
+  chip4: '4',
+  chip5: '5',
+  chip6: '6',
+  place: 'Enter',
+  remove: 'Backspace',
+  confirm: 'c',
+  spin: 's',
+  rebet: 'r',
+  help: '?',
+};
+
+const KEY_BINDINGS_KEY = 'roulette_key_bindings';
+
+// Letters bind case-insensitively, so Caps Lock doesn't turn the shortcuts off
+const normalize = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export const actionForKey = (bindings: KeyBindings, key: string) =>
+  KEY_ACTIONS.find(({ action }) => bindings[action] === normalize(key))?.action ?? null;
+
+// Binds `key` to `action`; whichever action had the key takes over the old one's key instead
+export function rebind(bindings: KeyBindings, action: KeyAction, key: string): KeyBindings {
+  const next = { ...bindings, [action]: normalize(key) };
+  const previous = actionForKey(bindings, key);
+  if (previous && previous !== action) next[previous] = bindings[action];
+  return next;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ' ': 'Space',
+};
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+// Keys that can't be bound: Escape closes the overlay and modifiers only matter with another key
+export const isBindableKey = (key: string) => !['Escape', 'Shift', 'Control', 'Alt', 'Meta', 'Tab', 'CapsLock'].includes(key);
+
+export function loadKeyBindings(): KeyBindings {
+  try {
+    const saved = localStorage.getItem(KEY_BINDINGS_KEY);
+    if (saved) return { ...DEFAULT_KEY_BINDINGS, ...JSON.parse(saved) };
+  } catch {}
+  return DEFAULT_KEY_BINDINGS;
+}
+
+export function saveKeyBindings(bindings: KeyBindings) {
+  localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(bindings));
+}
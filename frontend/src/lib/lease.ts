@@ -0,0 +1,19 @@
+import type { RouletteClient } from '../graphql/client';
+import type { RoomLease } from '../graphql/types';
+
+// Room chains are leased to one host at a time (RoomLease in contract/src/lib.rs).
+// The host renews well before expiry, so a couple of missed heartbeats don't lose the room,
+// and a host that vanishes frees it again after LEASE_TTL_MS.
+
+export const LEASE_TTL_MS = 60_000;
+export const LEASE_HEARTBEAT_MS = 20_000;
+
+export const isLeaseActive = (lease: RoomLease | null, now = Date.now()) => !!lease && lease.expiresAt > now;
+
+// Claims (or renews) the room, then reads the lease back - on chain the claim is a no-op
+// when someone else holds it, so the read is what tells us whether we got the room
+export async function claimRoomLease(client: RouletteClient, owner: string): Promise<boolean> {
+  await client.claimRoom(owner, LEASE_TTL_MS);
+  const lease = await client.lease();
+  return lease?.owner === owner && isLeaseActive(lease);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PBKDF2_ITERATIONS, decryptBackup, encryptBackup, type ProfileBackup } from './profileBackup';
+
+const backup: ProfileBackup = {
+  profile: { name: 'Alice', owner: '0xalice', chainId: 'chain-a' },
+  stats: '{"totalWins":3}',
+  layouts: null,
+  exportedAt: 1_700_000_000_000,
+};
+
+// The backup file's JSON, loose enough to break
+type BackupJson = { ciphertext: string; kdf: Record<string, unknown>; [field: string]: unknown };
+
+const edited = (file: string, edit: (json: BackupJson) => void) => {
+  const json: BackupJson = JSON.parse(file);
+  edit(json);
+  return JSON.stringify(json);
+};
+
+describe('profile backups', () => {
+  it('round-trips with the right passphrase only', async () => {
+    const file = await encryptBackup(backup, 'correct horse');
+    expect(await decryptBackup(file, 'correct horse')).toEqual(backup);
+    await expect(decryptBackup(file, 'wrong horse')).rejects.toThrow('Wrong passphrase or corrupted backup');
+  });
+
+  it('rejects a tampered file', async () => {
+    const file = await encryptBackup(backup, 'pass');
+    const flipped = edited(file, json => {
+      const bytes = atob(json.ciphertext);
+      json.ciphertext = btoa(String.fromCharCode(bytes.charCodeAt(0) ^ 1) + bytes.slice(1));
+    });
+    await expect(decryptBackup(flipped, 'pass')).rejects.toThrow('Wrong passphrase or corrupted backup');
+    await expect(decryptBackup(edited(file, json => { json.iv = '%%%'; }), 'pass')).rejects.toThrow('the file is damaged');
+  });
+
+  it('refuses key settings outside the supported range before deriving anything', async () => {
+    const file = await encryptBackup(backup, 'pass');
+    for (const iterations of [0, 1000, MAX_PBKDF2_ITERATIONS + 1, 2.5, '250000']) {
+      const crafted = edited(file, json => { json.kdf.iterations = iterations; });
+      await expect(decryptBackup(crafted, 'pass')).rejects.toThrow('unsupported key settings');
+    }
+    await expect(decryptBackup(edited(file, json => { json.kdf.hash = 'SHA-1'; }), 'pass')).rejects.toThrow(
+      'unsupported key settings'
+    );
+  });
+
+  it('explains what is wrong with a file that is not a valid backup', async () => {
+    const file = await encryptBackup(backup, 'pass');
+    await expect(decryptBackup('not json', 'pass')).rejects.toThrow('Not a profile backup file');
+    await expect(decryptBackup('null', 'pass')).rejects.toThrow('Not a profile backup file');
+    await expect(decryptBackup(edited(file, json => { json.version = 2; }), 'pass')).rejects.toThrow(
+      'Unsupported backup version'
+    );
+    for (const field of ['kdf', 'iv', 'ciphertext']) {
+      await expect(decryptBackup(edited(file, json => { delete json[field]; }), 'pass')).rejects.toThrow(
+        'parts of the file are missing'
+      );
+    }
+    await expect(decryptBackup(edited(file, json => { delete json.kdf.salt; }), 'pass')).rejects.toThrow(
+      'parts of the file are missing'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import type { Profile } from './profiles';
+
+// Encrypted profile backups: AES-GCM with a key derived from the passphrase (PBKDF2-SHA256).
+// The file carries everything needed to decrypt except the passphrase itself.
+
+export interface ProfileBackup {
+  profile: Omit<Profile, 'id' | 'createdAt'>;
+  // Raw stats JSON, so the record travels with the identity
+  stats: string | null;
+  // Raw saved layouts JSON; missing from backups made before layouts existed
+  layouts?: string | null;
+  exportedAt: number;
+}
+
+interface BackupFile {
+  format: 'roulette-profile';
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  ciphertext: string;
+}
+
+const PBKDF2_ITERATIONS = 250_000;
+// Iteration counts a backup may ask for. The file isn't trusted until it decrypts, so a crafted
+// count can't make the key derivation trivial or hang the tab.
+export const MIN_PBKDF2_ITERATIONS = 100_000;
+export const MAX_PBKDF2_ITERATIONS = 1_000_000;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptBackup(backup: ProfileBackup, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(backup)));
+
+  const file: BackupFile = {
+    format: 'roulette-profile',
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Checks the file's shape and KDF settings; throws a readable error when they're off
+function parseBackupFile(contents: string): BackupFile {
+  let file: unknown;
+  try {
+    file = JSON.parse(contents);
+  } catch {
+    throw new Error('Not a profile backup file');
+  }
+  if (!isRecord(file) || file.format !== 'roulette-profile') throw new Error('Not a profile backup file');
+  if (file.version !== 1) throw new Error('Unsupported backup version - was it made by a newer version of the app?');
+
+  const { kdf, iv, ciphertext } = file;
+  if (!isRecord(kdf) || typeof kdf.salt !== 'string' || typeof iv !== 'string' || typeof ciphertext !== 'string') {
+    throw new Error('Not a valid profile backup - parts of the file are missing');
+  }
+  const { iterations } = kdf;
+  if (
+    kdf.name !== 'PBKDF2' ||
+    kdf.hash !== 'SHA-256' ||
+    typeof iterations !== 'number' ||
+    !Number.isInteger(iterations) ||
+    iterations < MIN_PBKDF2_ITERATIONS ||
+    iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw new Error('Not a valid profile backup - unsupported key settings');
+  }
+  return file as unknown as BackupFile;
+}
+
+const decodeBase64 = (text: string) => {
+  try {
+    return fromBase64(text);
+  } catch {
+    throw new Error('Not a valid profile backup - the file is damaged');
+  }
+};
+
+export async function decryptBackup(contents: string, passphrase: string): Promise<ProfileBackup> {
+  const file = parseBackupFile(contents);
+  const [salt, iv, ciphertext] = [file.kdf.salt, file.iv, file.ciphertext].map(decodeBase64);
+
+  const key = await deriveKey(passphrase, salt, file.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+  } catch {
+    // GCM authentication fails on a wrong passphrase or a tampered file alike
+    throw new Error('Wrong passphrase or corrupted backup');
+  }
+
+  const backup: ProfileBackup = JSON.parse(new TextDecoder().decode(plaintext));
+  if (!backup.profile?.owner) throw new Error('Backup has no identity in it');
+  return backup;
+}
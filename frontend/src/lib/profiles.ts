@@ -0,0 +1,52 @@
+// Named player identities. Each profile is an owner key plus the chain the faucet gave it,
+// so switching profiles switches chain, balance and stats together.
+
+export interface Profile {
+  id: string;
+  name: string;
+  owner: string;
+  // Chain claimed for this owner; reused on later connects instead of asking the faucet again
+  chainId: string | null;
+  createdAt: number;
+}
+
+const PROFILES_KEY = 'roulette_profiles';
+const ACTIVE_PROFILE_KEY = 'roulette_active_profile';
+// Single identity stored by earlier versions, adopted as the first profile
+const LEGACY_OWNER_KEY = 'linera_owner';
+
+export const statsKey = (owner: string) => `roulette_stats_${owner}`;
+
+export const layoutsKey = (owner: string) => `roulette_layouts_${owner}`;
+
+export function generateOwner(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function newProfile(name: string, owner = generateOwner(), chainId: string | null = null): Profile {
+  return { id: crypto.randomUUID(), name: name.trim() || 'Player', owner, chainId, createdAt: Date.now() };
+}
+
+export function loadProfiles(): Profile[] {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {}
+
+  const legacyOwner = localStorage.getItem(LEGACY_OWNER_KEY);
+  return legacyOwner ? [newProfile('Default', legacyOwner)] : [];
+}
+
+export function saveProfiles(profiles: Profile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY);
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
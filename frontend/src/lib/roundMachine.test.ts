@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { SpinResult } from '../graphql/types';
+import { INITIAL_ROUND, SPIN_TIMEOUT_MS, bettingSecondsLeft, nextRound, restoredRound, type RoundEvent, type RoundState } from './roundMachine';
+
+const result = (timestamp: string): SpinResult => ({ number: 17, color: 'black', timestamp, winners: [] });
+
+const snapshot = (now: number, bettingEndTime: number | null, lastResult: SpinResult | null, stake = 0): RoundEvent =>
+  ({ type: 'snapshot', now, bettingEndTime, lastResult, stake });
+
+const run = (events: RoundEvent[], from: RoundState = INITIAL_ROUND) => events.reduce(nextRound, from);
+
+describe('round machine', () => {
+  it('walks a hosted round from betting to the result and back', () => {
+    const betting = run([snapshot(0, null, result('1')), snapshot(1000, 31_000, result('1'))]);
+    expect(betting.phase).toBe('betting');
+    expect(bettingSecondsLeft(betting, 1500)).toBe(30);
+
+    const closed = run([{ type: 'tick', now: 31_000 }], betting);
+    expect(closed.phase).toBe('noMoreBets');
+
+    const spinning = run([snapshot(32_000, null, result('2'), 25)], closed);
+    expect(spinning).toMatchObject({ phase: 'spinning', stake: 25, lastResultTimestamp: '2' });
+    expect(spinning.result?.timestamp).toBe('2');
+
+    const shown = run([{ type: 'wheelStopped' }, { type: 'settled' }], spinning);
+    expect(shown.phase).toBe('resultShown');
+    expect(run([{ type: 'dismissed' }], shown)).toMatchObject({ phase: 'waiting', result: null });
+  });
+
+  it("doesn't replay the result that was on chain before the first snapshot", () => {
+    const joined = run([snapshot(0, null, result('1')), snapshot(1000, null, result('1'))]);
+    expect(joined.phase).toBe('waiting');
+    expect(run([snapshot(2000, null, result('2'))], joined).phase).toBe('spinning');
+    // A fresh room's first result is new
+    expect(run([snapshot(0, null, null), snapshot(1000, null, result('1'))]).phase).toBe('spinning');
+  });
+
+  it('lets a joined player see the result even if their clock never closed betting', () => {
+    const betting = run([snapshot(0, null, null), snapshot(0, 30_000, null, 10)]);
+    expect(run([snapshot(5000, null, result('1'), 10)], betting)).toMatchObject({ phase: 'spinning', stake: 10 });
+  });
+
+  it('calls the round off when no result lands, without reopening the stale window', () => {
+    const closed = run([snapshot(0, null, null), snapshot(0, 30_000, null), { type: 'tick', now: 30_000 }]);
+    expect(run([{ type: 'tick', now: 30_000 + SPIN_TIMEOUT_MS - 1 }], closed).phase).toBe('noMoreBets');
+    const off = run([{ type: 'tick', now: 30_000 + SPIN_TIMEOUT_MS }], closed);
+    expect(off.phase).toBe('waiting');
+    expect(run([snapshot(60_000, 30_000, null)], off).phase).toBe('waiting');
+    // The host starting over opens a new window
+    expect(run([snapshot(60_000, 90_000, null)], off).phase).toBe('betting');
+  });
+
+  it('handles a solo spin and a failed one', () => {
+    const spinning = run([snapshot(0, null, null), { type: 'spinRequested', now: 0 }]);
+    expect(spinning.phase).toBe('noMoreBets');
+    expect(run([{ type: 'spinFailed' }], spinning).phase).toBe('waiting');
+    expect(run([snapshot(100, null, null)], spinning).phase).toBe('noMoreBets');
+    expect(run([snapshot(100, null, result('1'), 5)], spinning).phase).toBe('spinning');
+  });
+
+  it('finishes the wheel before taking a newer result, and replays settling after a reload', () => {
+    const spinning = run([snapshot(0, null, null), snapshot(0, null, result('1'))]);
+    const still = run([snapshot(100, null, result('2'))], spinning);
+    expect(still.result?.timestamp).toBe('1');
+    const shown = run([{ type: 'wheelStopped' }, { type: 'settled' }], still);
+    expect(run([snapshot(200, null, result('2'))], shown).result?.timestamp).toBe('2');
+
+    expect(restoredRound(run([{ type: 'wheelStopped' }], spinning)).phase).toBe('spinning');
+  });
+});
@@ -0,0 +1,137 @@
+import type { SpinResult } from '../graphql/types';
+
+// The round as every client sees it - host, joined player and solo alike. Pure: useGame feeds it
+// room snapshots from the chain, its local clock and the wheel animation, and the phase that
+// comes out drives the table. Nothing else moves a round along.
+//
+//   waiting     -> betting      a betting window opens on chain
+//   betting     -> noMoreBets   the window's end time passes on the local clock
+//   waiting     -> noMoreBets   the host or solo player asks the chain to spin
+//   noMoreBets  -> spinning     a new result lands on chain
+//   noMoreBets  -> waiting      the spin failed, or no result came (nothing was bet)
+//   spinning    -> settling     the wheel stops
+//   settling    -> resultShown  balances, history and stats are applied
+//   resultShown -> waiting      the result is dismissed (or straight to betting on a new window)
+
+export type RoundPhase = 'waiting' | 'betting' | 'noMoreBets' | 'spinning' | 'settling' | 'resultShown';
+
+export interface RoundState {
+  phase: RoundPhase;
+  // End of the betting window the round runs on (chain time, ms)
+  bettingEndTime: number | null;
+  // When no more bets was called, so a spin that never lands gives up
+  closedAt: number | null;
+  // Timestamp of the last result seen; any other result on chain is a new spin
+  lastResultTimestamp: string | null;
+  // Whether a snapshot has been seen yet - results already on chain when we arrive aren't new
+  synced: boolean;
+  // The result being spun, settled or shown, and this player's stake in it
+  result: SpinResult | null;
+  stake: number;
+}
+
+export type RoundEvent =
+  // `stake` is this player's total on the table before the snapshot (bets are cleared on settle)
+  | { type: 'snapshot'; now: number; bettingEndTime: number | null; lastResult: SpinResult | null; stake: number }
+  | { type: 'tick'; now: number }
+  | { type: 'spinRequested'; now: number }
+  | { type: 'spinFailed' }
+  | { type: 'wheelStopped' }
+  | { type: 'settled' }
+  | { type: 'dismissed' };
+
+// How long no more bets waits for a result before calling the round off
+export const SPIN_TIMEOUT_MS = 20_000;
+
+export const INITIAL_ROUND: RoundState = {
+  phase: 'waiting',
+  bettingEndTime: null,
+  closedAt: null,
+  lastResultTimestamp: null,
+  synced: false,
+  result: null,
+  stake: 0,
+};
+
+// Phases where the wheel is turning or about to - the table takes no bets
+export const isWheelBusy = (phase: RoundPhase) => phase === 'noMoreBets' || phase === 'spinning';
+
+export const bettingSecondsLeft = (round: RoundState, now: number) =>
+  round.phase === 'betting' && round.bettingEndTime !== null
+    ? Math.max(0, Math.ceil((round.bettingEndTime - now) / 1000))
+    : 0;
+
+export function nextRound(round: RoundState, event: RoundEvent): RoundState {
+  switch (event.type) {
+    case 'snapshot':
+      return onSnapshot(round, event);
+    case 'tick':
+      if (round.phase === 'betting' && round.bettingEndTime !== null && event.now >= round.bettingEndTime) {
+        return { ...round, phase: 'noMoreBets', closedAt: event.now };
+      }
+      if (round.phase === 'noMoreBets' && round.closedAt !== null && event.now - round.closedAt >= SPIN_TIMEOUT_MS) {
+        return { ...round, phase: 'waiting', closedAt: null };
+      }
+      return round;
+    case 'spinRequested':
+      if (round.phase !== 'waiting' && round.phase !== 'betting' && round.phase !== 'resultShown') return round;
+      return { ...round, phase: 'noMoreBets', closedAt: event.now, result: null, stake: 0 };
+    case 'spinFailed':
+      return round.phase === 'noMoreBets' ? { ...round, phase: 'waiting', closedAt: null } : round;
+    case 'wheelStopped':
+      return round.phase === 'spinning' ? { ...round, phase: 'settling' } : round;
+    case 'settled':
+      return round.phase === 'settling' ? { ...round, phase: 'resultShown' } : round;
+    case 'dismissed':
+      return round.phase === 'resultShown' ? { ...round, phase: 'waiting', result: null, stake: 0 } : round;
+  }
+}
+
+function onSnapshot(round: RoundState, event: Extract<RoundEvent, { type: 'snapshot' }>): RoundState {
+  const timestamp = event.lastResult?.timestamp ?? null;
+  if (!round.synced) {
+    return openWindow({ ...round, synced: true, lastResultTimestamp: timestamp }, event);
+  }
+
+  // A result still on the wheel finishes first; the newer one is picked up once it's dismissed
+  const isNew = event.lastResult !== null && timestamp !== round.lastResultTimestamp;
+  if (isNew && round.phase !== 'spinning' && round.phase !== 'settling') {
+    return {
+      ...round,
+      phase: 'spinning',
+      bettingEndTime: null,
+      closedAt: null,
+      lastResultTimestamp: timestamp,
+      result: event.lastResult,
+      stake: event.stake,
+    };
+  }
+  return openWindow(round, event);
+}
+
+// Follow the chain's betting window. An end time already in the past is a window that closed
+// without a spin - it never reopens betting.
+function openWindow(round: RoundState, { now, bettingEndTime }: { now: number; bettingEndTime: number | null }): RoundState {
+  const open = bettingEndTime !== null && bettingEndTime > now;
+  switch (round.phase) {
+    case 'waiting':
+    case 'resultShown':
+      return open ? { ...round, phase: 'betting', bettingEndTime, closedAt: null, result: null, stake: 0 } : round;
+    case 'betting':
+      if (open) return bettingEndTime === round.bettingEndTime ? round : { ...round, bettingEndTime };
+      // Cleared on chain without a result - the round was called off
+      return bettingEndTime === null ? { ...round, phase: 'waiting', bettingEndTime: null } : round;
+    case 'noMoreBets':
+      // A fresh window means the host started over
+      return open && bettingEndTime !== round.bettingEndTime
+        ? { ...round, phase: 'betting', bettingEndTime, closedAt: null }
+        : round;
+    default:
+      return round;
+  }
+}
+
+// A round saved before a reload. Settling is replayed as spinning so its stats still get counted.
+export function restoredRound(saved: RoundState): RoundState {
+  return saved.phase === 'settling' ? { ...saved, phase: 'spinning' } : saved;
+}
@@ -0,0 +1,26 @@
+import type { RoundSettings } from '../graphql/types';
+
+// Same rules as RoundSettings in contract/src/lib.rs
+
+export const DEFAULT_ROUND_SETTINGS: RoundSettings = { bettingWindowMs: 30_000, roundPauseMs: 5_000, autoDeal: false };
+
+export const MIN_BETTING_WINDOW_MS = 5_000;
+export const MAX_BETTING_WINDOW_MS = 120_000;
+export const MAX_ROUND_PAUSE_MS = 60_000;
+
+export const ROUND_SETTINGS_PRESETS: { id: string; name: string; settings: RoundSettings }[] = [
+  { id: 'speed', name: 'Speed', settings: { bettingWindowMs: 10_000, roundPauseMs: 3_000, autoDeal: true } },
+  { id: 'standard', name: 'Standard', settings: DEFAULT_ROUND_SETTINGS },
+  { id: 'relaxed', name: 'Relaxed', settings: { bettingWindowMs: 60_000, roundPauseMs: 10_000, autoDeal: true } },
+];
+
+export const isValidRoundSettings = (settings: RoundSettings) =>
+  Number.isInteger(settings.bettingWindowMs) &&
+  settings.bettingWindowMs >= MIN_BETTING_WINDOW_MS &&
+  settings.bettingWindowMs <= MAX_BETTING_WINDOW_MS &&
+  Number.isInteger(settings.roundPauseMs) &&
+  settings.roundPauseMs >= 0 &&
+  settings.roundPauseMs <= MAX_ROUND_PAUSE_MS;
+
+export const sameRoundSettings = (a: RoundSettings, b: RoundSettings) =>
+  a.bettingWindowMs === b.bettingWindowMs && a.roundPauseMs === b.roundPauseMs && a.autoDeal === b.autoDeal;
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import type { BetType } from '../graphql/types';
+import {
+  POCKETS,
+  betCoverage,
+  isBlack,
+  isRed,
+  isValidSelection,
+  isWinner,
+  layoutResult,
+  numberColor,
+  payoutMultiplier,
+} from './rules';
+
+// Ported from the tests in contract/src/lib.rs, so the two rule sets can't drift apart
+
+const OUTSIDE_BETS: BetType[] = [
+  'RED', 'BLACK', 'EVEN', 'ODD', 'LOW', 'HIGH',
+  'FIRST_DOZEN', 'SECOND_DOZEN', 'THIRD_DOZEN',
+  'FIRST_COLUMN', 'SECOND_COLUMN', 'THIRD_COLUMN',
+];
+
+describe('payouts', () => {
+  it('pays 35 to 1 on a straight', () => {
+    expect(payoutMultiplier('STRAIGHT')).toBe(35);
+  });
+
+  it('pays even money on red, black, even, odd, low and high', () => {
+    for (const betType of ['RED', 'BLACK', 'EVEN', 'ODD', 'LOW', 'HIGH'] as BetType[]) {
+      expect(payoutMultiplier(betType)).toBe(1);
+    }
+  });
+
+  it('pays 2 to 1 on dozens and columns', () => {
+    for (const betType of OUTSIDE_BETS.slice(6)) {
+      expect(payoutMultiplier(betType)).toBe(2);
+    }
+  });
+
+  it('pays the inside bet table', () => {
+    expect(payoutMultiplier('SPLIT')).toBe(17);
+    expect(payoutMultiplier('STREET')).toBe(11);
+    expect(payoutMultiplier('CORNER')).toBe(8);
+    expect(payoutMultiplier('SIX_LINE')).toBe(5);
+    expect(payoutMultiplier('TRIO')).toBe(11);
+    expect(payoutMultiplier('BASKET')).toBe(8);
+  });
+
+  it('returns the stake with the winnings', () => {
+    expect(layoutResult([{ betType: 'STRAIGHT', numbers: [17], amount: 100 }], 17).returned).toBe(3600);
+    expect(layoutResult([{ betType: 'RED', numbers: [], amount: 100 }], 1).returned).toBe(200);
+    expect(layoutResult([{ betType: 'FIRST_DOZEN', numbers: [], amount: 100 }], 1).returned).toBe(300);
+  });
+});
+
+describe('colors', () => {
+  it('makes zero green', () => {
+    expect(numberColor(0)).toBe('green');
+    expect(isRed(0)).toBe(false);
+    expect(isBlack(0)).toBe(false);
+  });
+
+  it('knows the red numbers', () => {
+    for (const n of [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36]) {
+      expect(numberColor(n)).toBe('red');
+      expect(isBlack(n)).toBe(false);
+    }
+  });
+
+  it('knows the black numbers', () => {
+    for (const n of [2, 4, 6, 8, 10, 11, 13, 15, 17, 20, 22, 24, 26, 28, 29, 31, 33, 35]) {
+      expect(numberColor(n)).toBe('black');
+      expect(isRed(n)).toBe(false);
+    }
+  });
+
+  it('has 18 red and 18 black numbers', () => {
+    expect(POCKETS.filter(isRed)).toHaveLength(18);
+    expect(POCKETS.filter(isBlack)).toHaveLength(18);
+  });
+});
+
+describe('straight bets', () => {
+  it('wins on the exact number', () => {
+    expect(isWinner('STRAIGHT', 17, [17])).toBe(true);
+    expect(isWinner('STRAIGHT', 0, [0])).toBe(true);
+    expect(isWinner('STRAIGHT', 36, [36])).toBe(true);
+  });
+
+  it('loses on any other number', () => {
+    expect(isWinner('STRAIGHT', 17, [18])).toBe(false);
+    expect(isWinner('STRAIGHT', 0, [1])).toBe(false);
+    expect(isWinner('STRAIGHT', 5, [10, 15, 20])).toBe(false);
+    expect(isWinner('STRAIGHT', 17, [])).toBe(false);
+  });
+});
+
+describe('outside bets', () => {
+  it('wins red and black by color', () => {
+    expect([1, 19, 36].every(n => isWinner('RED', n, []))).toBe(true);
+    expect([0, 2, 17].some(n => isWinner('RED', n, []))).toBe(false);
+    expect([2, 17, 35].every(n => isWinner('BLACK', n, []))).toBe(true);
+    expect([0, 1, 36].some(n => isWinner('BLACK', n, []))).toBe(false);
+  });
+
+  it('wins even and odd by parity', () => {
+    expect([2, 18, 36].every(n => isWinner('EVEN', n, []))).toBe(true);
+    expect([1, 17, 35].some(n => isWinner('EVEN', n, []))).toBe(false);
+    expect([1, 17, 35].every(n => isWinner('ODD', n, []))).toBe(true);
+  });
+
+  it('splits low and high at 18', () => {
+    expect([1, 10, 18].every(n => isWinner('LOW', n, []))).toBe(true);
+    expect([0, 19, 36].some(n => isWinner('LOW', n, []))).toBe(false);
+    expect([19, 25, 36].every(n => isWinner('HIGH', n, []))).toBe(true);
+    expect([0, 1, 18].some(n => isWinner('HIGH', n, []))).toBe(false);
+  });
+
+  it('covers twelve numbers with each dozen and column', () => {
+    expect(betCoverage('FIRST_DOZEN', [])).toEqual(POCKETS.slice(1, 13));
+    expect(betCoverage('SECOND_DOZEN', [])).toEqual(POCKETS.slice(13, 25));
+    expect(betCoverage('THIRD_DOZEN', [])).toEqual(POCKETS.slice(25, 37));
+    expect(betCoverage('FIRST_COLUMN', [])).toEqual([1, 4, 7, 10, 13, 16, 19, 22, 25, 28, 31, 34]);
+    expect(betCoverage('SECOND_COLUMN', [])).toEqual([2, 5, 8, 11, 14, 17, 20, 23, 26, 29, 32, 35]);
+    expect(betCoverage('THIRD_COLUMN', [])).toEqual([3, 6, 9, 12, 15, 18, 21, 24, 27, 30, 33, 36]);
+  });
+
+  it('loses every outside bet on zero', () => {
+    for (const betType of OUTSIDE_BETS) {
+      expect(isWinner(betType, 0, [])).toBe(false);
+    }
+  });
+});
+
+describe('inside bets', () => {
+  it('wins on the covered numbers', () => {
+    expect(isWinner('SPLIT', 17, [17, 20])).toBe(true);
+    expect(isWinner('STREET', 14, [13, 14, 15])).toBe(true);
+    expect(isWinner('CORNER', 5, [1, 2, 4, 5])).toBe(true);
+    expect(isWinner('SIX_LINE', 36, [31, 32, 33, 34, 35, 36])).toBe(true);
+    expect(isWinner('TRIO', 0, [0, 1, 2])).toBe(true);
+    expect(isWinner('BASKET', 3, [0, 1, 2, 3])).toBe(true);
+    expect(isWinner('SPLIT', 18, [17, 20])).toBe(false);
+    expect(isWinner('CORNER', 3, [1, 2, 4, 5])).toBe(false);
+  });
+
+  it('accepts adjacent splits only', () => {
+    expect(isValidSelection('SPLIT', [17, 20])).toBe(true);
+    expect(isValidSelection('SPLIT', [20, 17])).toBe(true);
+    expect(isValidSelection('SPLIT', [1, 2])).toBe(true);
+    expect(isValidSelection('SPLIT', [0, 3])).toBe(true);
+    expect(isValidSelection('SPLIT', [33, 36])).toBe(true);
+    expect(isValidSelection('SPLIT', [3, 4])).toBe(false);
+    expect(isValidSelection('SPLIT', [1, 5])).toBe(false);
+    expect(isValidSelection('SPLIT', [0, 4])).toBe(false);
+    expect(isValidSelection('SPLIT', [36, 39])).toBe(false);
+    expect(isValidSelection('SPLIT', [17, 17])).toBe(false);
+    expect(isValidSelection('SPLIT', [17])).toBe(false);
+  });
+
+  it('accepts streets, corners and six-lines on the grid', () => {
+    expect(isValidSelection('STREET', [1, 2, 3])).toBe(true);
+    expect(isValidSelection('STREET', [34, 35, 36])).toBe(true);
+    expect(isValidSelection('STREET', [2, 3, 4])).toBe(false);
+    expect(isValidSelection('STREET', [0, 1, 2])).toBe(false);
+    expect(isValidSelection('CORNER', [1, 2, 4, 5])).toBe(true);
+    expect(isValidSelection('CORNER', [32, 33, 35, 36])).toBe(true);
+    expect(isValidSelection('CORNER', [3, 4, 6, 7])).toBe(false);
+    expect(isValidSelection('CORNER', [0, 1, 3, 4])).toBe(false);
+    expect(isValidSelection('SIX_LINE', [1, 2, 3, 4, 5, 6])).toBe(true);
+    expect(isValidSelection('SIX_LINE', [31, 32, 33, 34, 35, 36])).toBe(true);
+    expect(isValidSelection('SIX_LINE', [2, 3, 4, 5, 6, 7])).toBe(false);
+    expect(isValidSelection('SIX_LINE', [34, 35, 36, 37, 38, 39])).toBe(false);
+  });
+
+  it('accepts the two trios and the basket', () => {
+    expect(isValidSelection('TRIO', [0, 1, 2])).toBe(true);
+    expect(isValidSelection('TRIO', [2, 3, 0])).toBe(true);
+    expect(isValidSelection('TRIO', [0, 1, 3])).toBe(false);
+    expect(isValidSelection('BASKET', [0, 1, 2, 3])).toBe(true);
+    expect(isValidSelection('BASKET', [0, 1, 2])).toBe(false);
+  });
+
+  it('takes one number 0-36 for a straight and none for outside bets', () => {
+    expect(isValidSelection('STRAIGHT', [0])).toBe(true);
+    expect(isValidSelection('STRAIGHT', [36])).toBe(true);
+    expect(isValidSelection('STRAIGHT', [37])).toBe(false);
+    expect(isValidSelection('STRAIGHT', [])).toBe(false);
+    expect(isValidSelection('RED', [])).toBe(true);
+    expect(isValidSelection('FIRST_DOZEN', [])).toBe(true);
+  });
+});
+
+describe('layout results', () => {
+  const layout = [
+    { betType: 'STRAIGHT' as BetType, numbers: [17], amount: 10 },
+    { betType: 'BLACK' as BetType, numbers: [], amount: 20 },
+    { betType: 'SPLIT' as BetType, numbers: [17, 20], amount: 5 },
+  ];
+
+  it('adds up every winning bet', () => {
+    expect(layoutResult(layout, 17)).toEqual({ staked: 35, returned: 360 + 40 + 90, net: 455 });
+  });
+
+  it('counts only the bets that hit', () => {
+    expect(layoutResult(layout, 20)).toEqual({ staked: 35, returned: 40 + 90, net: 95 });
+    expect(layoutResult(layout, 0)).toEqual({ staked: 35, returned: 0, net: -35 });
+  });
+
+  it('breaks even on an empty layout', () => {
+    expect(layoutResult([], 7)).toEqual({ staked: 0, returned: 0, net: 0 });
+  });
+});
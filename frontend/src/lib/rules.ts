@@ -0,0 +1,122 @@
+import type { BetSelection, BetType } from '../graphql/types';
+
+// Roulette rules, mirroring contract/src/lib.rs so the table can show what a layout pays before
+// the spin. The chain settles the round; these only have to agree with it.
+
+export const RED_NUMBERS = [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36];
+
+// European single-zero wheel, clockwise from 0
+export const WHEEL_ORDER = [
+  0, 32, 15, 19, 4, 21, 2, 25, 17, 34, 6, 27, 13, 36, 11, 30, 8, 23, 10,
+  5, 24, 16, 33, 1, 20, 14, 31, 9, 22, 18, 29, 7, 28, 12, 35, 3, 26,
+];
+
+export const POCKETS = Array.from({ length: 37 }, (_, n) => n);
+
+// Starting balances the host accepts (MIN_INITIAL_BALANCE / MAX_INITIAL_BALANCE)
+export const MIN_INITIAL_BALANCE = 100;
+export const MAX_INITIAL_BALANCE = 10000;
+
+export const isValidInitialBalance = (balance: number) =>
+  Number.isInteger(balance) && balance >= MIN_INITIAL_BALANCE && balance <= MAX_INITIAL_BALANCE;
+
+// Every BetType, in the contract's declaration order
+export const BET_TYPES: BetType[] = [
+  'STRAIGHT', 'RED', 'BLACK', 'EVEN', 'ODD', 'LOW', 'HIGH',
+  'FIRST_DOZEN', 'SECOND_DOZEN', 'THIRD_DOZEN', 'FIRST_COLUMN', 'SECOND_COLUMN', 'THIRD_COLUMN',
+  'SPLIT', 'STREET', 'CORNER', 'SIX_LINE', 'TRIO', 'BASKET',
+];
+
+export type NumberColor = 'green' | 'red' | 'black';
+
+export const isRed = (n: number) => RED_NUMBERS.includes(n);
+
+export const isBlack = (n: number) => n >= 1 && n <= 36 && !isRed(n);
+
+// Same as get_color in lib.rs
+export const numberColor = (n: number): NumberColor => (n === 0 ? 'green' : isRed(n) ? 'red' : 'black');
+
+// Same table as BetType::payout_multiplier in lib.rs
+export function payoutMultiplier(betType: BetType): number {
+  switch (betType) {
+    case 'STRAIGHT': return 35;
+    case 'FIRST_DOZEN': case 'SECOND_DOZEN': case 'THIRD_DOZEN': return 2;
+    case 'FIRST_COLUMN': case 'SECOND_COLUMN': case 'THIRD_COLUMN': return 2;
+    case 'SPLIT': return 17;
+    case 'STREET': case 'TRIO': return 11;
+    case 'CORNER': case 'BASKET': return 8;
+    case 'SIX_LINE': return 5;
+    default: return 1;
+  }
+}
+
+// Same rules as BetType::is_winner in lib.rs
+export function isWinner(betType: BetType, n: number, numbers: number[]): boolean {
+  switch (betType) {
+    case 'STRAIGHT': case 'SPLIT': case 'STREET': case 'CORNER':
+    case 'SIX_LINE': case 'TRIO': case 'BASKET':
+      return numbers.includes(n);
+    case 'RED': return isRed(n);
+    case 'BLACK': return isBlack(n);
+    case 'EVEN': return n !== 0 && n % 2 === 0;
+    case 'ODD': return n !== 0 && n % 2 === 1;
+    case 'LOW': return n >= 1 && n <= 18;
+    case 'HIGH': return n >= 19 && n <= 36;
+    case 'FIRST_DOZEN': return n >= 1 && n <= 12;
+    case 'SECOND_DOZEN': return n >= 13 && n <= 24;
+    case 'THIRD_DOZEN': return n >= 25 && n <= 36;
+    case 'FIRST_COLUMN': return n !== 0 && (n - 1) % 3 === 0;
+    case 'SECOND_COLUMN': return n !== 0 && (n - 2) % 3 === 0;
+    case 'THIRD_COLUMN': return n !== 0 && n % 3 === 0;
+  }
+}
+
+const sameNumbers = (a: number[], b: number[]) => a.length === b.length && a.every((n, i) => n === b[i]);
+
+// Same rules as BetType::is_valid_selection in lib.rs
+export function isValidSelection(betType: BetType, numbers: number[]): boolean {
+  const sorted = [...new Set(numbers)].sort((x, y) => x - y);
+  if (sorted.length !== numbers.length) return false;
+  const [a, b, c, d] = sorted;
+
+  switch (betType) {
+    case 'STRAIGHT': return sorted.length === 1 && a <= 36;
+    case 'SPLIT':
+      if (sorted.length !== 2) return false;
+      if (a === 0) return b >= 1 && b <= 3;
+      return b <= 36 && (b === a + 3 || (b === a + 1 && a % 3 !== 0));
+    case 'STREET': return sorted.length === 3 && a % 3 === 1 && b === a + 1 && c === a + 2 && c <= 36;
+    case 'CORNER':
+      return sorted.length === 4 && a >= 1 && a % 3 !== 0 && b === a + 1 && c === a + 3 && d === a + 4 && d <= 36;
+    case 'SIX_LINE':
+      return sorted.length === 6 && a % 3 === 1 && sorted[5] <= 36 && sorted.every((n, i) => n === a + i);
+    case 'TRIO': return sameNumbers(sorted, [0, 1, 2]) || sameNumbers(sorted, [0, 2, 3]);
+    case 'BASKET': return sameNumbers(sorted, [0, 1, 2, 3]);
+    default: return true;
+  }
+}
+
+// The pockets a bet wins on
+export const betCoverage = (betType: BetType, numbers: number[]) =>
+  POCKETS.filter(n => isWinner(betType, n, numbers));
+
+// What the chain pays back for one bet when `n` hits: stake plus winnings, or 0
+export const betReturn = (bet: BetSelection, n: number) =>
+  isWinner(bet.betType, n, bet.numbers) ? bet.amount + bet.amount * payoutMultiplier(bet.betType) : 0;
+
+export interface LayoutResult {
+  staked: number;
+  returned: number;
+  // returned - staked; negative when the layout loses overall
+  net: number;
+}
+
+export function layoutResult(bets: BetSelection[], n: number): LayoutResult {
+  const staked = bets.reduce((sum, bet) => sum + bet.amount, 0);
+  const returned = bets.reduce((sum, bet) => sum + betReturn(bet, n), 0);
+  return { staked, returned, net: returned - staked };
+}
+
+// Average net result of a layout over the 37 equally likely pockets (the house edge, in dollars)
+export const expectedNet = (bets: BetSelection[]) =>
+  POCKETS.reduce((sum, n) => sum + layoutResult(bets, n).net, 0) / POCKETS.length;
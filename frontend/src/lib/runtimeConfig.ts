@@ -0,0 +1,81 @@
+// Network settings, resolved at startup from (lowest to highest priority):
+//   1. the VITE_* values baked into the bundle
+//   2. /config.json next to index.html (lets one build be pointed at any network)
+//   3. overrides saved from the settings screen in this browser
+
+export interface RuntimeConfig {
+  nodeUrl: string;
+  faucetUrl: string;
+  defaultChain: string;
+  // Room used by solo play; falls back to the default chain
+  hostChain: string;
+  appId: string;
+}
+
+const OVERRIDES_KEY = 'roulette_config';
+
+export const BUILD_CONFIG: RuntimeConfig = {
+  nodeUrl: import.meta.env.VITE_NODE_URL || 'http://localhost:8080',
+  faucetUrl: import.meta.env.VITE_FAUCET_URL || 'http://localhost:8079',
+  defaultChain: import.meta.env.VITE_DEFAULT_CHAIN || '',
+  hostChain: import.meta.env.VITE_HOST_CHAIN || '',
+  appId: import.meta.env.VITE_APP_ID || '',
+};
+
+const CONFIG_FIELDS = Object.keys(BUILD_CONFIG) as (keyof RuntimeConfig)[];
+
+// Only known, non-empty string fields are taken from outside sources
+function pickConfig(source: unknown): Partial<RuntimeConfig> {
+  if (!source || typeof source !== 'object') return {};
+  const picked: Partial<RuntimeConfig> = {};
+  for (const field of CONFIG_FIELDS) {
+    const value = (source as Record<string, unknown>)[field];
+    if (typeof value === 'string' && value.trim()) picked[field] = value.trim();
+  }
+  return picked;
+}
+
+export function loadConfigOverrides(): Partial<RuntimeConfig> {
+  try {
+    return pickConfig(JSON.parse(localStorage.getItem(OVERRIDES_KEY) || 'null'));
+  } catch {
+    return {};
+  }
+}
+
+export function saveConfigOverrides(config: RuntimeConfig) {
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(config));
+}
+
+export function clearConfigOverrides() {
+  localStorage.removeItem(OVERRIDES_KEY);
+}
+
+// Build values plus /config.json, without this browser's overrides (what "reset" goes back to)
+export async function loadDeployedConfig(): Promise<RuntimeConfig> {
+  try {
+    const res = await fetch('/config.json', { cache: 'no-store' });
+    if (!res.ok) return BUILD_CONFIG;
+    return { ...BUILD_CONFIG, ...pickConfig(await res.json()) };
+  } catch {
+    return BUILD_CONFIG;
+  }
+}
+
+export const CHAIN_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+// Shape checks only; whether the application answers is checked against the node
+export function configProblems(config: RuntimeConfig): string[] {
+  const problems: string[] = [];
+  for (const [label, url] of [['Node URL', config.nodeUrl], ['Faucet URL', config.faucetUrl]] as const) {
+    try {
+      if (!/^https?:$/.test(new URL(url).protocol)) problems.push(`${label} must be http(s)`);
+    } catch {
+      problems.push(`${label} is not a valid URL`);
+    }
+  }
+  if (config.defaultChain && !CHAIN_ID_PATTERN.test(config.defaultChain)) problems.push('Default chain must be 64 hex characters');
+  if (config.hostChain && !CHAIN_ID_PATTERN.test(config.hostChain)) problems.push('Host chain must be 64 hex characters');
+  if (!config.appId) problems.push('Application id is required');
+  return problems;
+}
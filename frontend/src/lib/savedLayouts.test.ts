@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { exportLayouts, layoutFromBets, layoutUnits, parseLayouts } from './savedLayouts';
+
+const layout = layoutFromBets('  Tiers split  ', [
+  { betType: 'SPLIT', numbers: [5, 8], amount: 50 },
+  { betType: 'STRAIGHT', numbers: [17], amount: 25 },
+  { betType: 'RED', numbers: [], amount: 100 },
+]);
+
+describe('saving layouts', () => {
+  it('stores stakes as the smallest chip units that keep the proportions', () => {
+    expect(layout.name).toBe('Tiers split');
+    expect(layout.bets.map(bet => bet.units)).toEqual([2, 1, 4]);
+    expect(layoutUnits(layout)).toBe(7);
+  });
+
+  it('names unnamed layouts', () => {
+    expect(layoutFromBets(' ', [{ betType: 'ODD', numbers: [], amount: 5 }]).name).toBe('Layout');
+  });
+});
+
+describe('sharing layouts', () => {
+  it('round-trips through an export with fresh ids', () => {
+    const [imported] = parseLayouts(exportLayouts([layout]));
+    expect(imported.name).toBe(layout.name);
+    expect(imported.bets).toEqual(layout.bets);
+    expect(imported.id).not.toBe(layout.id);
+  });
+
+  it('rejects files that are not layout exports', () => {
+    expect(() => parseLayouts('not json')).toThrow('Not a layouts file');
+    expect(() => parseLayouts(JSON.stringify({ format: 'roulette-profile', version: 1 }))).toThrow('Not a layouts file');
+  });
+
+  it('rejects bets the table would not accept', () => {
+    const file = (bets: unknown[]) => JSON.stringify({ format: 'roulette-layouts', version: 1, layouts: [{ name: 'Bad', bets }] });
+    expect(() => parseLayouts(file([{ betType: 'SPLIT', numbers: [1, 9], units: 1 }]))).toThrow('Layout "Bad"');
+    expect(() => parseLayouts(file([{ betType: 'STRAIGHT', numbers: [7], units: 0.5 }]))).toThrow('Layout "Bad"');
+    expect(() => parseLayouts(file([{ betType: 'JACKPOT', numbers: [], units: 1 }]))).toThrow('Layout "Bad"');
+    expect(() => parseLayouts(file([]))).toThrow('Layout "Bad"');
+  });
+});
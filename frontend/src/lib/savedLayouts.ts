@@ -0,0 +1,85 @@
+import type { BetSelection } from '../graphql/types';
+import type { AnnouncedChip } from './announcedBets';
+import { layoutsKey } from './profiles';
+import { BET_TYPES, isValidSelection } from './rules';
+
+// Named bet layouts kept per profile. Stakes are stored in chip units (the smallest pattern that
+// keeps the proportions), like announced bets, so they go down with whatever chip is selected.
+
+export interface SavedLayout {
+  id: string;
+  name: string;
+  bets: AnnouncedChip[];
+  createdAt: number;
+}
+
+interface LayoutsFile {
+  format: 'roulette-layouts';
+  version: 1;
+  layouts: { name: string; bets: AnnouncedChip[] }[];
+}
+
+export const MAX_LAYOUT_NAME_LENGTH = 24;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export function layoutFromBets(name: string, bets: BetSelection[]): SavedLayout {
+  const unit = bets.reduce((divisor, bet) => gcd(bet.amount, divisor), 0) || 1;
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim().slice(0, MAX_LAYOUT_NAME_LENGTH) || 'Layout',
+    bets: bets.map(({ betType, numbers, amount }) => ({ betType, numbers: [...numbers], units: amount / unit })),
+    createdAt: Date.now(),
+  };
+}
+
+export const layoutUnits = (layout: SavedLayout) => layout.bets.reduce((sum, bet) => sum + bet.units, 0);
+
+export function loadLayouts(owner: string): SavedLayout[] {
+  try {
+    const saved = localStorage.getItem(layoutsKey(owner));
+    if (saved) return JSON.parse(saved);
+  } catch {}
+  return [];
+}
+
+export function saveLayouts(owner: string, layouts: SavedLayout[]) {
+  localStorage.setItem(layoutsKey(owner), JSON.stringify(layouts));
+}
+
+export function exportLayouts(layouts: SavedLayout[]): string {
+  const file: LayoutsFile = {
+    format: 'roulette-layouts',
+    version: 1,
+    layouts: layouts.map(({ name, bets }) => ({ name, bets })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isSavedBet = (bet: AnnouncedChip) =>
+  BET_TYPES.includes(bet?.betType) &&
+  Array.isArray(bet.numbers) &&
+  bet.numbers.every(n => Number.isInteger(n)) &&
+  Number.isInteger(bet.units) &&
+  bet.units >= 1 &&
+  isValidSelection(bet.betType, bet.numbers);
+
+// Layouts from an exported file, with fresh ids; throws if any of it doesn't hold up
+export function parseLayouts(contents: string): SavedLayout[] {
+  let file: LayoutsFile;
+  try {
+    file = JSON.parse(contents);
+  } catch {
+    throw new Error('Not a layouts file');
+  }
+  if (file?.format !== 'roulette-layouts' || file.version !== 1 || !Array.isArray(file.layouts)) {
+    throw new Error('Not a layouts file');
+  }
+
+  return file.layouts.map(({ name, bets }) => {
+    if (typeof name !== 'string' || !Array.isArray(bets) || bets.length === 0 || !bets.every(isSavedBet)) {
+      throw new Error(`Layout "${name}" has bets the table doesn't accept`);
+    }
+    return { id: crypto.randomUUID(), name: name.trim().slice(0, MAX_LAYOUT_NAME_LENGTH) || 'Layout', bets, createdAt: Date.now() };
+  });
+}
@@ -0,0 +1,57 @@
+import type { RoundState } from './roundMachine';
+
+// The active table session, persisted so a page reload lands back in the same room.
+// Stored per browser in localStorage; a session only restores for the owner that created it.
+
+export type SessionMode = 'solo' | 'host' | 'join';
+
+export interface StoredSession {
+  playerId: string;
+  gameMode: SessionMode;
+  hostedChainId: string | null;
+  joinedChainId: string | null;
+  // Round in progress when the page went away (see roundMachine)
+  round: RoundState | null;
+  savedAt: number;
+}
+
+const SESSION_KEY = 'roulette_session';
+// Sessions older than this are stale - the room has long moved on
+const SESSION_TTL_MS = 6 * 60 * 60 * 1000;
+
+export function loadSession(): StoredSession | null {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    if (!saved) return null;
+    const session: StoredSession = JSON.parse(saved);
+    if (!session.playerId || !session.gameMode || Date.now() - session.savedAt > SESSION_TTL_MS) {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    // Rounds saved in the older format can't be resumed; the room itself still can
+    if (session.round && !('synced' in session.round)) session.round = null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Omit<StoredSession, 'round' | 'savedAt'>) {
+  const previous = loadSession();
+  const sameRoom = previous?.playerId === session.playerId
+    && previous.hostedChainId === session.hostedChainId
+    && previous.joinedChainId === session.joinedChainId;
+  const next: StoredSession = { ...session, round: sameRoom ? previous.round : null, savedAt: Date.now() };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+}
+
+// Only updates an existing session - rounds outside a saved room are not worth restoring
+export function saveSessionRound(round: RoundState) {
+  const session = loadSession();
+  if (!session) return;
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, round, savedAt: Date.now() }));
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY);
+}
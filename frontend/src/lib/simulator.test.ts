@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { expectedNet } from './rules';
+import { isValidRequest, runSimulation, seededRandom, type SimulationRequest } from './simulator';
+import { DEFAULT_AUTOPLAY_CONFIG } from './strategies';
+
+const flatRed: SimulationRequest = {
+  config: { ...DEFAULT_AUTOPLAY_CONFIG, strategy: 'flat', layout: [{ betType: 'RED', numbers: [], amount: 10 }], maxSpins: 100 },
+  bankroll: 10_000,
+  sessions: 200,
+  seed: 7,
+};
+
+describe('seeded random', () => {
+  it('repeats for the same seed', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it('stays in [0, 1)', () => {
+    const random = seededRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('simulation', () => {
+  it('gives the same report for the same seed', () => {
+    expect(runSimulation(flatRed)).toEqual(runSimulation(flatRed));
+    expect(runSimulation(flatRed)).not.toEqual(runSimulation({ ...flatRed, seed: 8 }));
+  });
+
+  it('converges on the house edge for a flat layout', () => {
+    const report = runSimulation({ ...flatRed, sessions: 2000 });
+    expect(report.exactEvPerSpin).toBeCloseTo(expectedNet(flatRed.config.layout));
+    expect(report.exactEvPerSpin).toBeCloseTo(-10 / 37);
+    expect(report.spins).toBe(200_000);
+    expect(Math.abs(report.evPerSpin - report.exactEvPerSpin!)).toBeLessThan(0.2);
+    expect(report.riskOfRuin).toBe(0);
+  });
+
+  it('counts sessions that run out of money as ruined', () => {
+    const report = runSimulation({
+      ...flatRed,
+      config: { ...DEFAULT_AUTOPLAY_CONFIG, strategy: 'martingale', unit: 10, maxSpins: 500 },
+      bankroll: 100,
+    });
+    expect(report.riskOfRuin).toBeGreaterThan(0.5);
+    expect(report.maxDrawdown).toBeGreaterThanOrEqual(report.meanDrawdown);
+  });
+
+  it('puts every session in the histogram', () => {
+    const report = runSimulation(flatRed);
+    expect(report.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(flatRed.sessions);
+  });
+
+  it('rejects requests without a spin limit or over the spin budget', () => {
+    expect(isValidRequest(flatRed)).toBe(true);
+    expect(isValidRequest({ ...flatRed, config: { ...flatRed.config, maxSpins: 0 } })).toBe(false);
+    expect(isValidRequest({ ...flatRed, sessions: 10_000, config: { ...flatRed.config, maxSpins: 1000 } })).toBe(false);
+  });
+});
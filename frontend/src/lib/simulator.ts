@@ -0,0 +1,136 @@
+import { POCKETS, expectedNet, layoutResult } from './rules';
+import { advance, autoplayHalt, isValidConfig, nextLayout, startSession, type AutoplayConfig } from './strategies';
+
+// Monte Carlo runs of an autoplay strategy (a flat layout is just the simplest one) against the
+// rules module. Each session plays from `bankroll` until a stop condition or ruin; the same seed
+// always gives the same report.
+
+export interface SimulationRequest {
+  config: AutoplayConfig;
+  bankroll: number;
+  sessions: number;
+  seed: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationReport {
+  sessions: number;
+  spins: number;
+  // Per session
+  meanNet: number;
+  variance: number;
+  // Average net per spin played, and what the rules say it should converge to (flat layouts only)
+  evPerSpin: number;
+  exactEvPerSpin: number | null;
+  // Share of sessions that ran out of money for the next step
+  riskOfRuin: number;
+  meanDrawdown: number;
+  maxDrawdown: number;
+  // Final net of each session
+  histogram: HistogramBin[];
+}
+
+export type SimulatorMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; report: SimulationReport };
+
+// Upper bound on spins per run, so a request can't keep the worker busy for minutes
+export const MAX_SIMULATED_SPINS = 5_000_000;
+const MAX_SESSIONS = 10_000;
+const HISTOGRAM_BINS = 20;
+
+export const isValidRequest = ({ config, bankroll, sessions, seed }: SimulationRequest) =>
+  isValidConfig(config) &&
+  config.maxSpins >= 1 &&
+  Number.isInteger(bankroll) &&
+  bankroll >= 1 &&
+  Number.isInteger(sessions) &&
+  sessions >= 1 &&
+  sessions <= MAX_SESSIONS &&
+  sessions * config.maxSpins <= MAX_SIMULATED_SPINS &&
+  Number.isInteger(seed);
+
+// mulberry32: small, fast and good enough for dealing roulette numbers
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface SessionOutcome {
+  net: number;
+  spins: number;
+  ruined: boolean;
+  drawdown: number;
+}
+
+function playSession(config: AutoplayConfig, bankroll: number, random: () => number): SessionOutcome {
+  let session = startSession(config);
+  let peak = bankroll;
+  let drawdown = 0;
+
+  for (;;) {
+    const balance = bankroll + session.net;
+    const layout = nextLayout(config, session);
+    const halt = autoplayHalt(config, session, layout, balance);
+    if (halt) return { net: session.net, spins: session.spins, ruined: halt.pause, drawdown };
+
+    const pocket = POCKETS[Math.floor(random() * POCKETS.length)];
+    session = advance(config, session, layoutResult(layout, pocket));
+    peak = Math.max(peak, bankroll + session.net);
+    drawdown = Math.max(drawdown, peak - (bankroll + session.net));
+  }
+}
+
+function histogram(values: number[]): HistogramBin[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ from: min, to: max, count: values.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const value of values) bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++;
+  return bins;
+}
+
+export function runSimulation(
+  { config, bankroll, sessions, seed }: SimulationRequest,
+  onProgress?: (done: number, total: number) => void
+): SimulationReport {
+  const random = seededRandom(seed);
+  const outcomes: SessionOutcome[] = [];
+  const progressEvery = Math.max(1, Math.floor(sessions / 100));
+
+  for (let i = 0; i < sessions; i++) {
+    outcomes.push(playSession(config, bankroll, random));
+    if (onProgress && (i + 1) % progressEvery === 0) onProgress(i + 1, sessions);
+  }
+
+  const nets = outcomes.map(outcome => outcome.net);
+  const spins = outcomes.reduce((sum, outcome) => sum + outcome.spins, 0);
+  const totalNet = nets.reduce((sum, net) => sum + net, 0);
+  const meanNet = totalNet / sessions;
+
+  return {
+    sessions,
+    spins,
+    meanNet,
+    variance: nets.reduce((sum, net) => sum + (net - meanNet) ** 2, 0) / sessions,
+    evPerSpin: spins > 0 ? totalNet / spins : 0,
+    exactEvPerSpin: config.strategy === 'flat' ? expectedNet(config.layout) : null,
+    riskOfRuin: outcomes.filter(outcome => outcome.ruined).length / sessions,
+    meanDrawdown: outcomes.reduce((sum, outcome) => sum + outcome.drawdown, 0) / sessions,
+    maxDrawdown: Math.max(...outcomes.map(outcome => outcome.drawdown)),
+    histogram: histogram(nets),
+  };
+}
@@ -0,0 +1,9 @@
+import { runSimulation, type SimulationRequest, type SimulatorMessage } from './simulator';
+
+// Runs a simulation off the main thread, so the table keeps animating while it works
+const post = (message: SimulatorMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const report = runSimulation(event.data, (done, total) => post({ type: 'progress', done, total }));
+  post({ type: 'result', report });
+};
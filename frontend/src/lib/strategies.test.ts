@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { layoutResult } from './rules';
+import {
+  DEFAULT_AUTOPLAY_CONFIG,
+  advance,
+  autoplayHalt,
+  isValidConfig,
+  nextLayout,
+  startSession,
+  type AutoplayConfig,
+  type StrategyId,
+} from './strategies';
+
+// RED on 1 wins, on 2 loses
+const WIN = 1;
+const LOSS = 2;
+
+const configFor = (strategy: StrategyId, extra: Partial<AutoplayConfig> = {}): AutoplayConfig => ({
+  ...DEFAULT_AUTOPLAY_CONFIG,
+  strategy,
+  unit: 5,
+  maxSpins: 0,
+  ...extra,
+});
+
+// Stakes of the spins played over `numbers`, starting a fresh session
+function stakes(config: AutoplayConfig, numbers: number[]): number[] {
+  let session = startSession(config);
+  return numbers.map(n => {
+    const layout = nextLayout(config, session);
+    session = advance(config, session, layoutResult(layout, n));
+    return layout.reduce((sum, bet) => sum + bet.amount, 0);
+  });
+}
+
+describe('progressions', () => {
+  it('doubles after losses and resets after a win (Martingale)', () => {
+    expect(stakes(configFor('martingale'), [LOSS, LOSS, LOSS, WIN, LOSS])).toEqual([5, 10, 20, 40, 5]);
+  });
+
+  it('doubles after wins and resets after a loss (reverse Martingale)', () => {
+    expect(stakes(configFor('reverseMartingale'), [WIN, WIN, LOSS, WIN])).toEqual([5, 10, 20, 5]);
+  });
+
+  it('walks the Fibonacci sequence', () => {
+    expect(stakes(configFor('fibonacci'), [LOSS, LOSS, LOSS, LOSS, WIN, WIN])).toEqual([5, 5, 10, 15, 25, 10]);
+  });
+
+  it("moves one unit at a time (D'Alembert)", () => {
+    expect(stakes(configFor('dalembert'), [LOSS, LOSS, WIN, WIN, WIN])).toEqual([5, 10, 15, 10, 5]);
+  });
+
+  it('crosses off the line on wins and extends it on losses (Labouchère)', () => {
+    const config = configFor('labouchere', { line: [1, 2, 3] });
+    expect(stakes(config, [LOSS, WIN, WIN])).toEqual([20, 25, 25]);
+    let session = startSession(config);
+    for (const n of [LOSS, WIN, WIN]) session = advance(config, session, layoutResult(nextLayout(config, session), n));
+    expect(session.line).toEqual([]);
+    expect(nextLayout(config, session)).toEqual([]);
+  });
+
+  it('keeps the net result of the session', () => {
+    const config = configFor('martingale');
+    let session = startSession(config);
+    for (const n of [LOSS, LOSS, WIN]) session = advance(config, session, layoutResult(nextLayout(config, session), n));
+    expect(session).toMatchObject({ spins: 3, net: 5 });
+  });
+});
+
+describe('flat layouts', () => {
+  it('plays the same layout every spin', () => {
+    const layout = [{ betType: 'STRAIGHT' as const, numbers: [17], amount: 2 }, { betType: 'RED' as const, numbers: [], amount: 3 }];
+    expect(stakes(configFor('flat', { layout }), [17, 0, 1])).toEqual([5, 5, 5]);
+  });
+
+  it('needs at least one valid bet', () => {
+    expect(isValidConfig(configFor('flat'))).toBe(false);
+    expect(isValidConfig(configFor('flat', { layout: [{ betType: 'SPLIT', numbers: [3, 4], amount: 5 }] }))).toBe(false);
+    expect(isValidConfig(configFor('flat', { layout: [{ betType: 'SPLIT', numbers: [1, 4], amount: 5 }] }))).toBe(true);
+  });
+});
+
+describe('stop conditions', () => {
+  const config = configFor('martingale', { maxSpins: 10, stopLoss: 30, takeProfit: 20, maxBet: 40 });
+  const layout = (amount: number) => [{ betType: 'RED' as const, numbers: [], amount }];
+  const session = startSession(config);
+
+  it('carries on inside every limit', () => {
+    expect(autoplayHalt(config, session, layout(5), 1000)).toBeNull();
+  });
+
+  it('stops on spins, stop-loss, take-profit and maximum bet', () => {
+    expect(autoplayHalt(config, { ...session, spins: 10 }, layout(5), 1000)).toMatchObject({ pause: false });
+    expect(autoplayHalt(config, { ...session, net: -30 }, layout(5), 1000)?.reason).toBe('Stop-loss of $30 reached');
+    expect(autoplayHalt(config, { ...session, net: 20 }, layout(5), 1000)?.reason).toBe('Take-profit of $20 reached');
+    expect(autoplayHalt(config, session, layout(80), 1000)?.reason).toBe('Next bet of $80 is over the maximum bet of $40');
+  });
+
+  it('pauses when the balance cannot cover the next step', () => {
+    expect(autoplayHalt(config, session, layout(40), 35)).toEqual({ pause: true, reason: "Balance can't cover the next step of $40" });
+  });
+
+  it('ignores conditions set to 0', () => {
+    const open = configFor('martingale');
+    expect(autoplayHalt(open, { ...session, spins: 500, net: -10_000 }, layout(5_000), 10_000)).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import type { BetSelection, BetType } from '../graphql/types';
+import { isValidSelection, type LayoutResult } from './rules';
+
+// Betting systems for solo autoplay. A session is a plain value: `nextLayout` says what to stake
+// on the next spin, `advance` folds in that spin's result, and `autoplayHalt` says when to stop
+// (or pause) before placing anything.
+
+export type StrategyId = 'martingale' | 'reverseMartingale' | 'fibonacci' | 'dalembert' | 'labouchere' | 'flat';
+
+export const STRATEGIES: { id: StrategyId; name: string; description: string }[] = [
+  { id: 'martingale', name: 'Martingale', description: 'Double the stake after a loss, back to one unit after a win' },
+  { id: 'reverseMartingale', name: 'Reverse Martingale', description: 'Double the stake after a win, back to one unit after a loss' },
+  { id: 'fibonacci', name: 'Fibonacci', description: 'One step up the sequence after a loss, two steps down after a win' },
+  { id: 'dalembert', name: "D'Alembert", description: 'One unit more after a loss, one unit less after a win' },
+  { id: 'labouchere', name: 'Labouchère', description: 'Stake first + last of the line; a win crosses them off, a loss adds the stake' },
+  { id: 'flat', name: 'Flat layout', description: 'The same layout every spin' },
+];
+
+// Progressions play a single even-money bet
+export const EVEN_MONEY_BETS: BetType[] = ['RED', 'BLACK', 'EVEN', 'ODD', 'LOW', 'HIGH'];
+
+export interface AutoplayConfig {
+  strategy: StrategyId;
+  betType: BetType;
+  unit: number;
+  // Labouchère starting line, in units
+  line: number[];
+  // Flat strategy only
+  layout: BetSelection[];
+  // Stop conditions; 0 turns one off
+  maxSpins: number;
+  stopLoss: number;
+  takeProfit: number;
+  maxBet: number;
+}
+
+export interface AutoplaySession {
+  spins: number;
+  net: number;
+  // Position in the progression (doublings, Fibonacci index or D'Alembert units above one)
+  step: number;
+  line: number[];
+}
+
+export const DEFAULT_AUTOPLAY_CONFIG: AutoplayConfig = {
+  strategy: 'martingale',
+  betType: 'RED',
+  unit: 5,
+  line: [1, 2, 3, 4],
+  layout: [],
+  maxSpins: 50,
+  stopLoss: 0,
+  takeProfit: 0,
+  maxBet: 0,
+};
+
+export const startSession = (config: AutoplayConfig): AutoplaySession => ({
+  spins: 0,
+  net: 0,
+  step: 0,
+  line: [...config.line],
+});
+
+function fibonacci(index: number): number {
+  let [a, b] = [1, 1];
+  for (let i = 0; i < index; i++) [a, b] = [b, a + b];
+  return a;
+}
+
+// Units on the next spin for the progressions
+function units(config: AutoplayConfig, session: AutoplaySession): number {
+  switch (config.strategy) {
+    case 'martingale': case 'reverseMartingale': return 2 ** session.step;
+    case 'fibonacci': return fibonacci(session.step);
+    case 'dalembert': return 1 + session.step;
+    case 'labouchere': {
+      const { line } = session;
+      return line.length === 1 ? line[0] : line[0] + line[line.length - 1];
+    }
+    case 'flat': return 1;
+  }
+}
+
+// What goes on the table next spin; empty once a Labouchère line has been crossed off
+export function nextLayout(config: AutoplayConfig, session: AutoplaySession): BetSelection[] {
+  if (config.strategy === 'flat') return config.layout;
+  if (config.strategy === 'labouchere' && session.line.length === 0) return [];
+  return [{ betType: config.betType, numbers: [], amount: units(config, session) * config.unit }];
+}
+
+export function advance(config: AutoplayConfig, session: AutoplaySession, result: LayoutResult): AutoplaySession {
+  const won = result.net > 0;
+  const next = { ...session, spins: session.spins + 1, net: session.net + result.net };
+
+  switch (config.strategy) {
+    case 'martingale': return { ...next, step: won ? 0 : session.step + 1 };
+    case 'reverseMartingale': return { ...next, step: won ? session.step + 1 : 0 };
+    case 'fibonacci': return { ...next, step: won ? Math.max(0, session.step - 2) : session.step + 1 };
+    case 'dalembert': return { ...next, step: won ? Math.max(0, session.step - 1) : session.step + 1 };
+    case 'labouchere':
+      return {
+        ...next,
+        line: won ? session.line.slice(1, -1) : [...session.line, units(config, session)],
+      };
+    case 'flat': return next;
+  }
+}
+
+// Why the session can't place `layout`, or null to carry on. Stop conditions end the session;
+// a balance that can't cover the next step only pauses it.
+export function autoplayHalt(
+  config: AutoplayConfig,
+  session: AutoplaySession,
+  layout: BetSelection[],
+  balance: number
+): { pause: boolean; reason: string } | null {
+  const stop = (reason: string) => ({ pause: false, reason });
+
+  if (config.maxSpins > 0 && session.spins >= config.maxSpins) return stop(`Finished ${config.maxSpins} spins`);
+  if (config.stopLoss > 0 && session.net <= -config.stopLoss) return stop(`Stop-loss of $${config.stopLoss} reached`);
+  if (config.takeProfit > 0 && session.net >= config.takeProfit) return stop(`Take-profit of $${config.takeProfit} reached`);
+  if (layout.length === 0) return stop('Labouchère line crossed off');
+
+  const biggest = Math.max(...layout.map(bet => bet.amount));
+  if (config.maxBet > 0 && biggest > config.maxBet) {
+    return stop(`Next bet of $${biggest} is over the maximum bet of $${config.maxBet}`);
+  }
+
+  const total = layout.reduce((sum, bet) => sum + bet.amount, 0);
+  if (total > balance) return { pause: true, reason: `Balance can't cover the next step of $${total}` };
+  return null;
+}
+
+export const isValidConfig = (config: AutoplayConfig) =>
+  Number.isInteger(config.unit) &&
+  config.unit >= 1 &&
+  [config.maxSpins, config.stopLoss, config.takeProfit, config.maxBet].every(n => Number.isInteger(n) && n >= 0) &&
+  (config.strategy !== 'labouchere' || (config.line.length > 0 && config.line.every(n => Number.isInteger(n) && n >= 1))) &&
+  (config.strategy !== 'flat' ||
+    (config.layout.length > 0 && config.layout.every(bet => bet.amount >= 1 && isValidSelection(bet.betType, bet.numbers))));
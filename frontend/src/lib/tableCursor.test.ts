@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { CURSOR_START, moveCursor } from './tableCursor';
+
+describe('table cursor', () => {
+  it('starts on zero', () => {
+    expect(moveCursor(null, 'down')).toBe(CURSOR_START);
+  });
+
+  it('moves along a row and stops at its ends', () => {
+    expect(moveCursor('straight-3', 'right')).toBe('straight-6');
+    expect(moveCursor('straight-3', 'left')).toBe('straight-3');
+    expect(moveCursor('straight-36', 'right')).toBe('col3');
+    expect(moveCursor('col3', 'right')).toBe('col3');
+  });
+
+  it('moves between rows at the same relative position', () => {
+    expect(moveCursor('straight-0', 'down')).toBe('straight-21');
+    expect(moveCursor('straight-17', 'down')).toBe('straight-16');
+    expect(moveCursor('straight-1', 'down')).toBe('dozen1');
+    expect(moveCursor('straight-34', 'down')).toBe('dozen3');
+    expect(moveCursor('dozen3', 'down')).toBe('high');
+    expect(moveCursor('high', 'down')).toBe('high');
+    expect(moveCursor('split-0-1', 'up')).toBe('split-0-1');
+  });
+});
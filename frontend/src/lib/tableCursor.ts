@@ -0,0 +1,35 @@
+// Keyboard cursor over the betting table, as rows of BettingTable slip keys laid out the way the
+// table draws them: zero bets, the three number rows with their column bets, dozens, then the
+// even-money bets.
+
+export type CursorDirection = 'up' | 'down' | 'left' | 'right';
+
+const NUMBER_ROWS = [
+  [3, 6, 9, 12, 15, 18, 21, 24, 27, 30, 33, 36],
+  [2, 5, 8, 11, 14, 17, 20, 23, 26, 29, 32, 35],
+  [1, 4, 7, 10, 13, 16, 19, 22, 25, 28, 31, 34],
+];
+
+export const TABLE_ROWS: string[][] = [
+  ['split-0-1', 'split-0-2', 'split-0-3', 'straight-0', 'trio-0-1-2', 'trio-0-2-3', 'basket-0-1-2-3'],
+  ...NUMBER_ROWS.map((row, i) => [...row.map(n => `straight-${n}`), `col${3 - i}`]),
+  ['dozen1', 'dozen2', 'dozen3'],
+  ['low', 'even', 'red', 'black', 'odd', 'high'],
+];
+
+export const CURSOR_START = 'straight-0';
+
+// Rows have different lengths, so up and down keep the cursor at the same relative position
+export function moveCursor(key: string | null, direction: CursorDirection): string {
+  const row = TABLE_ROWS.findIndex(cells => cells.includes(key ?? ''));
+  if (row < 0) return CURSOR_START;
+  const cells = TABLE_ROWS[row];
+  const column = cells.indexOf(key!);
+
+  if (direction === 'left') return cells[Math.max(0, column - 1)];
+  if (direction === 'right') return cells[Math.min(cells.length - 1, column + 1)];
+
+  const target = TABLE_ROWS[Math.min(TABLE_ROWS.length - 1, Math.max(0, row + (direction === 'up' ? -1 : 1)))];
+  if (target === cells) return key!;
+  return target[Math.floor(((column + 0.5) / cells.length) * target.length)];
+}
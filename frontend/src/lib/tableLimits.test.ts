@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { BetSelection, BetType, TableLimits } from '../graphql/types';
+import { BET_TYPES } from './rules';
+import { DEFAULT_TABLE_LIMITS, betRange, betTypeName, checkLimits } from './tableLimits';
+
+const bet = (betType: BetType, numbers: number[], amount: number): BetSelection => ({ betType, numbers, amount });
+
+// The same cases as the table limit tests in contract/src/lib.rs, with the same messages
+describe('table limits', () => {
+  it('caps straight-up bets at the straight maximum', () => {
+    expect(betRange(DEFAULT_TABLE_LIMITS, 'STRAIGHT')).toEqual([1, 100]);
+    expect(betRange(DEFAULT_TABLE_LIMITS, 'RED')).toEqual([1, 1000]);
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, [], [bet('STRAIGHT', [17], 100)])).toBeNull();
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, [], [bet('STRAIGHT', [17], 101)])).toBe(
+      'Straight bet above the table maximum of 100'
+    );
+  });
+
+  it('applies per-type minimums and maximums over the table-wide ones', () => {
+    const limits: TableLimits = {
+      ...DEFAULT_TABLE_LIMITS,
+      minBet: 5,
+      betLimits: [{ betType: 'RED', min: 10, max: 2000 }, { betType: 'SPLIT', min: 2, max: 50 }],
+    };
+    expect(betRange(limits, 'RED')).toEqual([10, 2000]);
+    expect(checkLimits(limits, [], [bet('RED', [], 5)])).toBe('Red bet below the table minimum of 10');
+    expect(checkLimits(limits, [], [bet('RED', [], 1500)])).toBeNull();
+    expect(checkLimits(limits, [], [bet('RED', [], 2001)])).toBe('Red bet above the table maximum of 2000');
+    expect(checkLimits(limits, [], [bet('SPLIT', [17, 20], 51)])).toBe('Split bet above the table maximum of 50');
+    expect(checkLimits(limits, [], [bet('SPLIT', [17, 20], 3)])).toBeNull();
+    // Types without an override fall back to the table's range
+    expect(checkLimits(limits, [], [bet('FIRST_DOZEN', [], 4)])).toBe('FirstDozen bet below the table minimum of 5');
+    expect(checkLimits(limits, [], [bet('BLACK', [], 1001)])).toBe('Black bet above the table maximum of 1000');
+  });
+
+  it('skips minimums while a layout is being built', () => {
+    const limits: TableLimits = { ...DEFAULT_TABLE_LIMITS, minBet: 10 };
+    expect(checkLimits(limits, [], [bet('RED', [], 5)], { ignoreMinimum: true })).toBeNull();
+    expect(checkLimits(limits, [], [bet('RED', [], 1001)], { ignoreMinimum: true })).toBe(
+      'Red bet above the table maximum of 1000'
+    );
+  });
+
+  it('adds up stakes on the same selection, including those already on the table', () => {
+    const placed = [bet('STRAIGHT', [17], 60)];
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, placed, [bet('STRAIGHT', [18], 60)])).toBeNull();
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, placed, [bet('STRAIGHT', [17], 60)])).toBe(
+      'Straight bet above the table maximum of 100'
+    );
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, [], [bet('SPLIT', [17, 20], 600), bet('SPLIT', [20, 17], 600)])).toBe(
+      'Split bet above the table maximum of 1000'
+    );
+  });
+
+  it('limits the round total, counting what is already on the table', () => {
+    const placed = [bet('RED', [], 1000), bet('BLACK', [], 1000)];
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, placed, [bet('EVEN', [], 500)])).toBeNull();
+    expect(checkLimits(DEFAULT_TABLE_LIMITS, placed, [bet('EVEN', [], 501)])).toBe(
+      'Round stake above the table limit of 2500'
+    );
+  });
+
+  it("names bet types the way the contract's messages do", () => {
+    expect(BET_TYPES.map(betTypeName)).toEqual([
+      'Straight', 'Red', 'Black', 'Even', 'Odd', 'Low', 'High',
+      'FirstDozen', 'SecondDozen', 'ThirdDozen', 'FirstColumn', 'SecondColumn', 'ThirdColumn',
+      'Split', 'Street', 'Corner', 'SixLine', 'Trio', 'Basket',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { BetSelection, BetType, TableLimits } from '../graphql/types';
+
+// Same rules as TableLimits in contract/src/lib.rs. The host has the final say; checking here
+// keeps the table from offering a layout the host would reject, with the same messages.
+
+export const DEFAULT_TABLE_LIMITS: TableLimits = {
+  minBet: 1,
+  maxBet: 1000,
+  maxStraight: 100,
+  maxRoundStake: 2500,
+  betLimits: [],
+  chipValues: [1, 5, 10, 25, 50, 100],
+};
+
+export const MAX_CHIP_VALUES = 8;
+
+const EVEN_MONEY: BetType[] = ['RED', 'BLACK', 'EVEN', 'ODD', 'LOW', 'HIGH'];
+
+export const TABLE_LIMIT_PRESETS: { id: string; name: string; limits: TableLimits }[] = [
+  {
+    id: 'beginner',
+    name: 'Beginner',
+    limits: { minBet: 1, maxBet: 100, maxStraight: 25, maxRoundStake: 500, betLimits: [], chipValues: [1, 2, 5, 10, 25, 50] },
+  },
+  { id: 'standard', name: 'Standard', limits: DEFAULT_TABLE_LIMITS },
+  {
+    id: 'high-rollers',
+    name: 'High Rollers',
+    limits: {
+      minBet: 25,
+      maxBet: 5000,
+      maxStraight: 1000,
+      maxRoundStake: 20000,
+      betLimits: EVEN_MONEY.map(betType => ({ betType, min: 50, max: 10000 })),
+      chipValues: [25, 100, 500, 1000, 5000],
+    },
+  },
+];
+
+// `{:?}` name of the Rust enum variant, as used in the contract's error messages
+export const betTypeName = (betType: BetType) =>
+  betType.toLowerCase().replace(/(^|_)([a-z])/g, (_, __, c: string) => c.toUpperCase());
+
+export const isValidLimits = (limits: TableLimits) =>
+  limits.minBet >= 1 &&
+  limits.minBet <= limits.maxBet &&
+  limits.maxStraight >= limits.minBet &&
+  limits.maxRoundStake >= limits.minBet &&
+  limits.betLimits.every(limit => limit.min >= 1 && limit.min <= limit.max) &&
+  isValidRack(limits.chipValues, limits.maxBet);
+
+// Ascending, distinct chips from 1 up to the table maximum
+export const isValidRack = (chipValues: number[], maxBet: number) =>
+  chipValues.length >= 1 &&
+  chipValues.length <= MAX_CHIP_VALUES &&
+  chipValues.every((value, i) => Number.isInteger(value) && value >= 1 && value <= maxBet && (i === 0 || chipValues[i - 1] < value));
+
+// [min, max] stake for one selection of this type
+export function betRange(limits: TableLimits, betType: BetType): [number, number] {
+  const override = limits.betLimits.find(limit => limit.betType === betType);
+  const [min, max] = override ? [override.min, override.max] : [limits.minBet, limits.maxBet];
+  return betType === 'STRAIGHT' ? [min, Math.min(max, limits.maxStraight)] : [min, max];
+}
+
+// First limit the player's new bets break, counted together with what they already have on the
+// table this round; null when they fit. While a layout is still being built, minimums can be
+// skipped - a chip below the minimum is fine until the layout is confirmed.
+export function checkLimits(
+  limits: TableLimits,
+  placed: BetSelection[],
+  newBets: BetSelection[],
+  { ignoreMinimum = false } = {}
+): string | null {
+  const stakes = new Map<string, { betType: BetType; amount: number }>();
+  for (const bet of [...placed, ...newBets]) {
+    const key = `${bet.betType}:${[...bet.numbers].sort((a, b) => a - b).join(',')}`;
+    const stake = stakes.get(key);
+    stakes.set(key, { betType: bet.betType, amount: (stake?.amount ?? 0) + bet.amount });
+  }
+
+  for (const { betType, amount } of stakes.values()) {
+    const [min, max] = betRange(limits, betType);
+    if (!ignoreMinimum && amount < min) return `${betTypeName(betType)} bet below the table minimum of ${min}`;
+    if (amount > max) return `${betTypeName(betType)} bet above the table maximum of ${max}`;
+  }
+
+  const total = Array.from(stakes.values()).reduce((sum, stake) => sum + stake.amount, 0);
+  if (total > limits.maxRoundStake) return `Round stake above the table limit of ${limits.maxRoundStake}`;
+  return null;
+}
+
+export const sameLimits = (a: TableLimits, b: TableLimits) =>
+  a.minBet === b.minBet &&
+  a.maxBet === b.maxBet &&
+  a.maxStraight === b.maxStraight &&
+  a.maxRoundStake === b.maxRoundStake &&
+  a.betLimits.length === b.betLimits.length &&
+  a.betLimits.every((limit, i) => {
+    const other = b.betLimits[i];
+    return limit.betType === other.betType && limit.min === other.min && limit.max === other.max;
+  }) &&
+  a.chipValues.join() === b.chipValues.join();
@@ -0,0 +1,60 @@
+import { openNotificationStream } from '../graphql/notifications';
+import { NetworkError, type LineraTransport } from './types';
+
+interface HttpTransportOptions {
+  nodeUrl: string;
+  faucetUrl: string;
+}
+
+async function faucetRequest<TData>(faucetUrl: string, query: string): Promise<{ data?: TData; errors?: { message: string }[] }> {
+  let res: Response;
+  try {
+    res = await fetch(faucetUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query }),
+    });
+  } catch (err) {
+    throw new NetworkError(err instanceof Error ? err.message : 'Faucet unreachable');
+  }
+  if (!res.ok) throw new NetworkError(`Faucet request failed: ${res.statusText}`);
+  return res.json();
+}
+
+// Talks to a real `linera service` node and faucet over HTTP and WebSocket
+export function createHttpTransport({ nodeUrl, faucetUrl }: HttpTransportOptions): LineraTransport {
+  return {
+    name: 'http',
+
+    request: async (chainId, appId, document, variables) => {
+      let res: Response;
+      try {
+        res = await fetch(`${nodeUrl}/chains/${chainId}/applications/${appId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: document, variables }),
+        });
+      } catch (err) {
+        throw new NetworkError(err instanceof Error ? err.message : 'Node unreachable');
+      }
+      if (!res.ok) throw new NetworkError(`Request failed: ${res.statusText}`);
+      const result = await res.json();
+      if (result.errors) throw new Error(result.errors[0]?.message || 'GraphQL error');
+      return result.data;
+    },
+
+    subscribe: (chainId, handlers) => openNotificationStream({ nodeUrl, chainId, ...handlers }),
+
+    claimChain: async (owner) => {
+      const existing = await faucetRequest<{ chainId: string | null }>(faucetUrl, `query { chainId(owner: "${owner}") }`);
+      if (existing.data?.chainId) return existing.data.chainId;
+
+      const claim = await faucetRequest(faucetUrl, `mutation { claim(owner: "${owner}") }`);
+      if (claim.errors) throw new Error(claim.errors[0]?.message || 'Claim error');
+
+      const claimed = await faucetRequest<{ chainId: string | null }>(faucetUrl, `query { chainId(owner: "${owner}") }`);
+      if (!claimed.data?.chainId) throw new Error('No chainId returned');
+      return claimed.data.chainId;
+    },
+  };
+}
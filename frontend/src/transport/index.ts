@@ -0,0 +1,21 @@
+import { createHttpTransport } from './http';
+import { createMockTransport } from './mock';
+import type { LineraTransport } from './types';
+
+export { NetworkError, type LineraTransport, type RoomSubscriptionHandlers } from './types';
+
+interface TransportOptions {
+  nodeUrl: string;
+  faucetUrl: string;
+}
+
+// The mock node is chosen with VITE_TRANSPORT=mock at build time, or `?mock` / `?transport=mock`
+// in the page URL so a deployed bundle can be driven offline too
+export function isMockTransportRequested(): boolean {
+  const params = new URLSearchParams(window.location.search);
+  return import.meta.env.VITE_TRANSPORT === 'mock' || params.has('mock') || params.get('transport') === 'mock';
+}
+
+export function createTransport(options: TransportOptions): LineraTransport {
+  return isMockTransportRequested() ? createMockTransport() : createHttpTransport(options);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_LINK_HEALTH, backoffDelay, linkHealthReducer, type LinkEvent, type LinkHealth } from './linkHealth';
+
+const run = (events: LinkEvent[], from: LinkHealth = INITIAL_LINK_HEALTH) => events.reduce(linkHealthReducer, from);
+
+const connected = run([{ type: 'connect' }, { type: 'connected' }]);
+const failure = (at: number): LinkEvent => ({ type: 'failure', reason: 'Failed to fetch', at });
+
+describe('link health', () => {
+  it('connects, or goes back offline with the reason', () => {
+    expect(run([{ type: 'connect' }]).state).toBe('connecting');
+    expect(connected).toMatchObject({ state: 'connected', reason: null });
+    expect(run([{ type: 'connect' }, { type: 'connectFailed', reason: 'Faucet down' }])).toEqual({
+      ...INITIAL_LINK_HEALTH,
+      reason: 'Faucet down',
+    });
+  });
+
+  it('starts a fallback connection out degraded', () => {
+    expect(run([{ type: 'connect' }, { type: 'connected', reason: 'Using the default chain' }])).toMatchObject({
+      state: 'degraded',
+      reason: 'Using the default chain',
+    });
+  });
+
+  it('ignores failures before it is connected, but records syncs', () => {
+    const connecting = run([{ type: 'connect' }]);
+    expect(linkHealthReducer(connecting, failure(10))).toBe(connecting);
+    expect(linkHealthReducer(INITIAL_LINK_HEALTH, failure(10))).toBe(INITIAL_LINK_HEALTH);
+    expect(linkHealthReducer(connecting, { type: 'success', latencyMs: 40, at: 10 })).toMatchObject({
+      state: 'connecting',
+      lastSyncAt: 10,
+      latencyMs: 40,
+    });
+  });
+
+  it('degrades on a failure and starts reconnecting on the third in a row', () => {
+    const degraded = run([failure(100), failure(200)], connected);
+    expect(degraded).toMatchObject({ state: 'degraded', consecutiveFailures: 2, reason: 'Failed to fetch' });
+    expect(linkHealthReducer(degraded, failure(300))).toMatchObject({
+      state: 'reconnecting',
+      consecutiveFailures: 3,
+      retryAt: 300 + backoffDelay(3),
+    });
+  });
+
+  it('doubles the backoff with each failed probe, up to a cap', () => {
+    expect([3, 4, 5, 6].map(backoffDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(backoffDelay(20)).toBe(30000);
+    const reconnecting = run([failure(0), failure(0), failure(0), failure(5000)], connected);
+    expect(reconnecting).toMatchObject({ state: 'reconnecting', consecutiveFailures: 4, retryAt: 7000 });
+  });
+
+  it('recovers on the next success from degraded or reconnecting', () => {
+    for (const failures of [1, 3]) {
+      const broken = run(Array.from({ length: failures }, (_, i) => failure(i)), connected);
+      expect(linkHealthReducer(broken, { type: 'success', latencyMs: 25, at: 900 })).toEqual({
+        state: 'connected',
+        lastSyncAt: 900,
+        latencyMs: 25,
+        consecutiveFailures: 0,
+        retryAt: null,
+        reason: null,
+      });
+    }
+  });
+
+  it('follows the browser going offline and back online', () => {
+    const offline = linkHealthReducer(connected, { type: 'browserOffline' });
+    expect(offline).toMatchObject({ state: 'reconnecting', retryAt: null, reason: 'Browser is offline' });
+    expect(linkHealthReducer(INITIAL_LINK_HEALTH, { type: 'browserOffline' })).toBe(INITIAL_LINK_HEALTH);
+    // Back online, the next request probes the node straight away
+    expect(linkHealthReducer(offline, { type: 'browserOnline', at: 1234 })).toMatchObject({
+      state: 'reconnecting',
+      retryAt: 1234,
+      reason: 'Back online - checking node',
+    });
+    expect(linkHealthReducer(connected, { type: 'browserOnline', at: 1234 })).toBe(connected);
+  });
+
+  it('forgets everything on disconnect', () => {
+    const reconnecting = run([failure(0), failure(0), failure(0)], connected);
+    expect(linkHealthReducer(reconnecting, { type: 'disconnect' })).toEqual(INITIAL_LINK_HEALTH);
+  });
+});
@@ -0,0 +1,109 @@
+// Connection state machine for the link between the frontend and the node.
+//
+//   offline ──connect──► connecting ──connected──► connected
+//                            │                      │   ▲
+//                          failed              failure  success
+//                            ▼                      ▼   │
+//                         offline               degraded ──(3rd failure)──► reconnecting
+//                                                                             │     ▲
+//                                                                           success failure
+//                                                                             ▼     │ (backoff doubles)
+//                                                                          connected
+//
+// Only NetworkErrors count as failures; GraphQL errors mean the node answered.
+
+export type LinkState = 'offline' | 'connecting' | 'connected' | 'degraded' | 'reconnecting';
+
+export interface LinkHealth {
+  state: LinkState;
+  // Wall-clock time (ms) of the last successful request
+  lastSyncAt: number | null;
+  // Round-trip time (ms) of the last successful request
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  // While reconnecting, requests fail fast until this time; then the next one probes the node
+  retryAt: number | null;
+  // Why the link is not healthy (shown in the header)
+  reason: string | null;
+}
+
+export type LinkEvent =
+  | { type: 'connect' }
+  | { type: 'connected'; reason?: string }
+  | { type: 'connectFailed'; reason: string }
+  | { type: 'success'; latencyMs: number; at: number }
+  | { type: 'failure'; reason: string; at: number }
+  | { type: 'browserOffline' }
+  | { type: 'browserOnline'; at: number }
+  | { type: 'disconnect' };
+
+// Failures in a row before we stop treating the link as merely slow
+const RECONNECT_AFTER_FAILURES = 3;
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+export const INITIAL_LINK_HEALTH: LinkHealth = {
+  state: 'offline',
+  lastSyncAt: null,
+  latencyMs: null,
+  consecutiveFailures: 0,
+  retryAt: null,
+  reason: null,
+};
+
+export const backoffDelay = (failures: number) =>
+  Math.min(MIN_BACKOFF_MS * 2 ** Math.max(0, failures - RECONNECT_AFTER_FAILURES), MAX_BACKOFF_MS);
+
+export function linkHealthReducer(health: LinkHealth, event: LinkEvent): LinkHealth {
+  switch (event.type) {
+    case 'connect':
+      return { ...INITIAL_LINK_HEALTH, state: 'connecting' };
+
+    case 'connected':
+      // A fallback connection (e.g. faucet down, default chain used) starts out degraded
+      return { ...health, state: event.reason ? 'degraded' : 'connected', reason: event.reason ?? null };
+
+    case 'connectFailed':
+      return { ...INITIAL_LINK_HEALTH, reason: event.reason };
+
+    case 'success':
+      if (health.state === 'offline' || health.state === 'connecting') {
+        return { ...health, lastSyncAt: event.at, latencyMs: event.latencyMs };
+      }
+      return {
+        ...health,
+        state: 'connected',
+        lastSyncAt: event.at,
+        latencyMs: event.latencyMs,
+        consecutiveFailures: 0,
+        retryAt: null,
+        reason: null,
+      };
+
+    case 'failure': {
+      if (health.state === 'offline' || health.state === 'connecting') return health;
+      const consecutiveFailures = health.consecutiveFailures + 1;
+      if (consecutiveFailures < RECONNECT_AFTER_FAILURES) {
+        return { ...health, state: 'degraded', consecutiveFailures, reason: event.reason };
+      }
+      return {
+        ...health,
+        state: 'reconnecting',
+        consecutiveFailures,
+        retryAt: event.at + backoffDelay(consecutiveFailures),
+        reason: event.reason,
+      };
+    }
+
+    case 'browserOffline':
+      if (health.state === 'offline') return health;
+      return { ...health, state: 'reconnecting', retryAt: null, reason: 'Browser is offline' };
+
+    case 'browserOnline':
+      if (health.state !== 'reconnecting') return health;
+      return { ...health, retryAt: event.at, reason: 'Back online - checking node' };
+
+    case 'disconnect':
+      return INITIAL_LINK_HEALTH;
+  }
+}
@@ -0,0 +1,147 @@
+import { buildSchema, graphql } from 'graphql';
+import type { BetSelection, BetType, RoundSettings, TableLimits } from '../graphql/types';
+import { betTypeName } from '../lib/tableLimits';
+import { ROULETTE_SDL } from './mockSchema';
+import { createMockRoom, type MockRoom } from './mockRoom';
+import type { LineraTransport, RoomSubscriptionHandlers } from './types';
+
+// In-browser stand-in for `linera net up` + faucet. Every chain id lazily gets its own room,
+// every mutation produces one block, and subscribers are notified just like the real node.
+
+export const MOCK_APP_ID = 'mock-roulette';
+
+// Simulated network round-trip, so loading states are still exercised
+const MOCK_LATENCY_MS = 40;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createMockTransport(): LineraTransport {
+  const schema = buildSchema(ROULETTE_SDL);
+  const rooms = new Map<string, MockRoom>();
+  const heights = new Map<string, number>();
+  const listeners = new Map<string, Set<RoomSubscriptionHandlers>>();
+
+  const roomFor = (chainId: string) => {
+    let room = rooms.get(chainId);
+    if (!room) {
+      room = createMockRoom();
+      rooms.set(chainId, room);
+    }
+    return room;
+  };
+
+  const produceBlock = (chainId: string) => {
+    const height = (heights.get(chainId) ?? 0) + 1;
+    heights.set(chainId, height);
+    setTimeout(() => listeners.get(chainId)?.forEach(handlers => handlers.onNewBlock(height)), 0);
+  };
+
+  // Resolvers mirroring QueryRoot and MutationRoot in service.rs
+  const rootFor = (chainId: string, room: MockRoom) => ({
+    gameState: () => room.game(),
+    players: () => room.players(),
+    player: ({ chainId: id }: { chainId: string }) => room.players().find(p => p.chainId === id) ?? null,
+    currentBets: () => room.game().currentBets,
+    lastResult: () => room.game().lastResult,
+    history: () => room.game().history,
+    isSpinning: () => room.game().isSpinning,
+    playerBalance: ({ chainId: id }: { chainId: string }) => room.players().find(p => p.chainId === id)?.balance ?? 0,
+    totalPot: () => room.game().currentBets.reduce((sum, b) => sum + b.amount, 0),
+    myPlayer: () => null,
+    amIHost: () => true,
+    hostChainId: () => null,
+    lease: () => room.lease(),
+    tableLimits: () => room.tableLimits(),
+    roundSettings: () => room.roundSettings(),
+    layoutRejection: ({ playerId }: { playerId: string }) => room.layoutRejection(playerId),
+
+    registerPlayer: ({ playerId, name, initialBalance }: { playerId: string; name: string; initialBalance: number }) => {
+      room.registerPlayer(playerId, name, initialBalance);
+      produceBlock(chainId);
+      return `Registered ${name} with balance ${initialBalance}`;
+    },
+    placeBet: ({ playerId, betType, numbers, amount }: { playerId: string; betType: BetType; numbers: number[]; amount: number }) => {
+      room.placeBet(playerId, betType, numbers, amount);
+      produceBlock(chainId);
+      return `Bet placed: ${betTypeName(betType)} amount ${amount}`;
+    },
+    placeBets: ({ playerId, bets }: { playerId: string; bets: BetSelection[] }) => {
+      room.placeBets(playerId, bets);
+      produceBlock(chainId);
+      return `Bets placed: ${bets.length}`;
+    },
+    startRound: () => {
+      room.startRound();
+      produceBlock(chainId);
+      return 'Round started';
+    },
+    spinWheel: () => {
+      room.spinWheel();
+      produceBlock(chainId);
+      return 'Spinning';
+    },
+    refundRound: () => {
+      room.refundRound();
+      produceBlock(chainId);
+      return 'Round refunded';
+    },
+    claimRoom: ({ owner, ttlMs }: { owner: string; ttlMs: number }) => {
+      room.claimRoom(owner, ttlMs);
+      produceBlock(chainId);
+      return 'Room claimed';
+    },
+    releaseRoom: ({ owner }: { owner: string }) => {
+      room.releaseRoom(owner);
+      produceBlock(chainId);
+      return 'Room released';
+    },
+    setTableLimits: ({ owner, limits }: { owner: string; limits: TableLimits }) => {
+      room.setTableLimits(owner, limits);
+      produceBlock(chainId);
+      return 'Table limits set';
+    },
+    setRoundSettings: ({ owner, settings }: { owner: string; settings: RoundSettings }) => {
+      room.setRoundSettings(owner, settings);
+      produceBlock(chainId);
+      return 'Round settings set';
+    },
+  });
+
+  return {
+    name: 'mock',
+    defaultAppId: MOCK_APP_ID,
+
+    request: async (chainId, appId, document, variables) => {
+      await delay(MOCK_LATENCY_MS);
+      if (appId !== MOCK_APP_ID) throw new Error(`Request failed: application ${appId} not found`);
+
+      const result = await graphql({
+        schema,
+        source: document,
+        rootValue: rootFor(chainId, roomFor(chainId)),
+        variableValues: variables as Record<string, unknown> | undefined,
+      });
+      if (result.errors) throw new Error(result.errors[0]?.message || 'GraphQL error');
+      // graphql-js builds null-prototype objects; hand back plain JSON like the real node
+      return JSON.parse(JSON.stringify(result.data));
+    },
+
+    subscribe: (chainId, handlers) => {
+      const set = listeners.get(chainId) ?? new Set();
+      set.add(handlers);
+      listeners.set(chainId, set);
+      setTimeout(() => { if (set.has(handlers)) handlers.onStatusChange?.(true); }, 0);
+
+      return () => {
+        set.delete(handlers);
+        handlers.onStatusChange?.(false);
+      };
+    },
+
+    // Mock chains are named after their owner key, so a reload finds the same chain again
+    claimChain: async (owner) => {
+      await delay(MOCK_LATENCY_MS);
+      return owner.replace(/^0x/, '');
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import type { Bet, BetSelection, BetType, GameState, Player, RoomLease, RoundSettings, SpinResult, TableLimits, Winner } from '../graphql/types';
+import { betReturn, isValidInitialBalance, isValidSelection, numberColor } from '../lib/rules';
+import { DEFAULT_TABLE_LIMITS, checkLimits, isValidLimits } from '../lib/tableLimits';
+import { DEFAULT_ROUND_SETTINGS, isValidRoundSettings } from '../lib/roundSettings';
+import { refundDeadline } from '../lib/failover';
+
+// In-memory replica of a room chain running the roulette contract (contract/src/contract.rs).
+// Operations fail silently exactly where the contract returns early, so the UI sees the same
+// behaviour it would against a real node.
+
+const HISTORY_LENGTH = 10;
+const MAX_LEASE_TTL_MS = 5 * 60_000;
+const MAX_BETS_PER_BATCH = 100;
+
+// Same rules and messages as validate_bet_batch in lib.rs: the layout's total stake, or why it
+// can't be placed
+function batchTotal(bets: BetSelection[], balance: number): number | string {
+  if (bets.length === 0) return 'No bets';
+  if (bets.length > MAX_BETS_PER_BATCH) return 'Too many bets';
+  for (const bet of bets) {
+    if (bet.amount <= 0) return 'Invalid bet amount';
+    if (!isValidSelection(bet.betType, bet.numbers)) return 'Invalid bet selection';
+  }
+  const total = bets.reduce((sum, bet) => sum + bet.amount, 0);
+  return total > balance ? 'Insufficient balance' : total;
+}
+
+// Same rule as RoomLease::can_claim in lib.rs
+const canClaim = (lease: RoomLease | null, owner: string, nowMs: number) =>
+  !lease || lease.owner === owner || nowMs >= lease.expiresAt;
+
+const randomNumber = () => crypto.getRandomValues(new Uint32Array(1))[0] % 37;
+
+export interface MockRoom {
+  game: () => GameState;
+  players: () => Player[];
+  registerPlayer: (playerId: string, name: string, initialBalance: number) => void;
+  placeBet: (playerId: string, betType: BetType, numbers: number[], amount: number) => void;
+  placeBets: (playerId: string, bets: BetSelection[]) => void;
+  // Why the player's last layout was turned down, until one goes through
+  layoutRejection: (playerId: string) => string | null;
+  startRound: () => void;
+  spinWheel: () => void;
+  refundRound: () => void;
+  lease: () => RoomLease | null;
+  claimRoom: (owner: string, ttlMs: number) => void;
+  releaseRoom: (owner: string) => void;
+  tableLimits: () => TableLimits;
+  setTableLimits: (owner: string, limits: TableLimits) => void;
+  roundSettings: () => RoundSettings;
+  setRoundSettings: (owner: string, settings: RoundSettings) => void;
+}
+
+export function createMockRoom(now: () => number = Date.now, spin: () => number = randomNumber): MockRoom {
+  let game: GameState = { isSpinning: false, currentBets: [], lastResult: null, history: [], bettingEndTime: null, firstBetAt: null };
+  const players = new Map<string, Player>();
+  let lease: RoomLease | null = null;
+  let limits: TableLimits = DEFAULT_TABLE_LIMITS;
+  let roundSettings: RoundSettings = DEFAULT_ROUND_SETTINGS;
+  const rejections = new Map<string, string>();
+
+  // Same as GameState::bets_of in lib.rs
+  const betsOf = (playerId: string): BetSelection[] =>
+    game.currentBets
+      .filter(bet => bet.playerChainId === playerId)
+      .map(({ betType, numbers, amount }) => ({ betType, numbers, amount }));
+
+  const micros = () => String(now() * 1000);
+
+  // Same rule as RouletteContract::may_set_limits in contract.rs
+  const maySetLimits = (owner: string) =>
+    !!lease && lease.owner === owner && now() < lease.expiresAt && game.currentBets.length === 0;
+
+  const settleBets = (result: number) => {
+    const winners: Winner[] = [];
+
+    for (const bet of game.currentBets) {
+      const player = players.get(bet.playerChainId);
+      const payout = betReturn(bet, result);
+      if (!player || payout === 0) continue;
+      players.set(player.chainId, { ...player, balance: player.balance + payout });
+      winners.push({
+        playerChainId: bet.playerChainId,
+        playerName: bet.playerName,
+        betType: bet.betType,
+        betAmount: bet.amount,
+        payout,
+      });
+    }
+
+    const lastResult: SpinResult = { number: result, color: numberColor(result), timestamp: micros(), winners };
+    game = {
+      isSpinning: false,
+      currentBets: [],
+      lastResult,
+      history: [...game.history, result].slice(-HISTORY_LENGTH),
+      bettingEndTime: null,
+      firstBetAt: null,
+    };
+  };
+
+  // Same checks and messages as RouletteContract::place_bets_internal in contract.rs
+  const placeLayout = (playerId: string, bets: BetSelection[]): string | null => {
+    const player = players.get(playerId);
+    if (!player) return 'Not registered';
+    const total = batchTotal(bets, player.balance);
+    if (typeof total === 'string') return total;
+    if (game.isSpinning) return 'Wheel spinning';
+    const overLimit = checkLimits(limits, betsOf(playerId), bets);
+    if (overLimit) return overLimit;
+
+    players.set(playerId, { ...player, balance: player.balance - total });
+    const placed: Bet[] = bets.map(({ betType, numbers, amount }) => ({
+      playerChainId: playerId,
+      playerName: player.name,
+      betType,
+      numbers,
+      amount,
+    }));
+    addBets(placed);
+    return null;
+  };
+
+  // Same as GameState::open_auto_window in lib.rs
+  const openAutoWindow = () => {
+    if (!roundSettings.autoDeal || game.isSpinning || game.currentBets.length > 0) return;
+    if (game.bettingEndTime !== null && game.bettingEndTime > now()) return;
+    const lastResultMs = game.lastResult ? Math.floor(Number(game.lastResult.timestamp) / 1000) : 0;
+    const opensAt = Math.max(now(), lastResultMs + roundSettings.roundPauseMs);
+    game = { ...game, bettingEndTime: opensAt + roundSettings.bettingWindowMs };
+  };
+
+  // Same as GameState::add_bets in lib.rs, after the contract's open_auto_window
+  const addBets = (bets: Bet[]) => {
+    openAutoWindow();
+    game = {
+      ...game,
+      currentBets: [...game.currentBets, ...bets],
+      firstBetAt: game.currentBets.length === 0 ? now() : game.firstBetAt,
+    };
+  };
+
+  return {
+    game: () => game,
+    players: () => Array.from(players.values()),
+
+    registerPlayer: (playerId, name, initialBalance) => {
+      if (!isValidInitialBalance(initialBalance) || players.has(playerId)) return;
+      players.set(playerId, { chainId: playerId, name, balance: initialBalance });
+    },
+
+    placeBet: (playerId, betType, numbers, amount) => {
+      const player = players.get(playerId);
+      if (!player || !isValidSelection(betType, numbers) || player.balance < amount || game.isSpinning) return;
+      if (checkLimits(limits, betsOf(playerId), [{ betType, numbers, amount }])) return;
+      players.set(playerId, { ...player, balance: player.balance - amount });
+      const bet: Bet = { playerChainId: playerId, playerName: player.name, betType, numbers, amount };
+      addBets([bet]);
+    },
+
+    placeBets: (playerId, bets) => {
+      const rejection = placeLayout(playerId, bets);
+      if (rejection) rejections.set(playerId, rejection);
+      else rejections.delete(playerId);
+    },
+
+    layoutRejection: (playerId) => rejections.get(playerId) ?? null,
+
+    startRound: () => {
+      game = { ...game, bettingEndTime: now() + roundSettings.bettingWindowMs };
+    },
+
+    spinWheel: () => {
+      if (game.isSpinning || game.currentBets.length === 0) return;
+      settleBets(spin());
+    },
+
+    // Same rules as Operation::RefundRound in contract.rs
+    refundRound: () => {
+      const deadline = refundDeadline(game);
+      if (game.isSpinning || deadline === null || now() < deadline) return;
+      for (const bet of game.currentBets) {
+        const player = players.get(bet.playerChainId);
+        if (player) players.set(player.chainId, { ...player, balance: player.balance + bet.amount });
+      }
+      game = { ...game, currentBets: [], bettingEndTime: null, firstBetAt: null };
+    },
+
+    lease: () => lease,
+
+    claimRoom: (owner, ttlMs) => {
+      if (ttlMs <= 0 || !canClaim(lease, owner, now())) return;
+      lease = { owner, expiresAt: now() + Math.min(ttlMs, MAX_LEASE_TTL_MS) };
+    },
+
+    releaseRoom: (owner) => {
+      if (lease?.owner === owner) lease = null;
+    },
+
+    tableLimits: () => limits,
+
+    setTableLimits: (owner, next) => {
+      if (!maySetLimits(owner) || !isValidLimits(next)) return;
+      limits = next;
+    },
+
+    roundSettings: () => roundSettings,
+
+    setRoundSettings: (owner, next) => {
+      if (!maySetLimits(owner) || !isValidRoundSettings(next)) return;
+      roundSettings = next;
+    },
+  };
+}
@@ -0,0 +1,159 @@
+// SDL of the roulette service (contract/src/service.rs) as served by the mock node.
+// async-graphql serializes u64 fields as `Int`, but graphql-js limits `Int` to 32 bits,
+// so 64-bit outputs (balances, amounts, millisecond timestamps) use a `U64` scalar here.
+// Queries never name output scalars, so documents written for the real node work unchanged.
+// schema.test.ts checks that this is contract/schema.graphql with only that difference.
+
+export const ROULETTE_SDL = /* GraphQL */ `
+  scalar U64
+
+  enum BetType {
+    STRAIGHT
+    RED
+    BLACK
+    EVEN
+    ODD
+    LOW
+    HIGH
+    FIRST_DOZEN
+    SECOND_DOZEN
+    THIRD_DOZEN
+    FIRST_COLUMN
+    SECOND_COLUMN
+    THIRD_COLUMN
+    SPLIT
+    STREET
+    CORNER
+    SIX_LINE
+    TRIO
+    BASKET
+  }
+
+  type Player {
+    chainId: String!
+    name: String!
+    balance: U64!
+  }
+
+  type Bet {
+    playerChainId: String!
+    playerName: String!
+    betType: BetType!
+    numbers: [Int!]!
+    amount: U64!
+  }
+
+  type Winner {
+    playerChainId: String!
+    playerName: String!
+    betType: BetType!
+    betAmount: U64!
+    payout: U64!
+  }
+
+  type SpinResult {
+    number: Int!
+    color: String!
+    timestamp: String!
+    winners: [Winner!]!
+  }
+
+  type GameState {
+    isSpinning: Boolean!
+    currentBets: [Bet!]!
+    lastResult: SpinResult
+    history: [Int!]!
+    bettingEndTime: U64
+    firstBetAt: U64
+  }
+
+  type RoomLease {
+    owner: String!
+    expiresAt: U64!
+  }
+
+  type BetLimit {
+    betType: BetType!
+    min: U64!
+    max: U64!
+  }
+
+  type TableLimits {
+    minBet: U64!
+    maxBet: U64!
+    maxStraight: U64!
+    maxRoundStake: U64!
+    betLimits: [BetLimit!]!
+    chipValues: [U64!]!
+  }
+
+  type RoundSettings {
+    bettingWindowMs: U64!
+    roundPauseMs: U64!
+    autoDeal: Boolean!
+  }
+
+  type QueryRoot {
+    gameState: GameState!
+    players: [Player!]!
+    player(chainId: String!): Player
+    currentBets: [Bet!]!
+    lastResult: SpinResult
+    history: [Int!]!
+    isSpinning: Boolean!
+    playerBalance(chainId: String!): U64!
+    totalPot: U64!
+    myPlayer: Player
+    amIHost: Boolean!
+    hostChainId: String
+    lease: RoomLease
+    tableLimits: TableLimits!
+    roundSettings: RoundSettings!
+    layoutRejection(playerId: String!): String
+  }
+
+  input BetInput {
+    betType: BetType!
+    numbers: [Int!]!
+    amount: Int!
+  }
+
+  input BetLimitInput {
+    betType: BetType!
+    min: Int!
+    max: Int!
+  }
+
+  input TableLimitsInput {
+    minBet: Int!
+    maxBet: Int!
+    maxStraight: Int!
+    maxRoundStake: Int!
+    betLimits: [BetLimitInput!]!
+    chipValues: [Int!]!
+  }
+
+  input RoundSettingsInput {
+    bettingWindowMs: Int!
+    roundPauseMs: Int!
+    autoDeal: Boolean!
+  }
+
+  type MutationRoot {
+    registerPlayer(playerId: String!, name: String!, initialBalance: Int!): String!
+    placeBet(playerId: String!, betType: BetType!, numbers: [Int!]!, amount: Int!): String!
+    placeBets(playerId: String!, bets: [BetInput!]!): String!
+    startRound: String!
+    spinWheel: String!
+    refundRound: String!
+    claimRoom(owner: String!, ttlMs: Int!): String!
+    releaseRoom(owner: String!): String!
+    setTableLimits(owner: String!, limits: TableLimitsInput!): String!
+    setRoundSettings(owner: String!, settings: RoundSettingsInput!): String!
+  }
+
+  schema {
+    query: QueryRoot
+    mutation: MutationRoot
+  }
+`;
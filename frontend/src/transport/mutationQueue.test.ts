@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMutationQueue } from './mutationQueue';
+import { NetworkError } from './types';
+
+const down = () => Promise.reject(new NetworkError('Failed to fetch'));
+
+describe('mutation queue', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('queues a mutation that cannot reach the node, and everything made after it', async () => {
+    const sizes: number[] = [];
+    const queue = createMutationQueue(size => sizes.push(size));
+    const reached = vi.fn(async () => 'placed');
+
+    queue.submit(down);
+    await vi.waitFor(() => expect(queue.size()).toBe(1));
+    queue.submit(reached);
+    await vi.waitFor(() => expect(queue.size()).toBe(2));
+    // The second one never went out - it would have overtaken the first
+    expect(reached).not.toHaveBeenCalled();
+    expect(sizes).toEqual([1, 2]);
+  });
+
+  it('replays queued mutations in the order they were made', async () => {
+    const queue = createMutationQueue();
+    const order: string[] = [];
+    let nodeUp = false;
+    const mutation = (name: string) => () => {
+      if (!nodeUp) return down();
+      order.push(name);
+      return Promise.resolve(name);
+    };
+
+    const results = ['placeBets', 'spin', 'claimWinnings'].map(name => queue.submit(mutation(name)));
+    await vi.waitFor(() => expect(queue.size()).toBe(3));
+
+    nodeUp = true;
+    await queue.flush();
+    expect(order).toEqual(['placeBets', 'spin', 'claimWinnings']);
+    expect(await Promise.all(results)).toEqual(['placeBets', 'spin', 'claimWinnings']);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('keeps the rest queued when the link drops again mid-replay', async () => {
+    const queue = createMutationQueue();
+    let calls = 0;
+    // Fails once while queueing, succeeds on replay, then the node goes away again
+    const first = queue.submit(() => (calls++ === 0 ? down() : Promise.resolve('first')));
+    queue.submit(down);
+    await vi.waitFor(() => expect(queue.size()).toBe(2));
+
+    await queue.flush();
+    expect(await first).toBe('first');
+    expect(queue.size()).toBe(1);
+  });
+
+  it('passes on errors from a node that answered, without queueing', async () => {
+    const queue = createMutationQueue();
+    await expect(queue.submit(() => Promise.reject(new Error('Insufficient balance')))).rejects.toThrow(
+      'Insufficient balance'
+    );
+    expect(queue.size()).toBe(0);
+
+    // A replayed mutation the node turns down is rejected, and the replay moves on
+    let nodeUp = false;
+    const rejected = queue.submit(() => (nodeUp ? Promise.reject(new Error('Betting closed')) : down()));
+    const placed = queue.submit(() => (nodeUp ? Promise.resolve('placed') : down()));
+    await vi.waitFor(() => expect(queue.size()).toBe(2));
+    nodeUp = true;
+    await queue.flush();
+    await expect(rejected).rejects.toThrow('Betting closed');
+    expect(await placed).toBe('placed');
+  });
+
+  it('gives up on mutations queued past their TTL', async () => {
+    let clock = 0;
+    const queue = createMutationQueue(() => {}, 1000, () => clock);
+    let nodeUp = false;
+    const stale = queue.submit(() => (nodeUp ? Promise.resolve('late') : down()));
+    await vi.waitFor(() => expect(queue.size()).toBe(1));
+
+    clock = 1001;
+    nodeUp = true;
+    await queue.flush();
+    await expect(stale).rejects.toThrow('Node unreachable - mutation abandoned');
+  });
+
+  it('stops a replay that is cancelled, and rejects whatever is left on clear', async () => {
+    const queue = createMutationQueue();
+    const pending = [queue.submit(down), queue.submit(down)];
+    await vi.waitFor(() => expect(queue.size()).toBe(2));
+
+    await queue.flush(() => true);
+    expect(queue.size()).toBe(2);
+
+    queue.clear('Disconnected');
+    expect(queue.size()).toBe(0);
+    for (const mutation of pending) await expect(mutation).rejects.toThrow('Disconnected');
+  });
+});
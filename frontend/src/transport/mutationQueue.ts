@@ -0,0 +1,74 @@
+import { NetworkError } from './types';
+
+// Mutations that could not reach the node, replayed in the order they were made once it answers again.
+//
+// - While anything is queued, new mutations wait behind it, so none can overtake an earlier one.
+// - A replay stops at the first mutation that still can't reach the node; it stays at the head.
+// - A mutation left queued past its TTL is given up on when its turn comes.
+// Only NetworkErrors queue a mutation; any other error means the node answered, so the caller gets it.
+
+// Queued mutations are given up on if the node stays unreachable this long
+const DEFAULT_TTL_MS = 60000;
+
+interface Queued {
+  run: () => Promise<unknown>;
+  resolve: (data: unknown) => void;
+  reject: (err: unknown) => void;
+  expiresAt: number;
+}
+
+export interface MutationQueue {
+  submit: <TData>(run: () => Promise<TData>) => Promise<TData>;
+  // `cancelled` is checked between mutations, so a replay can be stopped when the link drops
+  flush: (cancelled?: () => boolean) => Promise<void>;
+  clear: (reason: string) => void;
+  size: () => number;
+}
+
+export function createMutationQueue(
+  onChange: (size: number) => void = () => {},
+  ttlMs = DEFAULT_TTL_MS,
+  now: () => number = Date.now
+): MutationQueue {
+  const queue: Queued[] = [];
+
+  const submit = async <TData>(run: () => Promise<TData>): Promise<TData> => {
+    try {
+      if (queue.length > 0) throw new NetworkError('Earlier mutations still queued');
+      return await run();
+    } catch (err) {
+      if (!(err instanceof NetworkError)) throw err;
+      console.warn('[LINK] Mutation queued until the node is reachable:', err.message);
+      return new Promise<TData>((resolve, reject) => {
+        queue.push({ run, resolve: resolve as (data: unknown) => void, reject, expiresAt: now() + ttlMs });
+        onChange(queue.length);
+      });
+    }
+  };
+
+  const flush = async (cancelled: () => boolean = () => false) => {
+    while (!cancelled() && queue.length > 0) {
+      const next = queue[0];
+      if (now() > next.expiresAt) {
+        queue.shift();
+        next.reject(new Error('Node unreachable - mutation abandoned'));
+        continue;
+      }
+      try {
+        next.resolve(await next.run());
+      } catch (err) {
+        if (err instanceof NetworkError) break; // link dropped again - keep it queued
+        next.reject(err);
+      }
+      queue.shift();
+    }
+    onChange(queue.length);
+  };
+
+  const clear = (reason: string) => {
+    queue.splice(0).forEach(m => m.reject(new Error(reason)));
+    onChange(0);
+  };
+
+  return { submit, flush, clear, size: () => queue.length };
+}
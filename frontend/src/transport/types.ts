@@ -0,0 +1,30 @@
+// A transport carries GraphQL traffic between the frontend and a Linera node.
+// LineraContext only talks to this interface, so the real node and the in-browser
+// mock node are interchangeable.
+
+export interface RoomSubscriptionHandlers {
+  onNewBlock: (height: number) => void;
+  onStatusChange?: (live: boolean) => void;
+}
+
+export interface LineraTransport {
+  // Human-readable name shown in logs
+  name: string;
+  // Application id to use when none is configured (the mock node hosts a single app)
+  defaultAppId?: string;
+  // POST a GraphQL document to an application on a chain and resolve with its `data`
+  request: <TData>(chainId: string, appId: string, document: string, variables?: unknown) => Promise<TData>;
+  // Push notifications for new blocks on a chain; returns an unsubscribe function
+  subscribe: (chainId: string, handlers: RoomSubscriptionHandlers) => () => void;
+  // Look up (or claim from the faucet) the chain owned by `owner`
+  claimChain: (owner: string) => Promise<string>;
+}
+
+// The node could not be reached (fetch failed or a non-2xx status). Application-level
+// GraphQL errors are plain Errors - they are answers, not connectivity problems.
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}